@@ -6,6 +6,7 @@
  *    with a button to fill in their introduction or working-on information.
  * 2) When the user submits the modal, the bot posts a public message in #introductions
  *    or creates a PUBLIC thread in #working-on with their information.
+ *    Forms are defined in src/config/forms.ts and can be overridden with configs/forms.json.
  * 3) When the user completes BOTH forms, they receive the "Dodo Builder" role.
  * 4) Users can run /clear-dm to delete all DM messages from this bot.
  *
@@ -36,30 +37,45 @@ import os from 'node:os';
 import { reminderService } from './src/services/reminderService.js';
 import { moderationService } from './src/services/moderationService.js';
 import { supportBotService } from './src/services/supportBotService.js';
+import { answerService } from './src/services/answerService.js';
+import { faqService } from './src/services/faqService.js';
+import { supportFeedbackService } from './src/services/supportFeedbackService.js';
 import { moveQuestionService } from './src/services/moveQuestionService.js';
 import { botTrapService } from './src/services/botTrap.js';
-import { DURATION } from './src/utils/constants.js';
+import { storageService } from './src/services/storageService.js';
+import { completionService } from './src/services/completionService.js';
+import { formService } from './src/services/formService.js';
+import { postService } from './src/services/postService.js';
+import { analyticsService } from './src/services/analyticsService.js';
+import { dmFallbackService } from './src/services/dmFallbackService.js';
+import { reviewService } from './src/services/reviewService.js';
+import { builderAuditService } from './src/services/builderAuditService.js';
+import { projectService } from './src/services/projectService.js';
+import { i18nService } from './src/services/i18nService.js';
+import { templateService } from './src/services/templateService.js';
+import { cohortService, IntroFlowResult } from './src/services/cohortService.js';
+import { pointsService } from './src/services/pointsService.js';
+import { achievementService } from './src/services/achievementService.js';
+import { streakService } from './src/services/streakService.js';
+import { digestService } from './src/services/digestService.js';
+import { resolutionService } from './src/services/resolutionService.js';
+import { onboardingDmService } from './src/services/onboardingDmService.js';
+import { DURATION, LIMITS } from './src/utils/constants.js';
+import { verifyCustomId } from './src/utils/customIds.js';
+import { FormDefinition } from './src/config/forms.js';
+import { LocaleCode } from './src/locales/types.js';
 
 import {
     Client,
     GatewayIntentBits,
     Partials,
-    TextChannel,
     REST,
     Routes,
-    ActionRowBuilder,
-    ButtonBuilder,
-    ButtonStyle,
-    ModalBuilder,
-    TextInputBuilder,
-    TextInputStyle,
     ModalSubmitInteraction,
     ButtonInteraction,
     GuildMember,
     Events,
-    ModalActionRowComponentBuilder,
     DMChannel,
-    ThreadChannel,
     EmbedBuilder,
 } from 'discord.js';
 import dotenv from 'dotenv';
@@ -90,135 +106,12 @@ if (!DISCORD_TOKEN || !GUILD_ID || !CLIENT_ID || !INTRO_CHANNEL_ID || !WORKING_O
     process.exit(1);
 }
 
-// Server post: Introduction embed (uses user mention and rich layout)
-function buildIntroEmbed(name: string, targetUserId: string, about: string): EmbedBuilder {
-    const introVariations = [
-        {
-            title: `Welcome to the Dodo family, ${name}!`,
-            section: `About ${name}:`,
-            footer: "Ready to build something amazing? Let's go!",
-        },
-        {
-            title: `Hey there, ${name}!`,
-            section: `Get to know ${name}:`,
-            footer: "Welcome to our community of builders and creators!",
-        },
-        {
-            title: `A warm welcome to ${name}!`,
-            section: `Meet ${name}:`,
-            footer: "Excited to see what you'll build with us!",
-        },
-        {
-            title: `Welcome aboard, ${name}!`,
-            section: `About ${name}:`,
-            footer: "Great to have another builder in our community! Let's create something awesome together!",
-        },
-        {
-            title: `Welcome to Dodo Payments, ${name}!`,
-            section: `Here's what ${name} shared:`,
-            footer: "We're thrilled to have you join our journey of building great products!",
-        },
-    ];
-
-    const randomIndex = Math.floor(Math.random() * introVariations.length);
-    const v = introVariations[randomIndex];
-
-    const description = [
-        `${v.title} <@${targetUserId}>`,
-        '',
-        `__**${v.section}**__`,
-        `> ${about}`,
-    ].join('\n');
-
-    return new EmbedBuilder()
-        .setColor(0x2b6cb0)
-        .setTitle('New Introduction')
-        .setDescription(description)
-        .setFooter({ text: v.footer });
-}
-
-// Server post: Working-on embed
-function buildWorkingOnEmbed(product: string, targetUserId: string, about: string): EmbedBuilder {
-    const workingVariations = [
-        { title: `New project: ${product}`, section: 'About this project:', footer: 'Join the discussion here!' },
-        { title: `Building: ${product}`, section: 'Project details:', footer: 'Share your thoughts in the thread!' },
-        { title: `Work in progress: ${product}`, section: "What it's about:", footer: "Let's discuss this together!" },
-        { title: `Project spotlight: ${product}`, section: 'Project overview:', footer: 'Join the conversation!' },
-        { title: `Fresh build: ${product}`, section: 'Here are the details:', footer: 'Share your feedback here!' },
-    ];
-
-    const randomIndex = Math.floor(Math.random() * workingVariations.length);
-    const v = workingVariations[randomIndex];
-
-    const description = [
-        `${v.title} <@${targetUserId}>`,
-        '',
-        `__${v.section}__`,
-        `> ${about}`,
-    ].join('\n');
-
-    return new EmbedBuilder()
-        .setColor(0x2f855a)
-        .setTitle('New Project')
-        .setDescription(description)
-        .setFooter({ text: v.footer });
-}
-
-// Server post: Showcase embed
-function buildShowcaseEmbed(product: string, targetUserId: string, about: string): EmbedBuilder {
-    const showcaseVariations = [
-        { title: `Showcase: ${product}`, section: 'What I built:', footer: 'Check it out!' },
-        { title: `Deployed: ${product}`, section: 'Project details:', footer: 'Share your feedback!' },
-        { title: `Live Project: ${product}`, section: "What it does:", footer: "Let's discuss!" },
-        { title: `Showcasing: ${product}`, section: 'About the project:', footer: 'Amazing work!' },
-        { title: `Launched: ${product}`, section: 'Here is what it is:', footer: 'Congrats on the launch!' },
-    ];
-
-    const randomIndex = Math.floor(Math.random() * showcaseVariations.length);
-    const v = showcaseVariations[randomIndex];
-
-    const description = [
-        `${v.title} <@${targetUserId}>`,
-        '',
-        `__${v.section}__`,
-        `> ${about}`,
-    ].join('\n');
-
-    return new EmbedBuilder()
-        .setColor(0x805ad5) // Purple for showcase
-        .setTitle('Project Showcase')
-        .setDescription(description)
-        .setFooter({ text: v.footer });
-}
-
-
-
 // Welcome message embed builder for DMs
-function buildWelcomeEmbed(userId: string): EmbedBuilder {
-
-    const description = [
-        `Hey <@${userId}> 👋`,
-        '',
-        "Welcome to **Dodo Payments**! We're a community of builders shipping great products, and we're stoked to have you here.",
-        '',
-        '**🚀 Get Started in 60 Seconds**',
-        '',
-        "We'd love to know who you are and what you're building. Use the buttons below to:",
-        '',
-        '1.  **Introduce Yourself** - Tell us a bit about you.',
-        "2.  **Share Your Project** - Show us what you're working on OR showcase a finished project! We'll create a dedicated thread for your project so others can follow along and support you.",
-        '',
-        '🏆 **Pro Tip:** Complete the introduction and ONE of the project forms (Working On or Showcase) to instantly earn the **Dodo Builder** role!',
-        '',
-        `*Note: Your answers will be posted publicly in #introductions, #working-on, or the showcase channel.*`,
-        '',
-        "Let's build something amazing together! 🚀"
-    ].join('\n');
-
+function buildWelcomeEmbed(userId: string, locale: LocaleCode): EmbedBuilder {
     return new EmbedBuilder()
         .setColor(0x2b6cb0)
-        .setTitle('Welcome to Dodo Payments!')
-        .setDescription(description);
+        .setTitle(i18nService.t(locale, 'welcome.title'))
+        .setDescription(i18nService.t(locale, 'welcome.description', { user: `<@${userId}>` }));
 }
 
 // Initialize Discord client with required intents
@@ -227,30 +120,15 @@ const client = new Client({
         GatewayIntentBits.Guilds,
         GatewayIntentBits.GuildMembers, // Required for guildMemberAdd event
         GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.GuildMessageReactions, // Helpful reactions for achievements
         GatewayIntentBits.MessageContent,
         GatewayIntentBits.DirectMessages, // Added for DM management
     ],
-    partials: [Partials.Channel, Partials.Message],
+    partials: [Partials.Channel, Partials.Message, Partials.Reaction],
 });
 
 
 
-// Track user completions: Map<userId, { completions: Set<'intro' | 'working' | 'showcase'>, timestamp: number }>
-const userCompletions = new Map<string, { completions: Set<'intro' | 'working' | 'showcase'>, timestamp: number }>();
-
-// Cleanup interval: Remove entries older than 24 hours
-const CLEANUP_INTERVAL = 60 * 60 * 1000; // 1 hour
-const TTL = 24 * 60 * 60 * 1000; // 24 hours
-
-setInterval(() => {
-    const now = Date.now();
-    for (const [userId, data] of userCompletions.entries()) {
-        if (now - data.timestamp > TTL) {
-            userCompletions.delete(userId);
-        }
-    }
-}, CLEANUP_INTERVAL);
-
 // Track bot start time for uptime calculation
 const botStartTime = Date.now();
 
@@ -263,37 +141,83 @@ async function registerCommands() {
     const commands = [
         {
             name: 'ping-intro',
-            description: 'Ping user(s) to introduce themselves (mods only).',
+            description: 'Ping members to introduce themselves (mods only).',
             options: [
                 {
-                    name: 'user1',
-                    description: 'First user to ping',
-                    type: 6, // USER type
-                    required: false,
-                },
-                {
-                    name: 'user2',
-                    description: 'Second user to ping',
-                    type: 6, // USER type
-                    required: false,
-                },
-                {
-                    name: 'user3',
-                    description: 'Third user to ping',
-                    type: 6, // USER type
-                    required: false,
-                },
-                {
-                    name: 'user4',
-                    description: 'Fourth user to ping',
-                    type: 6, // USER type
-                    required: false,
+                    name: 'users',
+                    description: 'Ping up to five members (default: yourself).',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'user1',
+                            description: 'First user to ping',
+                            type: 6, // USER type
+                            required: false,
+                        },
+                        {
+                            name: 'user2',
+                            description: 'Second user to ping',
+                            type: 6, // USER type
+                            required: false,
+                        },
+                        {
+                            name: 'user3',
+                            description: 'Third user to ping',
+                            type: 6, // USER type
+                            required: false,
+                        },
+                        {
+                            name: 'user4',
+                            description: 'Fourth user to ping',
+                            type: 6, // USER type
+                            required: false,
+                        },
+                        {
+                            name: 'user5',
+                            description: 'Fifth user to ping',
+                            type: 6, // USER type
+                            required: false,
+                        },
+                    ],
                 },
                 {
-                    name: 'user5',
-                    description: 'Fifth user to ping',
-                    type: 6, // USER type
-                    required: false,
+                    name: 'cohort',
+                    description: 'Ping every member matching the filters, after a preview.',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'joined_since_days',
+                            description: 'Only members who joined in the last N days',
+                            type: 4, // INTEGER type
+                            required: false,
+                            min_value: 1,
+                        },
+                        {
+                            name: 'joined_until_days',
+                            description: 'Only members who joined at least N days ago',
+                            type: 4, // INTEGER type
+                            required: false,
+                            min_value: 0,
+                        },
+                        {
+                            name: 'has_role',
+                            description: 'Only members with this role',
+                            type: 8, // ROLE type
+                            required: false,
+                        },
+                        {
+                            name: 'lacks_role',
+                            description: 'Only members without this role, e.g. Dodo Builder',
+                            type: 8, // ROLE type
+                            required: false,
+                        },
+                        {
+                            name: 'no_intro',
+                            description: 'Only members who never completed the intro form',
+                            type: 5, // BOOLEAN type
+                            required: false,
+                        },
+                    ],
                 },
             ],
         },
@@ -337,6 +261,248 @@ async function registerCommands() {
                 }
             ]
         },
+        {
+            name: 'onboarding-stats',
+            description: 'Show the onboarding funnel and conversion rates (mods only).',
+            options: [
+                {
+                    name: 'days',
+                    description: `How many days to look back (default ${LIMITS.STATS_DEFAULT_DAYS})`,
+                    type: 4, // INTEGER type
+                    required: false,
+                    min_value: 1,
+                    max_value: 365,
+                }
+            ]
+        },
+        {
+            name: 'my-posts',
+            description: 'Edit or delete your introduction and project posts.',
+        },
+        {
+            name: 'language',
+            description: 'Choose the language the bot uses with you.',
+            options: [
+                {
+                    name: 'language',
+                    description: 'Your language',
+                    type: 3, // STRING type
+                    required: true,
+                    choices: i18nService.getLanguageChoices(),
+                }
+            ]
+        },
+        {
+            name: 'project',
+            description: 'Manage your projects.',
+            options: [
+                {
+                    name: 'update',
+                    description: "Post a progress update into your project's thread.",
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'project',
+                            description: 'Project name (only needed if you have several)',
+                            type: 3, // STRING type
+                            required: false,
+                        }
+                    ]
+                }
+            ]
+        },
+        {
+            name: 'projects',
+            description: "List a member's projects.",
+            options: [
+                {
+                    name: 'user',
+                    description: 'Whose projects to show (default: yours)',
+                    type: 6, // USER type
+                    required: false,
+                }
+            ]
+        },
+        {
+            name: 'profile',
+            description: "Show a member's level, points and progress.",
+            options: [
+                {
+                    name: 'user',
+                    description: 'Whose profile to show (default: yours)',
+                    type: 6, // USER type
+                    required: false,
+                }
+            ]
+        },
+        {
+            name: 'leaderboard',
+            description: 'Show the members with the most points.',
+        },
+        {
+            name: 'achievements',
+            description: "Show a member's earned and locked achievements.",
+            options: [
+                {
+                    name: 'user',
+                    description: 'Whose achievements to show (default: yours)',
+                    type: 6, // USER type
+                    required: false,
+                }
+            ]
+        },
+        {
+            name: 'streak',
+            description: "Show a member's current and longest activity streak.",
+            options: [
+                {
+                    name: 'user',
+                    description: 'Whose streak to show (default: yours)',
+                    type: 6, // USER type
+                    required: false,
+                }
+            ]
+        },
+        {
+            name: 'builder-audit',
+            description: 'Find members who completed onboarding but lack the Dodo Builder role (mods only).',
+            options: [
+                {
+                    name: 'apply',
+                    description: 'Grant the missing roles and save the completions (default: report only)',
+                    type: 5, // BOOLEAN type
+                    required: false,
+                }
+            ]
+        },
+        {
+            name: 'faq',
+            description: "Manage the support bot's FAQ knowledge base (mods only).",
+            options: [
+                {
+                    name: 'add',
+                    description: 'Add an entry with question variants, an answer and doc links.',
+                    type: 1, // SUB_COMMAND type
+                },
+                {
+                    name: 'edit',
+                    description: 'Edit an entry.',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'id',
+                            description: 'Entry id (see /faq list)',
+                            type: 3, // STRING type
+                            required: true,
+                            autocomplete: true,
+                        }
+                    ]
+                },
+                {
+                    name: 'remove',
+                    description: 'Remove an entry.',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'id',
+                            description: 'Entry id (see /faq list)',
+                            type: 3, // STRING type
+                            required: true,
+                            autocomplete: true,
+                        }
+                    ]
+                },
+                {
+                    name: 'list',
+                    description: 'List every entry.',
+                    type: 1, // SUB_COMMAND type
+                }
+            ]
+        },
+        {
+            name: 'support-feedback',
+            description: 'Show the worst-rated support bot answers (mods only).',
+            options: [
+                {
+                    name: 'days',
+                    description: `How many days to look back (default ${LIMITS.FEEDBACK_DEFAULT_DAYS})`,
+                    type: 4, // INTEGER type
+                    required: false,
+                    min_value: 1,
+                    // Older answers are pruned
+                    max_value: DURATION.SUPPORT_ANSWER_TTL,
+                }
+            ]
+        },
+        {
+            name: 'digest',
+            description: 'Preview or post the weekly community digest (mods only).',
+            options: [
+                {
+                    name: 'preview',
+                    description: 'Show the digest for the last 7 days, only to you.',
+                    type: 1, // SUB_COMMAND type
+                },
+                {
+                    name: 'post',
+                    description: 'Post the digest in the digest channel now.',
+                    type: 1, // SUB_COMMAND type
+                }
+            ]
+        },
+        {
+            name: 'template',
+            description: "View and edit the bot's message templates (mods only).",
+            options: [
+                {
+                    name: 'list',
+                    description: 'List every editable template.',
+                    type: 1, // SUB_COMMAND type
+                },
+                {
+                    name: 'show',
+                    description: 'Show the variations and placeholders of a template.',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'id',
+                            description: 'Template id (see /template list)',
+                            type: 3, // STRING type
+                            required: true,
+                            autocomplete: true,
+                        }
+                    ]
+                },
+                {
+                    name: 'edit',
+                    description: 'Edit the variations of a template.',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'id',
+                            description: 'Template id (see /template list)',
+                            type: 3, // STRING type
+                            required: true,
+                            autocomplete: true,
+                        }
+                    ]
+                },
+                {
+                    name: 'preview',
+                    description: 'Render every variation of a template with sample values.',
+                    type: 1, // SUB_COMMAND type
+                    options: [
+                        {
+                            name: 'id',
+                            description: 'Template id (see /template list)',
+                            type: 3, // STRING type
+                            required: true,
+                            autocomplete: true,
+                        }
+                    ]
+                }
+            ]
+        },
         {
             name: 'Move Message',
             type: 3, // MESSAGE type (Message Context Menu)
@@ -484,9 +650,15 @@ async function autoPingIntroForNewUser(member: GuildMember) {
 }
 
 /**
- * Starts the introduction flow by sending dismissible DM messages to the user
+ * Starts the introduction flow by sending dismissible DM messages to the user.
+ * Returns whether the DM went out, fell back to a private welcome thread, or failed.
  */
-async function startIntroFlow(guildId: string, targetUserId: string, shouldScheduleReminder: boolean = true) {
+async function startIntroFlow(guildId: string, targetUserId: string, shouldScheduleReminder: boolean = true): Promise<IntroFlowResult> {
+    // One button per configured onboarding form, in the member's language
+    const locale = await i18nService.getLocale(targetUserId);
+    const rows = formService.buildFormButtons(guildId, targetUserId, undefined, locale);
+    const welcomeEmbed = buildWelcomeEmbed(targetUserId, locale);
+
     try {
         // Fetch the user to send them a DM
         const user = await client.users.fetch(targetUserId);
@@ -496,30 +668,22 @@ async function startIntroFlow(guildId: string, targetUserId: string, shouldSched
             await reminderService.scheduleReminder(guildId, targetUserId);
         }
 
-        // Create buttons for both introduction and working-on forms
-        const introButton = new ButtonBuilder()
-            .setCustomId(`open_modal|intro|${targetUserId}|${guildId}|${INTRO_CHANNEL_ID}`)
-            .setLabel('Fill Introduction')
-            .setStyle(ButtonStyle.Primary);
-
-        const workingButton = new ButtonBuilder()
-            .setCustomId(`open_modal|working|${targetUserId}|${guildId}|${WORKING_ON_CHANNEL_ID}`)
-            .setLabel("What You're Working On")
-            .setStyle(ButtonStyle.Primary);
-
-        const showcaseButton = new ButtonBuilder()
-            .setCustomId(`open_modal|showcase|${targetUserId}|${guildId}|${SHOWCASE_CHANNEL_ID}`)
-            .setLabel("Showcase Project")
-            .setStyle(ButtonStyle.Success);
-
-        const row = new ActionRowBuilder<ButtonBuilder>().addComponents(introButton, workingButton, showcaseButton);
-
         // Send welcome embed with interactive buttons in a single DM
-        const welcomeEmbed = buildWelcomeEmbed(targetUserId);
-        await user.send({ embeds: [welcomeEmbed], components: [row] });
+        const message = await user.send({ embeds: [welcomeEmbed], components: rows });
+        await analyticsService.track(guildId, targetUserId, 'welcome_dm_sent');
+        await onboardingDmService.track(guildId, targetUserId, message);
+        return 'sent';
 
     } catch (e) {
         console.error(`Failed to send DM to user ${targetUserId}:`, e);
+        await analyticsService.track(guildId, targetUserId, 'welcome_dm_failed');
+
+        // DMs closed: offer the same buttons in a private thread in the welcome channel
+        if (await dmFallbackService.openThread(guildId, targetUserId, welcomeEmbed, rows)) {
+            await analyticsService.track(guildId, targetUserId, 'fallback_thread_opened');
+            return 'fallback';
+        }
+        return 'failed';
     }
 }
 
@@ -528,10 +692,7 @@ async function startIntroFlow(guildId: string, targetUserId: string, shouldSched
  */
 async function checkAndAwardBadge(userId: string, guildId: string) {
     // Check if user has completed intro AND (working OR showcase)
-    const userData = userCompletions.get(userId);
-    const hasIntro = userData && userData.completions.has('intro');
-    const hasProject = userData && (userData.completions.has('working') || userData.completions.has('showcase'));
-    const completed = hasIntro && hasProject;
+    const completed = await completionService.hasCompletedOnboarding(guildId, userId);
 
     if (completed) {
         try {
@@ -546,15 +707,13 @@ async function checkAndAwardBadge(userId: string, guildId: string) {
 
             // Award the Dodo Builder role
             await member.roles.add(DODO_BUILDER_ROLE_ID!, 'Completed intro and project form');
-
+            await analyticsService.track(guildId, userId, 'builder_awarded');
 
 
             // Send congratulations DM
             try {
                 const user = await client.users.fetch(userId);
-                await user.send({
-                    content: `🎉 **Congratulations!** You've been awarded the **Dodo Builder** badge for completing your introduction and sharing your project! Keep building! 🚀`
-                });
+                await user.send({ content: i18nService.t(await i18nService.getLocale(userId), 'congrats') });
             } catch (dmError) {
                 console.warn(`Could not send congratulations DM to user ${userId}:`, dmError);
             }
@@ -567,162 +726,162 @@ async function checkAndAwardBadge(userId: string, guildId: string) {
 }
 
 /**
- * Handles modal submissions for both introduction and working-on forms
+ * Publishes a submission and records the onboarding progress it makes.
+ * Returns the confirmation for the member, or null if the destination channel is missing.
  */
-async function handleModalSubmit(interaction: ModalSubmitInteraction) {
-    const customId = interaction.customId; // e.g. submit_modal|intro|<targetId>|<guildId>|<channelId>
-    if (!customId.startsWith('submit_modal|')) return;
-
-    const parts = customId.split('|');
-    if (parts.length < 5) return;
-    const flowType = parts[1] as 'intro' | 'working' | 'showcase';
-    const targetUserId = parts[2];
-    const guildId = parts[3];
-    const channelId = parts[4];
+async function publishSubmission(
+    form: FormDefinition,
+    guildId: string,
+    targetUserId: string,
+    channelId: string,
+    values: Record<string, string>,
+    launchedFrom?: string
+): Promise<string | null> {
+    // Post publicly, or edit the member's existing post for this form in place
+    const result = await postService.publish(client, form, guildId, targetUserId, channelId, values, launchedFrom);
+    if (!result) return null;
+
+    const locale = await i18nService.getLocale(targetUserId);
+
+    // Launched from a project thread: point the old thread at the new post
+    if (launchedFrom && !result.updated) {
+        await projectService.markLaunched(client, launchedFrom, result.post);
+    }
 
-    // Ensure only the intended user can submit the form
-    if (interaction.user.id !== targetUserId) {
-        await interaction.reply({ content: "You're not allowed to submit this. This prompt was for someone else.", ephemeral: true });
-        return;
+    if (result.updated) {
+        return i18nService.t(locale, 'submission.updated', { url: postService.postUrl(result.post) });
     }
 
-    // Defer the reply immediately to avoid timeout and make it dismissible
-    await interaction.deferReply({ ephemeral: true });
+    await analyticsService.track(guildId, targetUserId, 'form_submitted', { formId: form.id });
 
-    // Track completion in memory
-    if (!userCompletions.has(targetUserId)) {
-        userCompletions.set(targetUserId, { completions: new Set(), timestamp: Date.now() });
-    }
-    const userData = userCompletions.get(targetUserId)!;
-    userData.completions.add(flowType);
-    userData.timestamp = Date.now(); // Refresh timestamp on activity
+    // Track completion in the persistent store
+    const userData = await completionService.addCompletion(guildId, targetUserId, form.id);
+    await pointsService.awardForm(client, guildId, targetUserId, form.id);
+    await achievementService.record(client, { type: 'form_submitted', guildId, userId: targetUserId, data: { formId: form.id } });
 
+    // Reminders keep nudging about the remaining forms until everything is done
+    const missing = formService.getMissingRequirements(userData.completions);
+    if (missing.length === 0) {
+        await reminderService.cancelReminder(guildId, targetUserId);
+    }
 
+    // Check if they should get the badge
+    await checkAndAwardBadge(targetUserId, guildId);
 
-    try {
-        if (flowType === 'intro') {
-            const name = interaction.fields.getTextInputValue('name_input');
-            const about = interaction.fields.getTextInputValue('about_input');
+    // Old welcome/reminder DMs must not post this form again
+    await onboardingDmService.markProgress(client, guildId, targetUserId, userData.completions, missing.length === 0);
 
-            const destChannel = await client.channels.fetch(channelId) as TextChannel | null;
-            if (!destChannel) {
-                await interaction.editReply({ content: 'Could not find destination channel to post your message. Contact a mod.' });
-                return;
-            }
+    // Members onboarding via a fallback thread no longer need it
+    if (missing.length === 0) {
+        await dmFallbackService.closeThread(guildId, targetUserId);
+    }
 
-            // Create and send the public introduction embed
-            const introEmbed = buildIntroEmbed(name, targetUserId, about);
-            await destChannel.send({ embeds: [introEmbed] });
+    const progress = {
+        posted: formService.localize(form, locale).postedMessage,
+        count: String(missing.length),
+        missing: missing.map(r => formService.requirementLabel(r, locale)).join(', '),
+    };
+    if (missing.length === 0) return i18nService.t(locale, 'submission.allDone', progress);
+    return i18nService.t(locale, missing.length === 1 ? 'submission.oneMore' : 'submission.moreSteps', progress);
+}
 
-            // Track analytics and award points
-            await reminderService.cancelReminder(guildId, targetUserId);
+/**
+ * Handles modal submissions for every configured onboarding form
+ */
+async function handleModalSubmit(interaction: ModalSubmitInteraction) {
+    const customId = interaction.customId; // e.g. submit_modal|intro|<targetId>|<guildId>|<expiry>|<signature>
+    if (!customId.startsWith('submit_modal|')) return;
 
-            // Check completion status from memory
-            const userData = userCompletions.get(targetUserId);
-            const hasProject = userData && (userData.completions.has('working') || userData.completions.has('showcase'));
-            const completed = userData && userData.completions.has('intro') && hasProject;
+    const locale = await i18nService.detectLocale(interaction.user.id, interaction.locale);
 
-            // Send dismissible success message with progress info
-            await interaction.editReply({
-                content: completed
-                    ? 'Thanks — your introduction has been posted publicly in the server! ✅ You have completed both steps and will receive the Dodo Builder role shortly!'
-                    : 'Thanks — your introduction has been posted publicly in the server! One more step (share project) to go to get your Dodo Builder role!'
-            });
+    const verified = verifyCustomId(customId);
+    if (verified.status !== 'valid' || verified.prefix !== 'submit_modal') {
+        console.warn(`Rejected ${verified.status} form submission from user ${interaction.user.id}: ${customId}`);
+        await interaction.reply({ content: i18nService.t(locale, 'submission.buttonExpired'), ephemeral: true });
+        return;
+    }
+    const [formId, targetUserId, guildId] = verified.fields;
 
-            // Check if they should get the badge
-            await checkAndAwardBadge(targetUserId, guildId);
-            return;
-        }
+    // Ensure only the intended user can submit the form
+    if (interaction.user.id !== targetUserId) {
+        await interaction.reply({ content: i18nService.t(locale, 'submission.notForYou'), ephemeral: true });
+        return;
+    }
 
-        if (flowType === 'showcase') {
-            const product = interaction.fields.getTextInputValue('product_name');
-            const about = interaction.fields.getTextInputValue('product_about');
+    const form = formService.getForm(formId);
+    if (!form) {
+        await interaction.reply({ content: i18nService.t(locale, 'submission.formUnavailable'), ephemeral: true });
+        return;
+    }
 
-            const showcaseChannel = await client.channels.fetch(channelId) as TextChannel | null;
-            if (!showcaseChannel) {
-                await interaction.editReply({ content: 'Could not find the showcase channel to post your message. Contact a mod.' });
-                return;
-            }
+    await submitForm(interaction, form, guildId, targetUserId, formService.getChannelId(form));
+}
 
-            // Send showcase embed
-            const showcaseEmbed = buildShowcaseEmbed(product, targetUserId, about);
-            const parentMsg = await showcaseChannel.send({ embeds: [showcaseEmbed] });
+/**
+ * Handles the showcase modal opened by "Mark as launched" in a project thread
+ */
+async function handleLaunchSubmit(interaction: ModalSubmitInteraction) {
+    const target = await projectService.resolveLaunch(interaction);
+    if (!target) return;
 
-            // Create a PUBLIC thread
-            const publicThread = await parentMsg.startThread({
-                name: product.slice(0, 100),
-                autoArchiveDuration: 1440, // 24 hours
-            });
+    const { project, form } = target;
+    await submitForm(interaction, form, project.guildId, project.ownerId, formService.getChannelId(form), project.threadId);
+}
 
-            try {
-                await publicThread.members.add(targetUserId);
-            } catch (err) {
-                console.warn('Could not add user to public thread (may be fine):', err);
-            }
+/**
+ * Edit of a launched post from /my-posts: my_posts_edit|<formId>|<launchedFrom>
+ */
+async function handleLaunchedPostEdit(interaction: ModalSubmitInteraction) {
+    const [, formId, launchedFrom] = interaction.customId.split('|');
+    const form = formService.getForm(formId);
+    const post = interaction.guildId ? await postService.getPost(interaction.guildId, interaction.user.id, formId, launchedFrom) : null;
+    if (!form || !post) {
+        await interaction.reply({ content: 'That post no longer exists.', ephemeral: true });
+        return;
+    }
 
-            await reminderService.cancelReminder(guildId, targetUserId);
+    await submitForm(interaction, form, post.guildId, post.userId, formService.getChannelId(form), launchedFrom);
+}
 
-            const userData = userCompletions.get(targetUserId);
-            const hasIntro = userData && userData.completions.has('intro');
-            const completed = hasIntro && userData.completions.has('showcase'); // We just added showcase
+/**
+ * Reads a submitted form and publishes it (or queues it for review) on behalf of the member
+ */
+async function submitForm(
+    interaction: ModalSubmitInteraction,
+    form: FormDefinition,
+    guildId: string,
+    targetUserId: string,
+    channelId: string,
+    launchedFrom?: string
+) {
+    // Defer the reply immediately to avoid timeout and make it dismissible
+    await interaction.deferReply({ ephemeral: true });
+    const locale = await i18nService.detectLocale(interaction.user.id, interaction.locale);
 
+    try {
+        const { values, invalid } = formService.normalizeLinks(form, formService.readValues(form, interaction));
+        if (invalid.length > 0) {
             await interaction.editReply({
-                content: completed
-                    ? 'Thanks — your showcase has been posted in a public thread! ✅ You have completed both steps and will receive the Dodo Builder role shortly!'
-                    : 'Thanks — your showcase has been posted in a public thread! One more step (intro) to go to get your Dodo Builder role!'
+                content: i18nService.t(locale, 'submission.invalidLinks', { links: invalid.map(link => `\`${link}\``).join(', ') })
             });
-
-            await checkAndAwardBadge(targetUserId, guildId);
             return;
         }
 
-        // flowType === 'working'
-        const product = interaction.fields.getTextInputValue('product_name');
-        const about = interaction.fields.getTextInputValue('product_about');
-
-        const workingChannel = await client.channels.fetch(channelId) as TextChannel | null;
-        if (!workingChannel) {
-            await interaction.editReply({ content: 'Could not find the working-on channel to post your message. Contact a mod.' });
+        // In review mode, suspicious submissions wait for a mod instead of being posted
+        if (await reviewService.holdIfNeeded(client, form, guildId, targetUserId, channelId, values, launchedFrom)) {
+            await interaction.editReply({ content: i18nService.t(locale, 'submission.heldForReview') });
             return;
         }
 
-        // Send working-on embed with product and about combined
-        const workingEmbed = buildWorkingOnEmbed(product, targetUserId, about);
-        const parentMsg = await workingChannel.send({ embeds: [workingEmbed] });
-
-        // Create a PUBLIC thread from that parent message for community interaction
-        const publicThread = await parentMsg.startThread({
-            name: product.slice(0, 100), // Thread names are limited to 100 characters
-            autoArchiveDuration: 1440, // 24 hours
-        });
-
-        // Try to add the user to the public thread so they'll receive thread notifications
-        try {
-            await publicThread.members.add(targetUserId);
-        } catch (err) {
-            console.warn('Could not add user to public thread (may be fine):', err);
-        }
-
-        // Track analytics and award points
-        await reminderService.cancelReminder(guildId, targetUserId);
-
-        // Check completion status from memory
-        const userData = userCompletions.get(targetUserId);
-        const hasIntro = userData && userData.completions.has('intro');
-        const completed = hasIntro && userData.completions.has('working'); // We just added working
+        const confirmation = await publishSubmission(form, guildId, targetUserId, channelId, values, launchedFrom);
 
         // Send dismissible success message with progress info
         await interaction.editReply({
-            content: completed
-                ? 'Thanks — your working-on message has been posted in a public thread! ✅ You have completed both steps and will receive the Dodo Builder role shortly!'
-                : 'Thanks — your working-on message has been posted in a public thread! One more step (intro) to go to get your Dodo Builder role!'
+            content: confirmation ?? i18nService.t(locale, 'submission.channelMissing')
         });
-
-        // Check if they should get the badge
-        await checkAndAwardBadge(targetUserId, guildId);
     } catch (e) {
-        console.error('Failed to create public working thread or post message:', e);
-        await interaction.editReply({ content: 'Something went wrong creating the public thread. Contact a mod.' });
+        console.error(`Failed to post ${form.id} submission:`, e);
+        await interaction.editReply({ content: i18nService.t(locale, 'submission.failed') });
     }
 }
 
@@ -731,8 +890,18 @@ client.once(Events.ClientReady, async () => {
     console.log(`Logged in as ${client.user?.tag}`);
 
     // Initialize services
-    // await databaseService.connect(); // Removed for in-memory only
+    await storageService.initialize();
+    analyticsService.initialize();
+    supportFeedbackService.initialize();
+    achievementService.initialize();
+    await templateService.initialize();
+    await faqService.initialize();
     reminderService.initialize(client);
+    dmFallbackService.initialize(client);
+    streakService.initialize(client);
+    digestService.initialize(client);
+    resolutionService.initialize(client);
+    answerService.initialize(client);
     await botTrapService.initialize(client);
 
     await registerCommands();
@@ -746,132 +915,78 @@ client.on(Events.InteractionCreate, async (interaction) => {
             const bi = interaction as ButtonInteraction;
 
             if (bi.customId === 'mark_resolved') {
-                const member = bi.member as GuildMember;
-                const isMod = member?.roles.cache.has(MOD_ROLE_ID!);
+                await resolutionService.handleResolveButton(bi);
+                return;
+            }
 
-                let isPoster = false;
-                if (bi.channel?.isThread()) {
-                    const thread = bi.channel as ThreadChannel;
-                    try {
-                        const starterMessage = await thread.fetchStarterMessage();
-                        isPoster = bi.user.id === starterMessage?.author.id;
-                    } catch (e) {
-                        // Fallback to ownerId if starter message is inaccessible
-                        isPoster = bi.user.id === thread.ownerId;
-                    }
-                } else if (bi.message.reference?.messageId) {
-                    try {
-                        const originalMsg = await bi.channel?.messages.fetch(bi.message.reference.messageId);
-                        isPoster = bi.user.id === originalMsg?.author.id;
-                    } catch (e) {
-                        // Ignore fetch errors
-                    }
-                }
+            if (bi.customId === 'reopen_thread') {
+                await resolutionService.handleReopenButton(bi);
+                return;
+            }
 
-                if (!isMod && !isPoster) {
-                    await bi.reply({
-                        content: "You're not allowed to do that. Only the person who posted the message or a moderator can mark it as resolved.",
-                        ephemeral: true
-                    });
-                    return;
-                }
+            if (bi.customId.startsWith('support_feedback|')) {
+                await supportFeedbackService.handleButton(bi);
+                return;
+            }
 
-                const message = bi.message;
-
-                // Disable the button
-                const newComponents = message.components.map((row: any) => {
-                    return new ActionRowBuilder<ButtonBuilder>().addComponents(
-                        row.components.map((component: any) => {
-                            if (component.customId === 'mark_resolved') {
-                                return ButtonBuilder.from(component as any).setDisabled(true);
-                            }
-                            return ButtonBuilder.from(component as any);
-                        })
-                    );
-                });
+            if (bi.customId.startsWith('leaderboard|')) {
+                await pointsService.handleLeaderboardButton(bi);
+                return;
+            }
 
-                await bi.update({ components: newComponents });
+            if (bi.customId.startsWith('ping_cohort|')) {
+                await cohortService.handleButton(bi, (guildId, userId) => startIntroFlow(guildId, userId, false));
+                return;
+            }
 
-                if (bi.channel && 'send' in bi.channel) {
-                    await (bi.channel as TextChannel).send(`This query has been marked as resolved by <@${bi.user.id}>.`);
-                }
+            if (bi.customId.startsWith('my_posts|')) {
+                await postService.handleButton(bi);
                 return;
             }
 
-            const parts = bi.customId.split('|');
-            if (parts[0] === 'open_modal') {
-                const flow = parts[1] as 'intro' | 'working' | 'showcase';
-                const targetUserId = parts[2];
-                const guildId = parts[3];
-                const channelId = parts[4];
+            if (bi.customId.startsWith('project_launch|')) {
+                await projectService.handleLaunchButton(bi);
+                return;
+            }
 
-                // Ensure only the intended user can open the modal
-                if (bi.user.id !== targetUserId) {
-                    await bi.reply({ content: 'Only the invited user can fill this form.', ephemeral: true });
+            if (bi.customId.startsWith('review|')) {
+                await reviewService.handleButton(bi, publishSubmission);
+                return;
+            }
+
+            if (bi.customId.startsWith('open_modal|')) {
+                const locale = await i18nService.detectLocale(bi.user.id, bi.locale);
+
+                // Form buttons are signed: reject forged, outdated and expired ones
+                const verified = verifyCustomId(bi.customId);
+                if (verified.status !== 'valid' || verified.prefix !== 'open_modal') {
+                    console.warn(`Rejected ${verified.status} form button from user ${bi.user.id}: ${bi.customId}`);
+                    await bi.reply({ content: i18nService.t(locale, 'submission.buttonExpired'), ephemeral: true });
                     return;
                 }
 
-                const modal = new ModalBuilder()
-                    .setCustomId(`submit_modal|${flow}|${targetUserId}|${guildId}|${channelId}`);
+                const [formId, targetUserId, guildId] = verified.fields;
+                const form = formService.getForm(formId);
 
-                if (flow === 'intro') {
-                    modal.setTitle('Introduce yourself');
-                } else if (flow === 'working') {
-                    modal.setTitle("What you're working on");
-                } else {
-                    modal.setTitle('Showcase your project');
+                // Ensure only the intended user can open the modal
+                if (bi.user.id !== targetUserId) {
+                    await bi.reply({ content: i18nService.t(locale, 'submission.openNotForYou'), ephemeral: true });
+                    return;
                 }
 
-                if (flow === 'intro') {
-                    // Create introduction form inputs
-                    const nameInput = new TextInputBuilder()
-                        .setCustomId('name_input')
-                        .setLabel('Name')
-                        .setStyle(TextInputStyle.Short)
-                        .setRequired(true)
-                        .setPlaceholder('How should we call you?')
-                        .setMaxLength(100);
-
-                    const aboutInput = new TextInputBuilder()
-                        .setCustomId('about_input')
-                        .setLabel('About me')
-                        .setStyle(TextInputStyle.Paragraph)
-                        .setRequired(true)
-                        .setPlaceholder('Tell us about yourself, your background, interests...')
-                        .setMaxLength(2000);
-
-                    const row1 = new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(nameInput);
-                    const row2 = new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(aboutInput);
-
-                    await bi.showModal(modal.addComponents(row1, row2));
+                if (!form) {
+                    await bi.reply({ content: i18nService.t(locale, 'submission.formUnavailable'), ephemeral: true });
                     return;
                 }
 
-                // flow === 'working' || flow === 'showcase' - Create project form inputs
-                // Reusing same inputs for both working-on and showcase, just maybe different labels if we wanted
-                // For now, keep them same or slightly adjusted
-                const isShowcase = flow === 'showcase';
-
-                const productNameInput = new TextInputBuilder()
-                    .setCustomId('product_name')
-                    .setLabel("Product's name")
-                    .setStyle(TextInputStyle.Short)
-                    .setRequired(true)
-                    .setPlaceholder('The product name')
-                    .setMaxLength(100);
-
-                const productAboutInput = new TextInputBuilder()
-                    .setCustomId('product_about')
-                    .setLabel(isShowcase ? 'What did you build?' : 'What is it about?')
-                    .setStyle(TextInputStyle.Paragraph)
-                    .setRequired(true)
-                    .setPlaceholder(isShowcase ? 'Describe your finished product...' : 'Describe the product in a few lines...')
-                    .setMaxLength(2000);
-
-                const prow1 = new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(productNameInput);
-                const prow2 = new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(productAboutInput);
-
-                await bi.showModal(modal.addComponents(prow1, prow2));
+                // Prefill with the member's previous answers so re-submitting edits their post
+                const existingPost = await postService.getPost(guildId, targetUserId, form.id);
+                const modal = formService.buildModal(
+                    formService.localize(form, locale),
+                    formService.buildSubmitModalId(form, targetUserId, guildId),
+                    existingPost?.values
+                );
+                await bi.showModal(modal);
                 return;
             }
         }
@@ -883,6 +998,48 @@ client.on(Events.InteractionCreate, async (interaction) => {
                 await handleModalSubmit(ms);
                 return;
             }
+            if (ms.customId.startsWith('my_posts_rename|')) {
+                await postService.handleRenameSubmit(ms);
+                return;
+            }
+            if (ms.customId.startsWith('my_posts_edit|')) {
+                await handleLaunchedPostEdit(ms);
+                return;
+            }
+            if (ms.customId.startsWith('project_launch|')) {
+                await handleLaunchSubmit(ms);
+                return;
+            }
+            if (ms.customId.startsWith('project_update|')) {
+                await projectService.handleUpdateSubmit(ms);
+                return;
+            }
+            if (ms.customId.startsWith('review_edit|')) {
+                await reviewService.handleEditSubmit(ms, publishSubmission);
+                return;
+            }
+            if (ms.customId.startsWith('support_feedback_modal|')) {
+                await supportFeedbackService.handleModalSubmit(ms);
+                return;
+            }
+            if (ms.customId === 'faq_add' || ms.customId.startsWith('faq_edit|')) {
+                await faqService.handleModalSubmit(ms);
+                return;
+            }
+            if (ms.customId.startsWith('template_edit|')) {
+                await templateService.handleEditSubmit(ms);
+                return;
+            }
+        }
+
+        // Handle option autocomplete
+        if (interaction.isAutocomplete()) {
+            if (interaction.commandName === 'template') {
+                await templateService.handleAutocomplete(interaction);
+            } else if (interaction.commandName === 'faq') {
+                await faqService.handleAutocomplete(interaction);
+            }
+            return;
         }
 
         // Handle slash commands
@@ -901,9 +1058,15 @@ client.on(Events.InteractionCreate, async (interaction) => {
                     return;
                 }
 
+                if (!cmd.isChatInputCommand()) return;
+                if (cmd.options.getSubcommand() === 'cohort') {
+                    await cohortService.handleCommand(cmd);
+                    return;
+                }
+
                 const targets: string[] = [];
                 for (let i = 1; i <= 5; i++) {
-                    const user = cmd.isChatInputCommand() ? cmd.options.getUser(`user${i}`) : null;
+                    const user = cmd.options.getUser(`user${i}`);
                     if (user) {
                         targets.push(user.id);
                     }
@@ -1065,6 +1228,92 @@ client.on(Events.InteractionCreate, async (interaction) => {
                 return;
             }
 
+            if (cmd.commandName === 'onboarding-stats') {
+                if (!cmd.isChatInputCommand()) return;
+                await analyticsService.handleStatsCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'language') {
+                if (!cmd.isChatInputCommand()) return;
+                await i18nService.handleLanguageCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'project') {
+                if (!cmd.isChatInputCommand()) return;
+                if (cmd.options.getSubcommand() === 'update') {
+                    await projectService.handleUpdateCommand(cmd);
+                }
+                return;
+            }
+
+            if (cmd.commandName === 'projects') {
+                if (!cmd.isChatInputCommand()) return;
+                await projectService.handleProjectsCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'profile') {
+                if (!cmd.isChatInputCommand()) return;
+                await pointsService.handleProfileCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'leaderboard') {
+                if (!cmd.isChatInputCommand()) return;
+                await pointsService.handleLeaderboardCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'achievements') {
+                if (!cmd.isChatInputCommand()) return;
+                await achievementService.handleCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'streak') {
+                if (!cmd.isChatInputCommand()) return;
+                await streakService.handleCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'builder-audit') {
+                if (!cmd.isChatInputCommand()) return;
+                await builderAuditService.handleCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'digest') {
+                if (!cmd.isChatInputCommand()) return;
+                await digestService.handleCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'support-feedback') {
+                if (!cmd.isChatInputCommand()) return;
+                await supportFeedbackService.handleReportCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'faq') {
+                if (!cmd.isChatInputCommand()) return;
+                await faqService.handleCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'template') {
+                if (!cmd.isChatInputCommand()) return;
+                await templateService.handleCommand(cmd);
+                return;
+            }
+
+            if (cmd.commandName === 'my-posts') {
+                if (!cmd.isChatInputCommand()) return;
+                await postService.handleMyPostsCommand(cmd);
+                return;
+            }
+
             if (cmd.commandName === 'bot-answer') {
                 if (!cmd.isChatInputCommand()) return;
                 await supportBotService.handleBotAnswerInteraction(cmd);
@@ -1095,6 +1344,10 @@ client.on(Events.MessageCreate, async (message) => {
     const isSpam = await moderationService.handleMessage(message);
     if (isSpam) return;
 
+    // Activity points (daily bonus and thread replies) and daily streaks
+    await pointsService.handleMessage(message);
+    await streakService.handleMessage(message);
+
     // Handle /move-message or !move-message text command
     if (message.content.trim().startsWith('/move-message') || message.content.trim().startsWith('!move-message')) {
         await moveQuestionService.handleMoveCommand(message);
@@ -1116,6 +1369,8 @@ client.on(Events.GuildMemberAdd, async (member: GuildMember) => {
     if (member.user.bot) return;
     if (member.guild.id !== GUILD_ID) return;
 
+    await analyticsService.track(member.guild.id, member.id, 'member_joined');
+
     try {
         if (!member.pending) {
             try {
@@ -1158,6 +1413,16 @@ client.on(Events.MessageDelete, async (message) => {
     await moderationService.handleDelete(message);
 });
 
+// Achievement events: new threads and helpful reactions
+client.on(Events.ThreadCreate, async (thread, newlyCreated) => {
+    if (!newlyCreated || !thread.ownerId || thread.ownerId === client.user?.id) return;
+    await achievementService.record(client, { type: 'thread_created', guildId: thread.guildId, userId: thread.ownerId });
+});
+
+client.on(Events.MessageReactionAdd, async (reaction, user) => {
+    await achievementService.handleReaction(reaction, user);
+});
+
 
 
 // Login to Discord with bot token
@@ -0,0 +1,106 @@
+/**
+ * Achievement rules
+ *
+ * Built-in defaults; override with configs/achievements.json (same shape).
+ * Each rule listens to one member event. Counted events unlock the achievement after
+ * `threshold` matching events; valued events (streak, points) unlock once their value reaches it.
+ */
+
+import { EMOJI, GAMIFICATION } from '../utils/constants.js';
+
+export type MemberEventType =
+    | 'form_submitted'    // data: { formId }
+    | 'thread_created'    // The member started a thread or forum post
+    | 'helpful_reaction'  // Someone reacted to the member's message with a helpful emoji
+    | 'streak'            // value: current activity streak in days
+    | 'points';           // value: current points total
+
+export interface AchievementDefinition {
+    id: string;
+    name: string;
+    description: string;
+    emoji: string;
+    event: MemberEventType;
+    // Only events whose data has these values count, e.g. { "formId": "intro" }
+    filter?: Record<string, string>;
+    threshold: number;
+}
+
+export interface AchievementsConfig {
+    achievements: AchievementDefinition[];
+    // Reactions that count as "helpful" for helpful_reaction events
+    helpfulEmojis: string[];
+}
+
+const { ACHIEVEMENTS, LEVELS } = GAMIFICATION;
+
+export const DEFAULT_ACHIEVEMENTS_CONFIG: AchievementsConfig = {
+    achievements: [
+        {
+            id: ACHIEVEMENTS.FIRST_INTRO,
+            name: 'Hello, World',
+            description: 'Introduce yourself to the community',
+            emoji: EMOJI.WAVE,
+            event: 'form_submitted',
+            filter: { formId: 'intro' },
+            threshold: 1,
+        },
+        {
+            id: ACHIEVEMENTS.FIRST_THREAD,
+            name: 'Conversation Starter',
+            description: 'Start your first thread',
+            emoji: EMOJI.THREAD,
+            event: 'thread_created',
+            threshold: 1,
+        },
+        {
+            id: ACHIEVEMENTS.HELPFUL_10,
+            name: 'Helping Hand',
+            description: 'Get 10 helpful reactions on your messages',
+            emoji: EMOJI.STAR,
+            event: 'helpful_reaction',
+            threshold: 10,
+        },
+        {
+            id: ACHIEVEMENTS.STREAK_7,
+            name: 'On a Roll',
+            description: 'Be active 7 days in a row',
+            emoji: EMOJI.FIRE,
+            event: 'streak',
+            threshold: 7,
+        },
+        {
+            id: ACHIEVEMENTS.STREAK_30,
+            name: 'Unstoppable',
+            description: 'Be active 30 days in a row',
+            emoji: EMOJI.CALENDAR,
+            event: 'streak',
+            threshold: 30,
+        },
+        {
+            id: ACHIEVEMENTS.LEVEL_SILVER,
+            name: LEVELS.SILVER.name,
+            description: `Reach ${LEVELS.SILVER.min} points`,
+            emoji: LEVELS.SILVER.emoji,
+            event: 'points',
+            threshold: LEVELS.SILVER.min,
+        },
+        {
+            id: ACHIEVEMENTS.LEVEL_GOLD,
+            name: LEVELS.GOLD.name,
+            description: `Reach ${LEVELS.GOLD.min} points`,
+            emoji: LEVELS.GOLD.emoji,
+            event: 'points',
+            threshold: LEVELS.GOLD.min,
+        },
+        {
+            id: ACHIEVEMENTS.LEVEL_DIAMOND,
+            name: LEVELS.DIAMOND.name,
+            description: `Reach ${LEVELS.DIAMOND.min} points`,
+            emoji: LEVELS.DIAMOND.emoji,
+            event: 'points',
+            threshold: LEVELS.DIAMOND.min,
+        },
+    ],
+    helpfulEmojis: ['👍', '❤️', '🙏', '✅', '💯', '🔥'],
+};
@@ -0,0 +1,51 @@
+/**
+ * Answer providers for the support bot
+ *
+ * Built-in defaults; override with configs/answer-providers.json (same shape).
+ * String values support ${ENV_VAR} references, e.g. "${N8N_PRODUCTION_URL}" or "${GET_HELP_CHANNEL}".
+ */
+
+export type AnswerProviderType = 'n8n' | 'openai' | 'static';
+
+// The N8N webhook: POSTs { data: { query } } and reads [0].output
+export interface N8nProviderConfig {
+    type: 'n8n';
+    url: string;
+}
+
+// Any OpenAI-compatible /chat/completions endpoint (OpenAI, Azure, OpenRouter, Ollama, ...)
+export interface OpenAiProviderConfig {
+    type: 'openai';
+    baseUrl: string;
+    model: string;
+    apiKey?: string;
+    systemPrompt?: string;
+    maxTokens?: number;
+}
+
+// Canned answers picked by keywords, for offline testing and simple FAQs
+export interface StaticProviderConfig {
+    type: 'static';
+    // The first entry whose keywords all appear in the query wins
+    answers: Array<{ keywords: string[]; answer: string }>;
+    fallback: string;
+}
+
+export type AnswerProviderConfig = N8nProviderConfig | OpenAiProviderConfig | StaticProviderConfig;
+
+export interface AnswerProvidersConfig {
+    // Provider name -> settings
+    providers: Record<string, AnswerProviderConfig>;
+    // Provider used in channels without their own entry
+    defaultProvider: string;
+    // Channel id (a thread uses its parent's entry) -> provider name
+    channels: Record<string, string>;
+}
+
+export const DEFAULT_ANSWER_PROVIDERS_CONFIG: AnswerProvidersConfig = {
+    providers: {
+        n8n: { type: 'n8n', url: '${N8N_PRODUCTION_URL}' },
+    },
+    defaultProvider: 'n8n',
+    channels: {},
+};
@@ -0,0 +1,222 @@
+/**
+ * Onboarding form definitions
+ *
+ * These are the built-in defaults. Drop a configs/forms.json with the same shape
+ * to add fields or whole new forms without touching the code.
+ * Text fields support {field_id} placeholders and channelId supports ${ENV_VAR}.
+ */
+
+import { LinkType } from '../utils/links.js';
+
+export interface FormFieldDefinition {
+    id: string;
+    label: string;
+    style: 'short' | 'paragraph';
+    placeholder?: string;
+    required?: boolean; // Defaults to true
+    minLength?: number;
+    maxLength?: number;
+    // Makes this a links field: one link per line, each validated, normalized and shown as a button on the post
+    links?: LinkType[];
+}
+
+export interface FormEmbedVariation {
+    heading: string;
+    section: string;
+    footer: string;
+}
+
+export interface FormEmbedTemplate {
+    title: string;
+    color: number;
+    variations: FormEmbedVariation[];
+    body: string;
+    // Extra embed fields; a field whose value renders empty is skipped
+    fields?: Array<{ name: string; value: string; inline?: boolean }>;
+}
+
+export interface FormProjectMapping {
+    nameField: string;
+    descriptionField: string;
+    // Status given to projects posted through this form, e.g. "building" or "launched"
+    status: string;
+    // Form that "Mark as launched" in the project thread opens (prefilled from this project)
+    launchFormId?: string;
+}
+
+export interface FormDefinition {
+    id: string;
+    modalTitle: string;
+    buttonLabel: string;
+    buttonStyle: 'primary' | 'secondary' | 'success';
+    channelId: string;
+    fields: FormFieldDefinition[];
+    embed: FormEmbedTemplate;
+    // When set, a public thread is started from the posted embed
+    thread?: { name: string };
+    // When set, posts of this form are registered as projects (requires a thread)
+    project?: FormProjectMapping;
+    // Shown to the member once the post is live, e.g. "your introduction has been posted"
+    postedMessage: string;
+}
+
+export interface BuilderRequirement {
+    label: string;
+    forms: string[];
+}
+
+export interface FormsConfig {
+    forms: FormDefinition[];
+    // Dodo Builder is awarded once every requirement has at least one of its forms completed
+    builderRequirements: BuilderRequirement[];
+}
+
+export const DEFAULT_FORMS_CONFIG: FormsConfig = {
+    forms: [
+        {
+            id: 'intro',
+            modalTitle: 'Introduce yourself',
+            buttonLabel: 'Fill Introduction',
+            buttonStyle: 'primary',
+            channelId: '${INTRO_CHANNEL_ID}',
+            fields: [
+                {
+                    id: 'name_input',
+                    label: 'Name',
+                    style: 'short',
+                    placeholder: 'How should we call you?',
+                    maxLength: 100,
+                },
+                {
+                    id: 'about_input',
+                    label: 'About me',
+                    style: 'paragraph',
+                    placeholder: 'Tell us about yourself, your background, interests...',
+                    maxLength: 2000,
+                },
+                {
+                    id: 'links_input',
+                    label: 'Links',
+                    style: 'paragraph',
+                    placeholder: 'GitHub, X, LinkedIn, website or Dodo Payments storefront, one per line',
+                    required: false,
+                    maxLength: 500,
+                    links: ['github', 'x', 'linkedin', 'website', 'storefront'],
+                },
+            ],
+            embed: {
+                title: 'New Introduction',
+                color: 0x2b6cb0,
+                variations: [
+                    {
+                        heading: 'Welcome to the Dodo family, {name_input}!',
+                        section: '__**About {name_input}:**__',
+                        footer: "Ready to build something amazing? Let's go!",
+                    },
+                    {
+                        heading: 'Hey there, {name_input}!',
+                        section: '__**Get to know {name_input}:**__',
+                        footer: 'Welcome to our community of builders and creators!',
+                    },
+                    {
+                        heading: 'A warm welcome to {name_input}!',
+                        section: '__**Meet {name_input}:**__',
+                        footer: "Excited to see what you'll build with us!",
+                    },
+                    {
+                        heading: 'Welcome aboard, {name_input}!',
+                        section: '__**About {name_input}:**__',
+                        footer: "Great to have another builder in our community! Let's create something awesome together!",
+                    },
+                    {
+                        heading: 'Welcome to Dodo Payments, {name_input}!',
+                        section: "__**Here's what {name_input} shared:**__",
+                        footer: "We're thrilled to have you join our journey of building great products!",
+                    },
+                ],
+                body: '> {about_input}',
+            },
+            postedMessage: 'Thanks — your introduction has been posted publicly in the server!',
+        },
+        {
+            id: 'working',
+            modalTitle: "What you're working on",
+            buttonLabel: "What You're Working On",
+            buttonStyle: 'primary',
+            channelId: '${WORKING_ON_CHANNEL_ID}',
+            fields: [
+                {
+                    id: 'product_name',
+                    label: "Product's name",
+                    style: 'short',
+                    placeholder: 'The product name',
+                    maxLength: 100,
+                },
+                {
+                    id: 'product_about',
+                    label: 'What is it about?',
+                    style: 'paragraph',
+                    placeholder: 'Describe the product in a few lines...',
+                    maxLength: 2000,
+                },
+            ],
+            embed: {
+                title: 'New Project',
+                color: 0x2f855a,
+                variations: [
+                    { heading: 'New project: {product_name}', section: '__About this project:__', footer: 'Join the discussion here!' },
+                    { heading: 'Building: {product_name}', section: '__Project details:__', footer: 'Share your thoughts in the thread!' },
+                    { heading: 'Work in progress: {product_name}', section: "__What it's about:__", footer: "Let's discuss this together!" },
+                    { heading: 'Project spotlight: {product_name}', section: '__Project overview:__', footer: 'Join the conversation!' },
+                    { heading: 'Fresh build: {product_name}', section: '__Here are the details:__', footer: 'Share your feedback here!' },
+                ],
+                body: '> {product_about}',
+            },
+            thread: { name: '{product_name}' },
+            project: { nameField: 'product_name', descriptionField: 'product_about', status: 'building', launchFormId: 'showcase' },
+            postedMessage: 'Thanks — your working-on message has been posted in a public thread!',
+        },
+        {
+            id: 'showcase',
+            modalTitle: 'Showcase your project',
+            buttonLabel: 'Showcase Project',
+            buttonStyle: 'success',
+            channelId: '${SHOWCASE_CHANNEL_ID}',
+            fields: [
+                {
+                    id: 'product_name',
+                    label: "Product's name",
+                    style: 'short',
+                    placeholder: 'The product name',
+                    maxLength: 100,
+                },
+                {
+                    id: 'product_about',
+                    label: 'What did you build?',
+                    style: 'paragraph',
+                    placeholder: 'Describe your finished product...',
+                    maxLength: 2000,
+                },
+            ],
+            embed: {
+                title: 'Project Showcase',
+                color: 0x805ad5, // Purple for showcase
+                variations: [
+                    { heading: 'Showcase: {product_name}', section: '__What I built:__', footer: 'Check it out!' },
+                    { heading: 'Deployed: {product_name}', section: '__Project details:__', footer: 'Share your feedback!' },
+                    { heading: 'Live Project: {product_name}', section: '__What it does:__', footer: "Let's discuss!" },
+                    { heading: 'Showcasing: {product_name}', section: '__About the project:__', footer: 'Amazing work!' },
+                    { heading: 'Launched: {product_name}', section: '__Here is what it is:__', footer: 'Congrats on the launch!' },
+                ],
+                body: '> {product_about}',
+            },
+            thread: { name: '{product_name}' },
+            project: { nameField: 'product_name', descriptionField: 'product_about', status: 'launched' },
+            postedMessage: 'Thanks — your showcase has been posted in a public thread!',
+        },
+    ],
+    builderRequirements: [
+        { label: 'intro', forms: ['intro'] },
+        { label: 'share project', forms: ['working', 'showcase'] },
+    ],
+};
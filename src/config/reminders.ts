@@ -0,0 +1,68 @@
+/**
+ * Onboarding reminder stages
+ *
+ * Built-in defaults; override with configs/reminders.json (same shape).
+ * Copy supports {user} (mention) and {missing} (list of forms still to fill) placeholders.
+ */
+
+export interface ReminderStage {
+    id: string;
+    // Hours after the intro flow started
+    delayHours: number;
+    title: string;
+    description: string;
+    color?: number;
+}
+
+export interface RemindersConfig {
+    stages: ReminderStage[];
+}
+
+export const DEFAULT_REMINDERS_CONFIG: RemindersConfig = {
+    stages: [
+        {
+            id: '24h',
+            delayHours: 24,
+            title: '🔔 Friendly Reminder',
+            description: [
+                'Hey {user}! 👋',
+                '',
+                "We noticed you haven't finished getting started yet.",
+                '',
+                'Take just **60 seconds** to:',
+                '{missing}',
+                '',
+                'Earn the **Dodo Builder** role and join the community! 🚀',
+            ].join('\n'),
+            color: 0xfbbf24,
+        },
+        {
+            id: '3d',
+            delayHours: 72,
+            title: '⏳ Your spot is waiting',
+            description: [
+                'Hey {user},',
+                '',
+                'Builders in the community would love to hear from you. You still have this left:',
+                '{missing}',
+                '',
+                "It's the fastest way to get feedback on what you're building and unlock the **Dodo Builder** role.",
+            ].join('\n'),
+            color: 0x3b82f6,
+        },
+        {
+            id: '7d',
+            delayHours: 168,
+            title: '👋 One last nudge',
+            description: [
+                'Hey {user},',
+                '',
+                "This is our last reminder, we won't message you about it again. Whenever you're ready:",
+                '{missing}',
+                '',
+                'See you around! 🚀',
+            ].join('\n'),
+            color: 0x6b7280,
+        },
+    ],
+};
@@ -0,0 +1,60 @@
+/**
+ * Editable message templates
+ *
+ * Built-in defaults for bot copy that mods can change at runtime with /template.
+ * Every template has one or more variations; one is picked at random each time it is sent.
+ * Copy supports the {placeholder} tokens listed in `placeholders`.
+ * Form embed wording is registered from the forms config as form.<id>.heading/section/footer/body.
+ */
+
+export interface TemplateDefinition {
+    id: string;
+    description: string;
+    // Placeholder name -> sample value used by /template preview
+    placeholders: Record<string, string>;
+    variations: string[];
+}
+
+export const DEFAULT_TEMPLATES: TemplateDefinition[] = [
+    {
+        id: 'support.weekend',
+        description: 'Reply in new support threads over the weekend',
+        placeholders: { user: '@member' },
+        variations: [
+            "Hey {user}, We have limited availability over weekends, but rest assured we'll get back to you as soon as possible!",
+        ],
+    },
+    {
+        id: 'support.fallback',
+        description: 'Reply in support threads when no automatic answer is available',
+        placeholders: {},
+        variations: [
+            'Hey, thanks for reaching out. One of our team members will respond shortly.',
+        ],
+    },
+    {
+        id: 'support.faq_fallback',
+        description: 'Reply in support threads when no automatic answer is available but FAQ entries match',
+        placeholders: { answers: '**How do refunds work?**\nRefunds are issued from the dashboard…' },
+        variations: [
+            'Hey, thanks for reaching out. One of our team members will respond shortly. In the meantime, these answers from our FAQ might help:\n\n{answers}',
+        ],
+    },
+    {
+        id: 'move.notice',
+        description: 'Notice left in the original channel after a mod moves a message to the help forum',
+        placeholders: { user: '@member', channel: '#get-help', url: 'https://discord.com/channels/…' },
+        variations: [
+            "Hey {user}!\n\nWe’ve moved your message to the {channel} channel so it’s easier for everyone to assist. You can continue the conversation here: {url}",
+            "Hey {user},\n\nWe've moved your message to the {channel} channel so it's easier for us to help with your issue. You can continue the conversation here: {url}",
+        ],
+    },
+    {
+        id: 'moderation.hacked',
+        description: 'Notice sent when an account that looks hacked is timed out',
+        placeholders: { user: '@member' },
+        variations: [
+            "Hey {user}, seems like your account has been hacked. For that reason we've timed you out. Once your account is back, DM a moderator requesting to revoke the timeout.",
+        ],
+    },
+];
@@ -0,0 +1,52 @@
+import { LocaleBundle } from './types.js';
+
+export const en: LocaleBundle = {
+    languageName: 'English',
+    welcome: {
+        title: 'Welcome to Dodo Payments!',
+        description: [
+            'Hey {user} 👋',
+            '',
+            "Welcome to **Dodo Payments**! We're a community of builders shipping great products, and we're stoked to have you here.",
+            '',
+            '**🚀 Get Started in 60 Seconds**',
+            '',
+            "We'd love to know who you are and what you're building. Use the buttons below to:",
+            '',
+            '1.  **Introduce Yourself** - Tell us a bit about you.',
+            "2.  **Share Your Project** - Show us what you're working on OR showcase a finished project! We'll create a dedicated thread for your project so others can follow along and support you.",
+            '',
+            '🏆 **Pro Tip:** Complete the introduction and ONE of the project forms (Working On or Showcase) to instantly earn the **Dodo Builder** role!',
+            '',
+            '*Note: Your answers will be posted publicly in #introductions, #working-on, or the showcase channel.*',
+            '',
+            "Let's build something amazing together! 🚀",
+        ].join('\n'),
+    },
+    submission: {
+        notForYou: "You're not allowed to submit this. This prompt was for someone else.",
+        openNotForYou: 'Only the invited user can fill this form.',
+        formUnavailable: 'This form is no longer available. Contact a mod.',
+        buttonExpired: "This button has expired. Use the buttons in the bot's latest message, or ask a mod to send you new ones.",
+        heldForReview: "Thanks! Your submission is waiting for a quick review by our mods. We'll DM you once it's live.",
+        updated: 'Thanks — your post has been updated! ✅ {url}',
+        allDone: '{posted} ✅ You have completed all steps and will receive the Dodo Builder role shortly!',
+        oneMore: '{posted} One more step ({missing}) to go to get your Dodo Builder role!',
+        moreSteps: '{posted} {count} more steps ({missing}) to go to get your Dodo Builder role!',
+        channelMissing: 'Could not find destination channel to post your message. Contact a mod.',
+        failed: 'Something went wrong posting your submission. Contact a mod.',
+        invalidLinks: "These links don't look right: {links}. Use full profile links like https://github.com/yourname, https://x.com/yourname or https://yourwebsite.com, then submit again.",
+    },
+    reminder: {
+        or: 'or',
+    },
+    congrats: "🎉 **Congratulations!** You've been awarded the **Dodo Builder** badge for completing your introduction and sharing your project! Keep building! 🚀",
+    allSet: {
+        title: "You're all set! 🎉",
+        description: "Thanks for introducing yourself and sharing your project, {user}. You're a **Dodo Builder** now, see you in the server!",
+    },
+    language: {
+        set: 'Got it! I will talk to you in **{language}** from now on.',
+        auto: "Got it! I will follow your Discord app's language (currently **{language}**).",
+    },
+};
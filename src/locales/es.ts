@@ -0,0 +1,123 @@
+import { LocaleBundle } from './types.js';
+
+export const es: LocaleBundle = {
+    languageName: 'Español',
+    welcome: {
+        title: '¡Bienvenido a Dodo Payments!',
+        description: [
+            '¡Hola {user}! 👋',
+            '',
+            '¡Bienvenido a **Dodo Payments**! Somos una comunidad de builders que lanzan grandes productos y nos encanta tenerte aquí.',
+            '',
+            '**🚀 Empieza en 60 segundos**',
+            '',
+            'Queremos saber quién eres y qué estás construyendo. Usa los botones de abajo para:',
+            '',
+            '1.  **Preséntate** - Cuéntanos un poco sobre ti.',
+            '2.  **Comparte tu proyecto** - Muéstranos en qué estás trabajando O presenta un proyecto terminado. Crearemos un hilo para tu proyecto para que otros puedan seguirlo y apoyarte.',
+            '',
+            '🏆 **Tip:** ¡Completa la presentación y UNO de los formularios de proyecto (En qué trabajas o Showcase) para obtener al instante el rol **Dodo Builder**!',
+            '',
+            '*Nota: Tus respuestas se publicarán en #introductions, #working-on o el canal de showcase.*',
+            '',
+            '¡Construyamos algo increíble juntos! 🚀',
+        ].join('\n'),
+    },
+    submission: {
+        notForYou: 'No puedes enviar esto. Este formulario era para otra persona.',
+        openNotForYou: 'Solo la persona invitada puede llenar este formulario.',
+        formUnavailable: 'Este formulario ya no está disponible. Contacta a un mod.',
+        buttonExpired: 'Este botón ha caducado. Usa los botones del mensaje más reciente del bot o pide a un moderador que te envíe unos nuevos.',
+        heldForReview: '¡Gracias! Tu envío está esperando una revisión rápida de los mods. Te avisaremos por DM cuando esté publicado.',
+        updated: '¡Gracias! Tu publicación ha sido actualizada ✅ {url}',
+        allDone: '{posted} ✅ ¡Completaste todos los pasos y pronto recibirás el rol Dodo Builder!',
+        oneMore: '{posted} ¡Te falta un paso ({missing}) para obtener el rol Dodo Builder!',
+        moreSteps: '{posted} ¡Te faltan {count} pasos ({missing}) para obtener el rol Dodo Builder!',
+        channelMissing: 'No encontramos el canal donde publicar tu mensaje. Contacta a un mod.',
+        failed: 'Algo salió mal al publicar tu envío. Contacta a un mod.',
+        invalidLinks: 'Estos enlaces no parecen correctos: {links}. Usa enlaces completos como https://github.com/tunombre, https://x.com/tunombre o https://tusitio.com y vuelve a enviar.',
+    },
+    reminder: {
+        or: 'o',
+    },
+    congrats: '🎉 **¡Felicidades!** Recibiste la insignia **Dodo Builder** por completar tu presentación y compartir tu proyecto. ¡Sigue construyendo! 🚀',
+    allSet: {
+        title: '¡Todo listo! 🎉',
+        description: 'Gracias por presentarte y compartir tu proyecto, {user}. Ya eres **Dodo Builder**, ¡nos vemos en el servidor!',
+    },
+    language: {
+        set: '¡Listo! A partir de ahora te hablaré en **{language}**.',
+        auto: '¡Listo! Usaré el idioma de tu app de Discord (ahora **{language}**).',
+    },
+    forms: {
+        intro: {
+            modalTitle: 'Preséntate',
+            buttonLabel: 'Llenar presentación',
+            postedMessage: '¡Gracias! Tu presentación se publicó en el servidor.',
+            fields: {
+                name_input: { label: 'Nombre', placeholder: '¿Cómo te llamamos?' },
+                about_input: { label: 'Sobre mí', placeholder: 'Cuéntanos sobre ti, tu experiencia, tus intereses...' },
+                links_input: { label: 'Enlaces', placeholder: 'GitHub, X, LinkedIn, sitio web o tienda de Dodo Payments, uno por línea' },
+            },
+        },
+        working: {
+            modalTitle: 'En qué estás trabajando',
+            buttonLabel: 'En qué estás trabajando',
+            postedMessage: '¡Gracias! Tu proyecto se publicó en un hilo público.',
+            fields: {
+                product_name: { label: 'Nombre del producto', placeholder: 'El nombre del producto' },
+                product_about: { label: '¿De qué se trata?', placeholder: 'Describe el producto en pocas líneas...' },
+            },
+        },
+        showcase: {
+            modalTitle: 'Presenta tu proyecto',
+            buttonLabel: 'Presentar proyecto',
+            postedMessage: '¡Gracias! Tu showcase se publicó en un hilo público.',
+            fields: {
+                product_name: { label: 'Nombre del producto', placeholder: 'El nombre del producto' },
+                product_about: { label: '¿Qué construiste?', placeholder: 'Describe tu producto terminado...' },
+            },
+        },
+    },
+    requirements: {
+        intro: 'presentación',
+        'share project': 'compartir proyecto',
+    },
+    reminders: {
+        '24h': {
+            title: '🔔 Un recordatorio amistoso',
+            description: [
+                '¡Hola {user}! 👋',
+                '',
+                'Notamos que aún no terminaste de empezar.',
+                '',
+                'Solo toma **60 segundos**:',
+                '{missing}',
+                '',
+                '¡Obtén el rol **Dodo Builder** y únete a la comunidad! 🚀',
+            ].join('\n'),
+        },
+        '3d': {
+            title: '⏳ Tu lugar te espera',
+            description: [
+                'Hola {user},',
+                '',
+                'A los builders de la comunidad les encantaría conocerte. Aún te falta esto:',
+                '{missing}',
+                '',
+                'Es la forma más rápida de recibir feedback sobre lo que construyes y desbloquear el rol **Dodo Builder**.',
+            ].join('\n'),
+        },
+        '7d': {
+            title: '👋 Un último empujón',
+            description: [
+                'Hola {user},',
+                '',
+                'Este es nuestro último recordatorio, no volveremos a escribirte sobre esto. Cuando estés listo:',
+                '{missing}',
+                '',
+                '¡Nos vemos! 🚀',
+            ].join('\n'),
+        },
+    },
+};
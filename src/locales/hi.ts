@@ -0,0 +1,123 @@
+import { LocaleBundle } from './types.js';
+
+export const hi: LocaleBundle = {
+    languageName: 'हिन्दी',
+    welcome: {
+        title: 'Dodo Payments में आपका स्वागत है!',
+        description: [
+            'नमस्ते {user} 👋',
+            '',
+            '**Dodo Payments** में आपका स्वागत है! हम बेहतरीन प्रोडक्ट बनाने वाले builders की कम्युनिटी हैं, और आपको यहाँ पाकर हम बहुत खुश हैं।',
+            '',
+            '**🚀 60 सेकंड में शुरू करें**',
+            '',
+            'हम जानना चाहेंगे कि आप कौन हैं और क्या बना रहे हैं। नीचे दिए बटन से:',
+            '',
+            '1.  **अपना परिचय दें** - हमें अपने बारे में थोड़ा बताएं।',
+            '2.  **अपना प्रोजेक्ट शेयर करें** - बताएं कि आप किस पर काम कर रहे हैं या कोई पूरा हुआ प्रोजेक्ट दिखाएं! हम आपके प्रोजेक्ट के लिए एक थ्रेड बनाएंगे ताकि लोग उसे फ़ॉलो और सपोर्ट कर सकें।',
+            '',
+            '🏆 **टिप:** परिचय और कोई एक प्रोजेक्ट फ़ॉर्म (Working On या Showcase) भरें और तुरंत **Dodo Builder** रोल पाएं!',
+            '',
+            '*नोट: आपके जवाब #introductions, #working-on या showcase चैनल में सार्वजनिक रूप से पोस्ट होंगे।*',
+            '',
+            'चलिए साथ मिलकर कुछ शानदार बनाते हैं! 🚀',
+        ].join('\n'),
+    },
+    submission: {
+        notForYou: 'आप इसे सबमिट नहीं कर सकते। यह फ़ॉर्म किसी और के लिए था।',
+        openNotForYou: 'यह फ़ॉर्म सिर्फ़ आमंत्रित व्यक्ति ही भर सकता है।',
+        formUnavailable: 'यह फ़ॉर्म अब उपलब्ध नहीं है। किसी मॉड से संपर्क करें।',
+        buttonExpired: 'यह बटन अब काम नहीं करता। बॉट के सबसे नए मैसेज के बटन इस्तेमाल करें, या किसी मॉड से नए बटन भेजने को कहें।',
+        heldForReview: 'धन्यवाद! आपका सबमिशन मॉड्स के रिव्यू का इंतज़ार कर रहा है। पोस्ट होते ही हम आपको DM करेंगे।',
+        updated: 'धन्यवाद — आपकी पोस्ट अपडेट हो गई है! ✅ {url}',
+        allDone: '{posted} ✅ आपने सभी स्टेप पूरे कर लिए हैं, जल्द ही आपको Dodo Builder रोल मिल जाएगा!',
+        oneMore: '{posted} Dodo Builder रोल पाने के लिए बस एक स्टेप ({missing}) बाकी है!',
+        moreSteps: '{posted} Dodo Builder रोल पाने के लिए {count} स्टेप ({missing}) बाकी हैं!',
+        channelMissing: 'आपका मैसेज पोस्ट करने के लिए चैनल नहीं मिला। किसी मॉड से संपर्क करें।',
+        failed: 'आपका सबमिशन पोस्ट करते समय कुछ गड़बड़ हो गई। किसी मॉड से संपर्क करें।',
+        invalidLinks: 'ये लिंक सही नहीं लग रहे: {links}. पूरे लिंक इस्तेमाल करें, जैसे https://github.com/yourname, https://x.com/yourname या https://yourwebsite.com, फिर दोबारा सबमिट करें।',
+    },
+    reminder: {
+        or: 'या',
+    },
+    congrats: '🎉 **बधाई हो!** परिचय देने और अपना प्रोजेक्ट शेयर करने के लिए आपको **Dodo Builder** बैज मिला है। बनाते रहिए! 🚀',
+    allSet: {
+        title: 'आप पूरी तरह तैयार हैं! 🎉',
+        description: 'अपना परिचय देने और अपना प्रोजेक्ट शेयर करने के लिए धन्यवाद, {user}। अब आप **Dodo Builder** हैं, सर्वर में मिलते हैं!',
+    },
+    language: {
+        set: 'ठीक है! अब से मैं आपसे **{language}** में बात करूँगा।',
+        auto: 'ठीक है! मैं आपके Discord ऐप की भाषा (अभी **{language}**) इस्तेमाल करूँगा।',
+    },
+    forms: {
+        intro: {
+            modalTitle: 'अपना परिचय दें',
+            buttonLabel: 'परिचय भरें',
+            postedMessage: 'धन्यवाद — आपका परिचय सर्वर में पोस्ट हो गया है!',
+            fields: {
+                name_input: { label: 'नाम', placeholder: 'हम आपको क्या कहकर बुलाएं?' },
+                about_input: { label: 'मेरे बारे में', placeholder: 'अपने बारे में, अपने बैकग्राउंड और रुचियों के बारे में बताएं...' },
+                links_input: { label: 'लिंक', placeholder: 'GitHub, X, LinkedIn, वेबसाइट या Dodo Payments स्टोरफ्रंट, हर लाइन में एक' },
+            },
+        },
+        working: {
+            modalTitle: 'आप किस पर काम कर रहे हैं',
+            buttonLabel: 'मैं किस पर काम कर रहा हूँ',
+            postedMessage: 'धन्यवाद — आपका प्रोजेक्ट एक पब्लिक थ्रेड में पोस्ट हो गया है!',
+            fields: {
+                product_name: { label: 'प्रोडक्ट का नाम', placeholder: 'प्रोडक्ट का नाम' },
+                product_about: { label: 'यह किस बारे में है?', placeholder: 'प्रोडक्ट के बारे में कुछ लाइनों में बताएं...' },
+            },
+        },
+        showcase: {
+            modalTitle: 'अपना प्रोजेक्ट दिखाएं',
+            buttonLabel: 'प्रोजेक्ट दिखाएं',
+            postedMessage: 'धन्यवाद — आपका showcase एक पब्लिक थ्रेड में पोस्ट हो गया है!',
+            fields: {
+                product_name: { label: 'प्रोडक्ट का नाम', placeholder: 'प्रोडक्ट का नाम' },
+                product_about: { label: 'आपने क्या बनाया?', placeholder: 'अपने पूरे हुए प्रोडक्ट के बारे में बताएं...' },
+            },
+        },
+    },
+    requirements: {
+        intro: 'परिचय',
+        'share project': 'प्रोजेक्ट शेयर करना',
+    },
+    reminders: {
+        '24h': {
+            title: '🔔 एक छोटा सा रिमाइंडर',
+            description: [
+                'नमस्ते {user}! 👋',
+                '',
+                'हमने देखा कि आपने अभी तक शुरुआत पूरी नहीं की है।',
+                '',
+                'बस **60 सेकंड** लगेंगे:',
+                '{missing}',
+                '',
+                '**Dodo Builder** रोल पाएं और कम्युनिटी से जुड़ें! 🚀',
+            ].join('\n'),
+        },
+        '3d': {
+            title: '⏳ आपकी जगह आपका इंतज़ार कर रही है',
+            description: [
+                'नमस्ते {user},',
+                '',
+                'कम्युनिटी के builders आपसे मिलना चाहेंगे। यह अभी बाकी है:',
+                '{missing}',
+                '',
+                'आप जो बना रहे हैं उस पर फ़ीडबैक पाने और **Dodo Builder** रोल अनलॉक करने का यह सबसे तेज़ तरीका है।',
+            ].join('\n'),
+        },
+        '7d': {
+            title: '👋 आखिरी रिमाइंडर',
+            description: [
+                'नमस्ते {user},',
+                '',
+                'यह हमारा आखिरी रिमाइंडर है, इसके बाद हम इस बारे में मैसेज नहीं करेंगे। जब आप तैयार हों:',
+                '{missing}',
+                '',
+                'फिर मिलते हैं! 🚀',
+            ].join('\n'),
+        },
+    },
+};
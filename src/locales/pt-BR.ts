@@ -0,0 +1,123 @@
+import { LocaleBundle } from './types.js';
+
+export const ptBR: LocaleBundle = {
+    languageName: 'Português (Brasil)',
+    welcome: {
+        title: 'Bem-vindo ao Dodo Payments!',
+        description: [
+            'Oi {user} 👋',
+            '',
+            'Bem-vindo ao **Dodo Payments**! Somos uma comunidade de builders lançando ótimos produtos e estamos muito felizes em ter você aqui.',
+            '',
+            '**🚀 Comece em 60 segundos**',
+            '',
+            'Queremos saber quem você é e o que está construindo. Use os botões abaixo para:',
+            '',
+            '1.  **Apresente-se** - Conte um pouco sobre você.',
+            '2.  **Compartilhe seu projeto** - Mostre no que você está trabalhando OU apresente um projeto finalizado! Vamos criar um tópico para o seu projeto para que outras pessoas possam acompanhar e apoiar.',
+            '',
+            '🏆 **Dica:** Complete a apresentação e UM dos formulários de projeto (No que estou trabalhando ou Showcase) para ganhar na hora o cargo **Dodo Builder**!',
+            '',
+            '*Observação: suas respostas serão publicadas em #introductions, #working-on ou no canal de showcase.*',
+            '',
+            'Vamos construir algo incrível juntos! 🚀',
+        ].join('\n'),
+    },
+    submission: {
+        notForYou: 'Você não pode enviar isto. Este formulário era para outra pessoa.',
+        openNotForYou: 'Só a pessoa convidada pode preencher este formulário.',
+        formUnavailable: 'Este formulário não está mais disponível. Fale com um mod.',
+        buttonExpired: 'Este botão expirou. Use os botões da mensagem mais recente do bot ou peça a um moderador para enviar novos.',
+        heldForReview: 'Obrigado! Seu envio está aguardando uma revisão rápida dos mods. Avisaremos por DM quando for publicado.',
+        updated: 'Obrigado! Sua publicação foi atualizada ✅ {url}',
+        allDone: '{posted} ✅ Você completou todas as etapas e receberá o cargo Dodo Builder em breve!',
+        oneMore: '{posted} Falta uma etapa ({missing}) para ganhar o cargo Dodo Builder!',
+        moreSteps: '{posted} Faltam {count} etapas ({missing}) para ganhar o cargo Dodo Builder!',
+        channelMissing: 'Não encontramos o canal para publicar sua mensagem. Fale com um mod.',
+        failed: 'Algo deu errado ao publicar seu envio. Fale com um mod.',
+        invalidLinks: 'Estes links não parecem corretos: {links}. Use links completos como https://github.com/seunome, https://x.com/seunome ou https://seusite.com e envie de novo.',
+    },
+    reminder: {
+        or: 'ou',
+    },
+    congrats: '🎉 **Parabéns!** Você ganhou o selo **Dodo Builder** por completar sua apresentação e compartilhar seu projeto. Continue construindo! 🚀',
+    allSet: {
+        title: 'Tudo pronto! 🎉',
+        description: 'Obrigado por se apresentar e compartilhar seu projeto, {user}. Agora você é **Dodo Builder**, nos vemos no servidor!',
+    },
+    language: {
+        set: 'Pronto! A partir de agora vou falar com você em **{language}**.',
+        auto: 'Pronto! Vou seguir o idioma do seu app do Discord (agora **{language}**).',
+    },
+    forms: {
+        intro: {
+            modalTitle: 'Apresente-se',
+            buttonLabel: 'Preencher apresentação',
+            postedMessage: 'Obrigado! Sua apresentação foi publicada no servidor.',
+            fields: {
+                name_input: { label: 'Nome', placeholder: 'Como devemos te chamar?' },
+                about_input: { label: 'Sobre mim', placeholder: 'Conte sobre você, sua experiência, seus interesses...' },
+                links_input: { label: 'Links', placeholder: 'GitHub, X, LinkedIn, site ou loja Dodo Payments, um por linha' },
+            },
+        },
+        working: {
+            modalTitle: 'No que você está trabalhando',
+            buttonLabel: 'No que estou trabalhando',
+            postedMessage: 'Obrigado! Seu projeto foi publicado em um tópico público.',
+            fields: {
+                product_name: { label: 'Nome do produto', placeholder: 'O nome do produto' },
+                product_about: { label: 'Do que se trata?', placeholder: 'Descreva o produto em poucas linhas...' },
+            },
+        },
+        showcase: {
+            modalTitle: 'Mostre seu projeto',
+            buttonLabel: 'Mostrar projeto',
+            postedMessage: 'Obrigado! Seu showcase foi publicado em um tópico público.',
+            fields: {
+                product_name: { label: 'Nome do produto', placeholder: 'O nome do produto' },
+                product_about: { label: 'O que você construiu?', placeholder: 'Descreva seu produto finalizado...' },
+            },
+        },
+    },
+    requirements: {
+        intro: 'apresentação',
+        'share project': 'compartilhar projeto',
+    },
+    reminders: {
+        '24h': {
+            title: '🔔 Um lembrete amigável',
+            description: [
+                'Oi {user}! 👋',
+                '',
+                'Percebemos que você ainda não terminou de começar.',
+                '',
+                'Leva só **60 segundos**:',
+                '{missing}',
+                '',
+                'Ganhe o cargo **Dodo Builder** e entre para a comunidade! 🚀',
+            ].join('\n'),
+        },
+        '3d': {
+            title: '⏳ Seu lugar está esperando',
+            description: [
+                'Oi {user},',
+                '',
+                'Os builders da comunidade adorariam te conhecer. Ainda falta isto:',
+                '{missing}',
+                '',
+                'É o jeito mais rápido de receber feedback sobre o que você está construindo e desbloquear o cargo **Dodo Builder**.',
+            ].join('\n'),
+        },
+        '7d': {
+            title: '👋 Um último empurrãozinho',
+            description: [
+                'Oi {user},',
+                '',
+                'Este é nosso último lembrete, não vamos mais te escrever sobre isso. Quando estiver pronto:',
+                '{missing}',
+                '',
+                'Até mais! 🚀',
+            ].join('\n'),
+        },
+    },
+};
@@ -0,0 +1,14 @@
+/**
+ * Locale bundles: nested string tables looked up by dotted keys, e.g. "welcome.title".
+ *
+ * The English bundle holds the bot's own copy. Forms, reminder stages and builder
+ * requirements are written in English in their configs; other bundles translate them
+ * under forms.<formId>.*, reminders.<stageId>.* and requirements.<label>.
+ * Strings support {placeholder} tokens.
+ */
+
+export interface LocaleBundle {
+    [key: string]: string | LocaleBundle;
+}
+
+export type LocaleCode = 'en' | 'es' | 'pt-BR' | 'hi';
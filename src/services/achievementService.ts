@@ -0,0 +1,282 @@
+/**
+ * Achievement service: evaluates the declarative rules in config/achievements.ts as member
+ * events happen, persists progress and unlocks, and announces new unlocks.
+ *
+ * ACHIEVEMENTS_CHANNEL_ID = Channel for unlock announcements (unlocks are DMed when unset)
+ */
+
+import cron from 'node-cron';
+import { ChatInputCommandInteraction, Client, MessageReaction, PartialMessageReaction, PartialUser, TextChannel, User } from 'discord.js';
+import dotenv from 'dotenv';
+import {
+    AchievementDefinition,
+    AchievementsConfig,
+    DEFAULT_ACHIEVEMENTS_CONFIG,
+    MemberEventType,
+} from '../config/achievements.js';
+import { storageService } from './storageService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { loadJsonConfig } from '../utils/config.js';
+import { COLORS, DAY_MS, DURATION, EMOJI, LIMITS } from '../utils/constants.js';
+import { truncate } from '../utils/formatting.js';
+import { pruneExpired, scheduleRetention } from '../utils/retention.js';
+
+dotenv.config();
+
+const { ACHIEVEMENTS_CHANNEL_ID } = process.env as Record<string, string | undefined>;
+
+const ACHIEVEMENTS_CONFIG_FILE = 'achievements.json';
+const EVENT_TYPES: MemberEventType[] = ['form_submitted', 'thread_created', 'helpful_reaction', 'streak', 'points'];
+// Events that carry a current value instead of counting occurrences
+const VALUED_EVENTS: MemberEventType[] = ['streak', 'points'];
+
+export interface MemberEvent {
+    type: MemberEventType;
+    guildId: string;
+    userId: string;
+    value?: number;
+    data?: Record<string, string>;
+}
+
+// A reactor's helpful reaction to a message, counted once however many emojis they use
+export interface HelpfulReaction {
+    guildId: string;
+    messageId: string;
+    reactorId: string;
+    authorId: string;
+    createdAt: number;
+}
+
+export interface MemberAchievements {
+    guildId: string;
+    userId: string;
+    // Achievement id -> matching event count, or best value for valued events
+    progress: Record<string, number>;
+    // Achievement id -> unlock time (ms)
+    unlocked: Record<string, number>;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Validate an achievements config, throwing a descriptive error on the first problem found
+ */
+export function validateAchievementsConfig(config: AchievementsConfig): void {
+    const ids = new Set<string>();
+    for (const achievement of config.achievements ?? []) {
+        if (!achievement.id || ids.has(achievement.id)) {
+            throw new Error(`Missing or duplicate achievement id "${achievement.id}"`);
+        }
+        ids.add(achievement.id);
+
+        if (!EVENT_TYPES.includes(achievement.event)) {
+            throw new Error(`Achievement "${achievement.id}" listens to unknown event "${achievement.event}" (use ${EVENT_TYPES.join(', ')})`);
+        }
+        if (!(achievement.threshold > 0)) {
+            throw new Error(`Achievement "${achievement.id}" needs a threshold above 0`);
+        }
+    }
+
+    if (!Array.isArray(config.helpfulEmojis) || !config.helpfulEmojis.every(emoji => typeof emoji === 'string')) {
+        throw new Error('helpfulEmojis must be a list of emojis');
+    }
+}
+
+/**
+ * Apply an event to a member's record and return the achievements it unlocks
+ */
+export function evaluateEvent(record: MemberAchievements, event: MemberEvent, achievements: AchievementDefinition[], now: number = Date.now()): AchievementDefinition[] {
+    const unlocked: AchievementDefinition[] = [];
+
+    for (const achievement of achievements) {
+        if (achievement.event !== event.type || record.unlocked[achievement.id]) continue;
+        const matches = Object.entries(achievement.filter ?? {}).every(([field, value]) => event.data?.[field] === value);
+        if (!matches) continue;
+
+        const current = record.progress[achievement.id] ?? 0;
+        record.progress[achievement.id] = VALUED_EVENTS.includes(event.type)
+            ? Math.max(current, event.value ?? 0)
+            : current + 1;
+
+        if (record.progress[achievement.id] >= achievement.threshold) {
+            record.unlocked[achievement.id] = now;
+            unlocked.push(achievement);
+        }
+    }
+
+    return unlocked;
+}
+
+class AchievementService {
+    private cronJob: cron.ScheduledTask | null = null;
+    private config: AchievementsConfig;
+    private records = storageService.collection<MemberAchievements>('achievements');
+    // Keyed by guild, message and reactor
+    private helpfulReactions = storageService.collection<HelpfulReaction>('helpful_reactions');
+
+    constructor() {
+        const override = loadJsonConfig<AchievementsConfig>(ACHIEVEMENTS_CONFIG_FILE);
+        this.config = override ? { ...override, helpfulEmojis: override.helpfulEmojis ?? [] } : DEFAULT_ACHIEVEMENTS_CONFIG;
+        validateAchievementsConfig(this.config);
+
+        if (override) {
+            console.log(`Loaded ${this.config.achievements.length} achievements from configs/${ACHIEVEMENTS_CONFIG_FILE}`);
+        }
+    }
+
+    /**
+     * Schedule the daily pruning of old helpful reactions. Call once storage is initialized.
+     */
+    initialize(): void {
+        this.cronJob = scheduleRetention('helpful reactions', () => this.pruneHelpfulReactions());
+    }
+
+    /**
+     * Delete helpful reactions past their retention. Messages that old no longer count, so nothing can be counted twice.
+     */
+    async pruneHelpfulReactions(now: number = Date.now()): Promise<number> {
+        return pruneExpired(this.helpfulReactions, DURATION.HELPFUL_REACTION_TTL, reaction => reaction.createdAt, now);
+    }
+
+    getAchievements(): AchievementDefinition[] {
+        return this.config.achievements;
+    }
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
+
+    async getRecord(guildId: string, userId: string): Promise<MemberAchievements | null> {
+        return this.records.get(this.key(guildId, userId));
+    }
+
+    /**
+     * Record a member event, persist progress and announce anything it unlocks
+     */
+    async record(client: Client, event: MemberEvent): Promise<AchievementDefinition[]> {
+        const relevant = this.config.achievements.filter(achievement => achievement.event === event.type);
+        if (relevant.length === 0) return [];
+
+        try {
+            const now = Date.now();
+            const record = await this.getRecord(event.guildId, event.userId) ?? {
+                guildId: event.guildId,
+                userId: event.userId,
+                progress: {},
+                unlocked: {},
+                createdAt: now,
+                updatedAt: now,
+            };
+
+            const before = JSON.stringify(record.progress);
+            const unlocked = evaluateEvent(record, event, relevant, now);
+            if (unlocked.length === 0 && JSON.stringify(record.progress) === before) return [];
+
+            record.updatedAt = now;
+            await this.records.set(this.key(event.guildId, event.userId), record);
+
+            for (const achievement of unlocked) {
+                console.log(`[AchievementService] User ${event.userId} unlocked ${achievement.id}`);
+                await this.announce(client, event.userId, achievement);
+            }
+            return unlocked;
+        } catch (error) {
+            console.error(`[AchievementService] Failed to record ${event.type} for user ${event.userId}:`, error);
+            return [];
+        }
+    }
+
+    private async announce(client: Client, userId: string, achievement: AchievementDefinition): Promise<void> {
+        const embed = createBaseEmbed()
+            .setColor(COLORS.PURPLE)
+            .setTitle(`${EMOJI.ACHIEVEMENT} Achievement unlocked: ${achievement.emoji} ${achievement.name}`)
+            .setDescription(`<@${userId}> — ${achievement.description}`);
+
+        try {
+            if (ACHIEVEMENTS_CHANNEL_ID) {
+                const channel = await client.channels.fetch(ACHIEVEMENTS_CHANNEL_ID);
+                if (channel instanceof TextChannel) {
+                    await channel.send({ embeds: [embed] });
+                    return;
+                }
+                console.warn(`[AchievementService] Channel ${ACHIEVEMENTS_CHANNEL_ID} not found or is not a text channel, sending a DM instead.`);
+            }
+
+            const user = await client.users.fetch(userId);
+            await user.send({ embeds: [embed] });
+        } catch (error) {
+            console.warn(`[AchievementService] Could not announce ${achievement.id} for user ${userId}:`, error);
+        }
+    }
+
+    /**
+     * Count a reaction as helpful when it uses a configured emoji and comes from someone else.
+     * Each member counts once per message, so re-adding or stacking emojis doesn't farm progress.
+     * Messages older than the helpful reaction retention don't count.
+     */
+    async handleReaction(reaction: MessageReaction | PartialMessageReaction, user: User | PartialUser): Promise<void> {
+        try {
+            if (user.bot || !reaction.emoji.name || !this.config.helpfulEmojis.includes(reaction.emoji.name)) return;
+
+            const message = reaction.message.partial ? await reaction.message.fetch() : reaction.message;
+            if (!message.guildId || message.author.bot || message.author.id === user.id) return;
+            if (Date.now() - message.createdTimestamp > DURATION.HELPFUL_REACTION_TTL * DAY_MS) return;
+
+            const key = `${message.guildId}:${message.id}:${user.id}`;
+            if (await this.helpfulReactions.get(key)) return;
+            await this.helpfulReactions.set(key, {
+                guildId: message.guildId,
+                messageId: message.id,
+                reactorId: user.id,
+                authorId: message.author.id,
+                createdAt: Date.now(),
+            });
+
+            await this.record(message.client, { type: 'helpful_reaction', guildId: message.guildId, userId: message.author.id });
+        } catch (error) {
+            console.warn('[AchievementService] Could not process reaction:', error);
+        }
+    }
+
+    // ==================== /achievements ====================
+
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const user = interaction.options.getUser('user') ?? interaction.user;
+        const record = await this.getRecord(interaction.guildId, user.id);
+        const unlocked = record?.unlocked ?? {};
+        const achievements = this.config.achievements;
+
+        const earned = achievements
+            .filter(achievement => unlocked[achievement.id])
+            .map(achievement => `${achievement.emoji} **${achievement.name}** — ${achievement.description} (<t:${Math.floor(unlocked[achievement.id] / 1000)}:d>)`);
+        const locked = achievements
+            .filter(achievement => !unlocked[achievement.id])
+            .map(achievement => {
+                const progress = Math.min(record?.progress[achievement.id] ?? 0, achievement.threshold);
+                return `🔒 **${achievement.name}** — ${achievement.description} (${progress}/${achievement.threshold})`;
+            });
+
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.ACHIEVEMENT} ${user.displayName}'s achievements (${earned.length}/${achievements.length})`)
+            .setThumbnail(user.displayAvatarURL())
+            .addFields(
+                { name: 'Earned', value: earned.length > 0 ? truncate(earned.join('\n'), LIMITS.EMBED_FIELD_VALUE_MAX) : 'Nothing yet, keep building!' },
+                { name: 'Locked', value: locked.length > 0 ? truncate(locked.join('\n'), LIMITS.EMBED_FIELD_VALUE_MAX) : 'All unlocked! 🎉' }
+            );
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const achievementService = new AchievementService();
@@ -0,0 +1,198 @@
+/**
+ * Analytics service: records each onboarding step and renders the /onboarding-stats funnel.
+ * Events older than DURATION.ANALYTICS_TTL days are pruned daily.
+ */
+
+import crypto from 'crypto';
+import cron from 'node-cron';
+import { ChatInputCommandInteraction, EmbedBuilder, GuildMemberRoleManager } from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { formService } from './formService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { DAY_MS, DURATION, EMOJI, LIMITS, formatDuration } from '../utils/constants.js';
+import { pruneExpired, scheduleRetention } from '../utils/retention.js';
+import { calculatePercentage, createProgressBar, formatNumber } from '../utils/formatting.js';
+
+dotenv.config();
+
+const { MOD_ROLE_ID } = process.env as Record<string, string | undefined>;
+
+export type OnboardingEventType =
+    | 'member_joined'
+    | 'welcome_dm_sent'
+    | 'welcome_dm_failed'
+    | 'fallback_thread_opened'
+    | 'form_submitted'
+    | 'reminder_sent'
+    | 'builder_awarded';
+
+export interface OnboardingEvent {
+    guildId: string;
+    userId: string;
+    type: OnboardingEventType;
+    timestamp: number;
+    formId?: string; // form_submitted
+    stage?: string; // reminder_sent
+}
+
+export interface FunnelStep {
+    label: string;
+    count: number;
+}
+
+export interface FunnelStats {
+    days: number;
+    joined: number;
+    steps: FunnelStep[];
+    dmFailures: number;
+    remindersSent: number;
+    medianTimeToCompleteMs: number | null;
+}
+
+function median(values: number[]): number | null {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Build funnel numbers for the cohort of members who joined within the window.
+ * Later steps count only cohort members, so every rate is relative to joins.
+ */
+export function computeFunnel(events: OnboardingEvent[], formIds: Array<{ id: string; label: string }>, days: number, now: number = Date.now()): FunnelStats {
+    const since = now - days * DAY_MS;
+    const inWindow = events.filter(e => e.timestamp >= since);
+
+    const joinedAt = new Map<string, number>();
+    for (const event of inWindow) {
+        if (event.type === 'member_joined' && !joinedAt.has(event.userId)) {
+            joinedAt.set(event.userId, event.timestamp);
+        }
+    }
+
+    const cohortUsersWith = (predicate: (e: OnboardingEvent) => boolean): Set<string> => {
+        const users = new Set<string>();
+        for (const event of inWindow) {
+            if (joinedAt.has(event.userId) && predicate(event)) users.add(event.userId);
+        }
+        return users;
+    };
+
+    const steps: FunnelStep[] = [
+        { label: 'Joined', count: joinedAt.size },
+        { label: 'Welcome DM delivered', count: cohortUsersWith(e => e.type === 'welcome_dm_sent').size },
+        ...formIds.map(form => ({
+            label: form.label,
+            count: cohortUsersWith(e => e.type === 'form_submitted' && e.formId === form.id).size,
+        })),
+    ];
+
+    const completionTimes: number[] = [];
+    for (const event of inWindow) {
+        const joined = joinedAt.get(event.userId);
+        if (event.type === 'builder_awarded' && joined !== undefined) {
+            completionTimes.push(event.timestamp - joined);
+        }
+    }
+    steps.push({ label: 'Dodo Builder', count: completionTimes.length });
+
+    return {
+        days,
+        joined: joinedAt.size,
+        steps,
+        dmFailures: inWindow.filter(e => e.type === 'welcome_dm_failed').length,
+        remindersSent: inWindow.filter(e => e.type === 'reminder_sent').length,
+        medianTimeToCompleteMs: median(completionTimes),
+    };
+}
+
+class AnalyticsService {
+    private cronJob: cron.ScheduledTask | null = null;
+    private events = storageService.collection<OnboardingEvent>('onboarding_events');
+
+    /**
+     * Schedule the daily pruning of old events. Call once storage is initialized.
+     */
+    initialize(): void {
+        this.cronJob = scheduleRetention('onboarding events', () => this.pruneEvents());
+    }
+
+    /**
+     * Delete events older than the analytics retention period. Returns how many were removed.
+     */
+    async pruneEvents(now: number = Date.now()): Promise<number> {
+        return pruneExpired(this.events, DURATION.ANALYTICS_TTL, event => event.timestamp, now);
+    }
+
+    /**
+     * Record an onboarding step. Never throws, so tracking can't break the flow it observes.
+     */
+    async track(guildId: string, userId: string, type: OnboardingEventType, details: Pick<OnboardingEvent, 'formId' | 'stage'> = {}): Promise<void> {
+        try {
+            const timestamp = Date.now();
+            await this.events.set(`${timestamp}-${crypto.randomUUID()}`, { guildId, userId, type, timestamp, ...details });
+        } catch (error) {
+            console.error(`Failed to record onboarding event ${type} for user ${userId}:`, error);
+        }
+    }
+
+    async getFunnel(guildId: string, days: number): Promise<FunnelStats> {
+        const events = (await this.events.all()).filter(e => e.guildId === guildId);
+        const forms = formService.getForms().map(form => ({ id: form.id, label: `${form.buttonLabel} submitted` }));
+        return computeFunnel(events, forms, days);
+    }
+
+    buildFunnelEmbed(stats: FunnelStats): EmbedBuilder {
+        const lines = stats.steps.map(step => {
+            const pct = calculatePercentage(step.count, stats.joined);
+            return `**${step.label}**\n\`${createProgressBar(step.count, stats.joined)}\` ${formatNumber(step.count)} (${pct}%)`;
+        });
+
+        return createBaseEmbed()
+            .setTitle(`${EMOJI.CHART} Onboarding funnel — last ${stats.days} day${stats.days !== 1 ? 's' : ''}`)
+            .setDescription(stats.joined === 0 ? 'No tracked joins in this period yet.' : lines.join('\n\n'))
+            .addFields(
+                {
+                    name: `${EMOJI.CLOCK} Median time to Dodo Builder`,
+                    value: stats.medianTimeToCompleteMs === null ? 'N/A' : formatDuration(stats.medianTimeToCompleteMs),
+                    inline: true,
+                },
+                { name: `${EMOJI.CROSS} Welcome DMs failed`, value: formatNumber(stats.dmFailures), inline: true },
+                { name: `${EMOJI.BELL} Reminders sent`, value: formatNumber(stats.remindersSent), inline: true }
+            );
+    }
+
+    public async handleStatsCommand(interaction: ChatInputCommandInteraction) {
+        const memberRoles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        if (!MOD_ROLE_ID || !memberRoles?.cache.has(MOD_ROLE_ID)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const days = interaction.options.getInteger('days') ?? LIMITS.STATS_DEFAULT_DAYS;
+            const stats = await this.getFunnel(interaction.guildId, days);
+            await interaction.editReply({ embeds: [this.buildFunnelEmbed(stats)] });
+        } catch (error) {
+            console.error('Error building onboarding stats:', error);
+            await interaction.editReply({ content: 'Failed to build onboarding stats. Please try again later.' });
+        }
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const analyticsService = new AnalyticsService();
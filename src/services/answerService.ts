@@ -0,0 +1,277 @@
+/**
+ * Answer service: the support bot asks it for answers and it routes each question to the
+ * provider configured for the channel (N8N webhook, OpenAI-compatible endpoint or static answers).
+ * Providers are defined in config/answerProviders.ts, overridable with configs/answer-providers.json.
+ *
+ * N8N and OpenAI-compatible requests time out and retry with backoff on network errors and 5xx
+ * responses. N8N also goes through a circuit breaker: while it is open the bot skips N8N and
+ * sends the human fallback right away.
+ *
+ * N8N_TIMEOUT_MS               = Timeout per N8N or OpenAI-compatible request (default: 30000)
+ * N8N_MAX_RETRIES              = Retries after a failed N8N or OpenAI-compatible request (default: 2)
+ * N8N_BREAKER_THRESHOLD        = Consecutive failed questions that open the circuit (default: 5)
+ * N8N_BREAKER_COOLDOWN_SECONDS = How long the circuit stays open before N8N is tried again (default: 120)
+ * SUPPORT_ALERT_CHANNEL_ID     = Mod channel for outage and recovery notices (optional)
+ */
+
+import { Client, TextChannel } from 'discord.js';
+import dotenv from 'dotenv';
+import {
+    AnswerProviderConfig,
+    AnswerProvidersConfig,
+    AnswerProviderType,
+    DEFAULT_ANSWER_PROVIDERS_CONFIG,
+    N8nProviderConfig,
+    OpenAiProviderConfig,
+    StaticProviderConfig,
+} from '../config/answerProviders.js';
+import { interpolateEnv, loadJsonConfig } from '../utils/config.js';
+import { fetchWithRetry, RetryOptions } from '../utils/http.js';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitOpenError } from '../utils/circuitBreaker.js';
+import { DURATION, EMOJI, formatDuration } from '../utils/constants.js';
+
+dotenv.config();
+
+const CONFIG = {
+    RETRY: {
+        timeoutMs: Number(process.env.N8N_TIMEOUT_MS || DURATION.ANSWER_TIMEOUT_MS),
+        retries: Number(process.env.N8N_MAX_RETRIES ?? 2),
+        baseDelayMs: DURATION.ANSWER_RETRY_DELAY_MS,
+    } as RetryOptions,
+    BREAKER: {
+        failureThreshold: Number(process.env.N8N_BREAKER_THRESHOLD || 5),
+        cooldownMs: process.env.N8N_BREAKER_COOLDOWN_SECONDS
+            ? Number(process.env.N8N_BREAKER_COOLDOWN_SECONDS) * 1000
+            : DURATION.ANSWER_BREAKER_COOLDOWN_MS,
+    } as CircuitBreakerOptions,
+    ALERT_CHANNEL_ID: process.env.SUPPORT_ALERT_CHANNEL_ID,
+};
+
+type CircuitListener = (provider: string, state: 'open' | 'closed', outageStartedAt: number) => void;
+
+const ANSWER_PROVIDERS_CONFIG_FILE = 'answer-providers.json';
+const PROVIDER_TYPES: AnswerProviderType[] = ['n8n', 'openai', 'static'];
+
+export interface AnswerProvider {
+    readonly name: string;
+    /**
+     * Answer a support question. Throws when the backend can't be reached.
+     */
+    answer(query: string): Promise<string>;
+}
+
+export class N8nAnswerProvider implements AnswerProvider {
+    private breaker: CircuitBreaker;
+
+    constructor(
+        readonly name: string,
+        private config: N8nProviderConfig,
+        private retry: RetryOptions = CONFIG.RETRY,
+        breaker: CircuitBreakerOptions = CONFIG.BREAKER,
+        onCircuitChange?: CircuitListener
+    ) {
+        this.breaker = new CircuitBreaker(breaker, (state, outageStartedAt) => onCircuitChange?.(name, state, outageStartedAt));
+    }
+
+    async answer(query: string): Promise<string> {
+        const url = interpolateEnv(this.config.url);
+        if (!url) {
+            throw new Error(`Answer provider "${this.name}" has no webhook URL configured`);
+        }
+        if (!this.breaker.canRequest()) {
+            throw new CircuitOpenError(this.name);
+        }
+
+        let response: Response;
+        try {
+            response = await fetchWithRetry(url, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                body: JSON.stringify({
+                    data: { query }
+                }),
+            }, this.retry);
+        } catch (error) {
+            this.breaker.recordFailure();
+            throw error;
+        }
+        this.breaker.recordSuccess();
+
+        const responseText = await response.text();
+        let responseData;
+        try {
+            responseData = JSON.parse(responseText);
+        } catch {
+            return 'Error parsing N8N response';
+        }
+
+        return responseData[0]?.output || 'No response data found';
+    }
+}
+
+export class OpenAiAnswerProvider implements AnswerProvider {
+    constructor(readonly name: string, private config: OpenAiProviderConfig, private retry: RetryOptions = CONFIG.RETRY) {}
+
+    async answer(query: string): Promise<string> {
+        const baseUrl = interpolateEnv(this.config.baseUrl).replace(/\/+$/, '');
+        const apiKey = this.config.apiKey ? interpolateEnv(this.config.apiKey) : '';
+
+        const messages = [
+            ...(this.config.systemPrompt ? [{ role: 'system', content: this.config.systemPrompt }] : []),
+            { role: 'user', content: query },
+        ];
+
+        const response = await fetchWithRetry(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: this.config.model,
+                messages,
+                ...(this.config.maxTokens ? { max_tokens: this.config.maxTokens } : {}),
+            }),
+        }, this.retry);
+
+        const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+        return data.choices?.[0]?.message?.content?.trim() || 'No response data found';
+    }
+}
+
+export class StaticAnswerProvider implements AnswerProvider {
+    constructor(readonly name: string, private config: StaticProviderConfig) {}
+
+    async answer(query: string): Promise<string> {
+        const text = query.toLowerCase();
+        const match = this.config.answers.find(entry =>
+            entry.keywords.length > 0 && entry.keywords.every(keyword => text.includes(keyword.toLowerCase()))
+        );
+        return match?.answer ?? this.config.fallback;
+    }
+}
+
+export function createAnswerProvider(name: string, config: AnswerProviderConfig, onCircuitChange?: CircuitListener): AnswerProvider {
+    switch (config.type) {
+        case 'n8n':
+            return new N8nAnswerProvider(name, config, CONFIG.RETRY, CONFIG.BREAKER, onCircuitChange);
+        case 'openai':
+            return new OpenAiAnswerProvider(name, config, CONFIG.RETRY);
+        case 'static':
+            return new StaticAnswerProvider(name, config);
+    }
+}
+
+/**
+ * Validate an answer providers config, throwing a descriptive error on the first problem found
+ */
+export function validateAnswerProvidersConfig(config: AnswerProvidersConfig): void {
+    const providers = config.providers ?? {};
+
+    for (const [name, provider] of Object.entries(providers)) {
+        if (!PROVIDER_TYPES.includes(provider.type)) {
+            throw new Error(`Answer provider "${name}" has unknown type "${provider.type}" (use ${PROVIDER_TYPES.join(', ')})`);
+        }
+        if (provider.type === 'n8n' && !provider.url) {
+            throw new Error(`Answer provider "${name}" needs a url`);
+        }
+        if (provider.type === 'openai' && (!provider.baseUrl || !provider.model)) {
+            throw new Error(`Answer provider "${name}" needs a baseUrl and a model`);
+        }
+        if (provider.type === 'static' && (!Array.isArray(provider.answers) || !provider.fallback)) {
+            throw new Error(`Answer provider "${name}" needs an answers list and a fallback`);
+        }
+    }
+
+    if (!providers[config.defaultProvider]) {
+        throw new Error(`Default answer provider "${config.defaultProvider}" is not defined`);
+    }
+    for (const [channelId, name] of Object.entries(config.channels ?? {})) {
+        if (!providers[name]) {
+            throw new Error(`Channel ${channelId} uses unknown answer provider "${name}"`);
+        }
+    }
+}
+
+/**
+ * Provider name for a channel: its own entry, then its parent's (for threads), then the default
+ */
+export function resolveProviderName(config: AnswerProvidersConfig, channelId: string, parentId?: string | null): string {
+    const channels: Record<string, string> = {};
+    for (const [id, name] of Object.entries(config.channels ?? {})) {
+        channels[interpolateEnv(id)] = name;
+    }
+    return channels[channelId] ?? (parentId ? channels[parentId] : undefined) ?? config.defaultProvider;
+}
+
+class AnswerService {
+    private client: Client | null = null;
+    private config: AnswerProvidersConfig;
+    private providers = new Map<string, AnswerProvider>();
+
+    constructor() {
+        const override = loadJsonConfig<AnswerProvidersConfig>(ANSWER_PROVIDERS_CONFIG_FILE);
+        this.config = override ?? DEFAULT_ANSWER_PROVIDERS_CONFIG;
+        validateAnswerProvidersConfig(this.config);
+
+        for (const [name, provider] of Object.entries(this.config.providers)) {
+            this.providers.set(name, createAnswerProvider(name, provider, (...args) => void this.notifyCircuitChange(...args)));
+        }
+
+        if (override) {
+            console.log(`Loaded ${this.providers.size} answer providers from configs/${ANSWER_PROVIDERS_CONFIG_FILE}`);
+        }
+    }
+
+    initialize(client: Client): void {
+        this.client = client;
+        if (!CONFIG.ALERT_CHANNEL_ID) {
+            console.warn('[AnswerService] SUPPORT_ALERT_CHANNEL_ID is not set. Answer provider outages are only logged.');
+        }
+    }
+
+    /**
+     * Tell the mods once when a provider goes down, and again when it recovers
+     */
+    private async notifyCircuitChange(provider: string, state: 'open' | 'closed', outageStartedAt: number): Promise<void> {
+        const content = state === 'open'
+            ? `${EMOJI.WARNING} **Answer provider "${provider}" is down.** ${CONFIG.BREAKER.failureThreshold} questions in a row failed, ` +
+              `so the support bot sends the fallback message instead. It will retry every ${formatDuration(CONFIG.BREAKER.cooldownMs)}.`
+            : `${EMOJI.CHECK} **Answer provider "${provider}" is back** after ${formatDuration(Date.now() - outageStartedAt)}. The support bot is answering again.`;
+        console.warn(`[AnswerService] ${content}`);
+
+        if (!this.client || !CONFIG.ALERT_CHANNEL_ID) return;
+        try {
+            const channel = await this.client.channels.fetch(CONFIG.ALERT_CHANNEL_ID);
+            if (!(channel instanceof TextChannel)) {
+                console.warn(`[AnswerService] Alert channel ${CONFIG.ALERT_CHANNEL_ID} not found or is not a text channel.`);
+                return;
+            }
+            await channel.send(content);
+        } catch (error) {
+            console.error('[AnswerService] Failed to post the provider alert:', error);
+        }
+    }
+
+    /**
+     * The provider answering questions asked in a channel (or in a thread of it)
+     */
+    getProvider(channelId: string, parentId?: string | null): AnswerProvider {
+        const name = resolveProviderName(this.config, channelId, parentId);
+        const provider = this.providers.get(name);
+        if (!provider) {
+            throw new Error(`Answer provider "${name}" is not defined`);
+        }
+        return provider;
+    }
+
+    async getAnswer(query: string, channel: { id: string; parentId?: string | null }): Promise<string> {
+        const provider = this.getProvider(channel.id, channel.parentId);
+        console.log(`Answering with provider "${provider.name}"`);
+        return provider.answer(query);
+    }
+}
+
+export const answerService = new AnswerService();
@@ -0,0 +1,234 @@
+/**
+ * Builder audit service: rebuilds onboarding completions from the bot's own posts
+ * in the form channels and finds members who qualify for Dodo Builder but lack the role.
+ * Powers the /builder-audit command (mods only).
+ */
+
+import {
+    ChatInputCommandInteraction,
+    Client,
+    EmbedBuilder,
+    Guild,
+    GuildMemberRoleManager,
+    Message,
+    TextChannel,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { FormDefinition } from '../config/forms.js';
+import { formService } from './formService.js';
+import { completionService } from './completionService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { EMOJI, LIMITS } from '../utils/constants.js';
+import { formatNumber, truncate } from '../utils/formatting.js';
+
+dotenv.config();
+
+const { MOD_ROLE_ID, DODO_BUILDER_ROLE_ID } = process.env as Record<string, string | undefined>;
+
+export interface AuditResult {
+    scannedMessages: number;
+    // userId -> form ids found in the channel history
+    found: Map<string, Set<string>>;
+    qualifying: string[];
+    missingRole: string[];
+    leftGuild: number;
+}
+
+/**
+ * The member a bot post is about: the mention that ends the heading line of its embed (or of its
+ * content, for old posts). The heading quotes the member's own answers, so an earlier mention
+ * on that line may have been typed by them.
+ */
+export function extractPostAuthorId(message: Pick<Message, 'content'> & { embeds: Array<{ description: string | null }> }): string | null {
+    const text = message.embeds[0]?.description ?? message.content;
+    const heading = text?.split('\n')[0] ?? '';
+    const mentions = [...heading.matchAll(/<@!?(\d+)>/g)];
+    return mentions.length > 0 ? mentions[mentions.length - 1][1] : null;
+}
+
+/**
+ * The form a bot post was made with, among the forms posting to its channel: the one whose embed
+ * title it carries, or the channel's only form for posts without a matching title (old posts).
+ * Null when several forms share the channel and none matches.
+ */
+export function identifyPostForm(message: { embeds: Array<{ title: string | null }> }, forms: FormDefinition[]): FormDefinition | null {
+    const title = message.embeds[0]?.title;
+    const match = title ? forms.find(form => form.embed.title === title) : undefined;
+    return match ?? (forms.length === 1 ? forms[0] : null);
+}
+
+class BuilderAuditService {
+    /**
+     * Walk a channel's history (newest first) and collect the members the bot posted for, with the form of each post
+     */
+    private async scanChannel(client: Client, channelId: string, forms: FormDefinition[]): Promise<{ posts: Array<{ userId: string; formId: string }>; scanned: number }> {
+        const channel = await client.channels.fetch(channelId).catch(() => null);
+        if (!channel || !(channel instanceof TextChannel)) {
+            console.warn(`[BuilderAudit] Channel ${channelId} not found or is not a text channel, skipping.`);
+            return { posts: [], scanned: 0 };
+        }
+
+        const posts: Array<{ userId: string; formId: string }> = [];
+        let scanned = 0;
+        let before: string | undefined;
+
+        while (scanned < LIMITS.AUDIT_MAX_MESSAGES_PER_CHANNEL) {
+            const batch = await channel.messages.fetch({ limit: 100, before });
+            if (batch.size === 0) break;
+
+            for (const message of batch.values()) {
+                if (message.author.id !== client.user?.id) continue;
+                const userId = extractPostAuthorId(message);
+                const form = identifyPostForm(message, forms);
+                if (userId && form) posts.push({ userId, formId: form.id });
+            }
+
+            scanned += batch.size;
+            before = batch.last()?.id;
+        }
+
+        return { posts, scanned };
+    }
+
+    /**
+     * Rebuild completions from the history of every form channel and compare with current roles
+     */
+    async audit(client: Client, guild: Guild): Promise<AuditResult> {
+        const found = new Map<string, Set<string>>();
+        let scannedMessages = 0;
+
+        // Channels shared by several forms are scanned once, telling the forms apart post by post
+        const formsByChannel = new Map<string, FormDefinition[]>();
+        for (const form of formService.getForms()) {
+            const channelId = formService.getChannelId(form);
+            if (!channelId) continue;
+            formsByChannel.set(channelId, [...(formsByChannel.get(channelId) ?? []), form]);
+        }
+
+        for (const [channelId, forms] of formsByChannel) {
+            const { posts, scanned } = await this.scanChannel(client, channelId, forms);
+            scannedMessages += scanned;
+            for (const { userId, formId } of posts) {
+                const userForms = found.get(userId) ?? new Set<string>();
+                userForms.add(formId);
+                found.set(userId, userForms);
+            }
+        }
+
+        const members = await guild.members.fetch();
+        const qualifying: string[] = [];
+        const missingRole: string[] = [];
+        let leftGuild = 0;
+
+        for (const [userId, forms] of found) {
+            if (!formService.isBuilderComplete([...forms])) continue;
+
+            const member = members.get(userId);
+            if (!member) {
+                leftGuild++;
+                continue;
+            }
+
+            qualifying.push(userId);
+            if (DODO_BUILDER_ROLE_ID && !member.roles.cache.has(DODO_BUILDER_ROLE_ID)) {
+                missingRole.push(userId);
+            }
+        }
+
+        return { scannedMessages, found, qualifying, missingRole, leftGuild };
+    }
+
+    /**
+     * Persist every completion found in the history
+     */
+    async saveCompletions(guildId: string, result: AuditResult): Promise<void> {
+        for (const [userId, forms] of result.found) {
+            for (const formId of forms) {
+                await completionService.addCompletion(guildId, userId, formId);
+            }
+        }
+    }
+
+    /**
+     * Give the Dodo Builder role to every qualifying member who lacks it
+     */
+    async grantMissingRoles(guild: Guild, result: AuditResult): Promise<{ granted: number; failed: number }> {
+        let granted = 0;
+        let failed = 0;
+        if (!DODO_BUILDER_ROLE_ID) return { granted, failed };
+
+        for (const userId of result.missingRole) {
+            try {
+                const member = await guild.members.fetch(userId);
+                await member.roles.add(DODO_BUILDER_ROLE_ID, 'Builder audit backfill');
+                granted++;
+            } catch (error) {
+                console.error(`[BuilderAudit] Failed to grant Dodo Builder role to user ${userId}:`, error);
+                failed++;
+            }
+        }
+
+        return { granted, failed };
+    }
+
+    buildReportEmbed(result: AuditResult, applied: { granted: number; failed: number } | null): EmbedBuilder {
+        const mentions = result.missingRole.map(id => `<@${id}>`).join(', ');
+
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.TROPHY} Dodo Builder audit`)
+            .addFields(
+                { name: 'Messages scanned', value: formatNumber(result.scannedMessages), inline: true },
+                { name: 'Members with posts', value: formatNumber(result.found.size), inline: true },
+                { name: 'Qualifying members', value: formatNumber(result.qualifying.length), inline: true },
+                {
+                    name: `${EMOJI.CROSS} Qualify but lack the role (${result.missingRole.length})`,
+                    value: mentions ? truncate(mentions, LIMITS.EMBED_FIELD_VALUE_MAX) : 'Nobody, all caught up!',
+                }
+            );
+
+        if (result.leftGuild > 0) {
+            embed.addFields({ name: 'Qualified but left the server', value: formatNumber(result.leftGuild), inline: true });
+        }
+
+        embed.setDescription(applied
+            ? `${EMOJI.CHECK} Saved completions for ${formatNumber(result.found.size)} members and granted the role to ${formatNumber(applied.granted)}` +
+              (applied.failed > 0 ? ` (${formatNumber(applied.failed)} failed, see logs).` : '.')
+            : 'Dry run, nothing was changed. Run again with `apply: true` to grant the role and save completions.');
+
+        return embed;
+    }
+
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        const memberRoles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        if (!MOD_ROLE_ID || !memberRoles?.cache.has(MOD_ROLE_ID)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        if (!interaction.guild) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const apply = interaction.options.getBoolean('apply') ?? false;
+            const result = await this.audit(interaction.client, interaction.guild);
+
+            let applied: { granted: number; failed: number } | null = null;
+            if (apply) {
+                await this.saveCompletions(interaction.guild.id, result);
+                applied = await this.grantMissingRoles(interaction.guild, result);
+                console.log(`[BuilderAudit] ${interaction.user.tag} granted Dodo Builder to ${applied.granted} members (${applied.failed} failed)`);
+            }
+
+            await interaction.editReply({ embeds: [this.buildReportEmbed(result, applied)] });
+        } catch (error) {
+            console.error('Error running builder audit:', error);
+            await interaction.editReply({ content: 'Failed to run the builder audit. Please try again later.' });
+        }
+    }
+}
+
+export const builderAuditService = new BuilderAuditService();
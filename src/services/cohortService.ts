@@ -0,0 +1,295 @@
+/**
+ * Cohort service: `/ping-intro cohort` sends the intro flow to every member matching a set of
+ * filters (join date range, has/lacks a role, never completed the intro). Mods preview the
+ * count and confirm with a button; DMs then go out one by one through a rate-limited queue.
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    GuildMember,
+    GuildMemberRoleManager,
+} from 'discord.js';
+import crypto from 'crypto';
+import dotenv from 'dotenv';
+import { completionService } from './completionService.js';
+import { DAY_MS, DURATION, EMOJI, LIMITS } from '../utils/constants.js';
+import { formatNumber } from '../utils/formatting.js';
+
+dotenv.config();
+
+const { MOD_ROLE_ID } = process.env as Record<string, string | undefined>;
+
+const INTRO_FORM_ID = 'intro';
+// Progress is written back to the mod every this many members
+const PROGRESS_EVERY = 25;
+
+export interface CohortFilter {
+    joinedAfter?: number;
+    joinedBefore?: number;
+    hasRoleId?: string;
+    lacksRoleId?: string;
+    noIntro: boolean;
+}
+
+export interface CohortCandidate {
+    bot: boolean;
+    joinedTimestamp: number | null;
+    roleIds: string[];
+    completedIntro: boolean;
+}
+
+export type IntroFlowResult = 'sent' | 'fallback' | 'failed';
+
+/**
+ * Sends the intro flow to one member; reports whether the DM (or its fallback thread) went out
+ */
+export type StartIntroFlow = (guildId: string, userId: string) => Promise<IntroFlowResult>;
+
+interface PendingCohort {
+    id: string;
+    guildId: string;
+    requestedBy: string;
+    filter: CohortFilter;
+    userIds: string[];
+    createdAt: number;
+}
+
+interface CohortReport {
+    sent: number;
+    fallback: number;
+    failed: number;
+    skipped: number;
+}
+
+/**
+ * Whether a member belongs to the cohort. Bots never do.
+ */
+export function matchesCohort(candidate: CohortCandidate, filter: CohortFilter): boolean {
+    if (candidate.bot) return false;
+
+    if (filter.joinedAfter !== undefined || filter.joinedBefore !== undefined) {
+        if (candidate.joinedTimestamp === null) return false;
+        if (filter.joinedAfter !== undefined && candidate.joinedTimestamp < filter.joinedAfter) return false;
+        if (filter.joinedBefore !== undefined && candidate.joinedTimestamp > filter.joinedBefore) return false;
+    }
+
+    if (filter.hasRoleId && !candidate.roleIds.includes(filter.hasRoleId)) return false;
+    if (filter.lacksRoleId && candidate.roleIds.includes(filter.lacksRoleId)) return false;
+    if (filter.noIntro && candidate.completedIntro) return false;
+
+    return true;
+}
+
+/**
+ * One-line summary of the filters, e.g. "joined in the last 14 days · without @Dodo Builder"
+ */
+export function describeCohort(filter: CohortFilter, now: number = Date.now()): string {
+    const parts: string[] = [];
+    const daysAgo = (timestamp: number) => Math.round((now - timestamp) / DAY_MS);
+
+    if (filter.joinedAfter !== undefined && filter.joinedBefore !== undefined) {
+        parts.push(`joined ${daysAgo(filter.joinedBefore)}-${daysAgo(filter.joinedAfter)} days ago`);
+    } else if (filter.joinedAfter !== undefined) {
+        parts.push(`joined in the last ${daysAgo(filter.joinedAfter)} days`);
+    } else if (filter.joinedBefore !== undefined) {
+        parts.push(`joined more than ${daysAgo(filter.joinedBefore)} days ago`);
+    }
+    if (filter.hasRoleId) parts.push(`with <@&${filter.hasRoleId}>`);
+    if (filter.lacksRoleId) parts.push(`without <@&${filter.lacksRoleId}>`);
+    if (filter.noIntro) parts.push('never completed the intro');
+
+    return parts.join(' · ');
+}
+
+class CohortService {
+    private pending = new Map<string, PendingCohort>();
+    // Every cohort shares one queue so parallel runs can't multiply the DM rate
+    private queueTail: Promise<void> = Promise.resolve();
+
+    private isMod(interaction: ChatInputCommandInteraction | ButtonInteraction): boolean {
+        const roles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        return Boolean(MOD_ROLE_ID && roles?.cache.has(MOD_ROLE_ID));
+    }
+
+    private async toCandidate(guildId: string, member: GuildMember, checkIntro: boolean): Promise<CohortCandidate> {
+        const completions = checkIntro ? await completionService.getCompletions(guildId, member.id) : null;
+        return {
+            bot: member.user.bot,
+            joinedTimestamp: member.joinedTimestamp,
+            roleIds: [...member.roles.cache.keys()],
+            completedIntro: completions?.completions.includes(INTRO_FORM_ID) ?? false,
+        };
+    }
+
+    /**
+     * Run a task in the shared DM queue, waiting the configured gap after it
+     */
+    private enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const run = this.queueTail.then(task);
+        this.queueTail = run
+            .catch(() => undefined)
+            .then(() => new Promise<void>(resolve => setTimeout(resolve, DURATION.COHORT_DM_INTERVAL_MS)));
+        return run;
+    }
+
+    private readFilter(interaction: ChatInputCommandInteraction): CohortFilter {
+        const now = Date.now();
+        const sinceDays = interaction.options.getInteger('joined_since_days');
+        const untilDays = interaction.options.getInteger('joined_until_days');
+
+        return {
+            joinedAfter: sinceDays !== null ? now - sinceDays * DAY_MS : undefined,
+            joinedBefore: untilDays !== null ? now - untilDays * DAY_MS : undefined,
+            hasRoleId: interaction.options.getRole('has_role')?.id,
+            lacksRoleId: interaction.options.getRole('lacks_role')?.id,
+            noIntro: interaction.options.getBoolean('no_intro') ?? false,
+        };
+    }
+
+    private buildConfirmButtons(id: string): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder().setCustomId(`ping_cohort|confirm|${id}`).setLabel('Send intro DMs').setStyle(ButtonStyle.Primary),
+            new ButtonBuilder().setCustomId(`ping_cohort|cancel|${id}`).setLabel('Cancel').setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    /**
+     * `/ping-intro cohort`: resolve the cohort and show a preview with a confirm button
+     */
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        if (!interaction.guild) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const filter = this.readFilter(interaction);
+        const description = describeCohort(filter);
+        if (!description) {
+            await interaction.reply({ content: 'Pick at least one filter so the cohort is not the whole server.', ephemeral: true });
+            return;
+        }
+        if (filter.joinedAfter !== undefined && filter.joinedBefore !== undefined && filter.joinedAfter > filter.joinedBefore) {
+            await interaction.reply({ content: '`joined_since_days` must be larger than `joined_until_days`.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const members = await interaction.guild.members.fetch();
+            const userIds: string[] = [];
+            for (const member of members.values()) {
+                if (matchesCohort(await this.toCandidate(interaction.guild.id, member, filter.noIntro), filter)) {
+                    userIds.push(member.id);
+                }
+            }
+
+            if (userIds.length === 0) {
+                await interaction.editReply({ content: `Nobody matches: ${description}.` });
+                return;
+            }
+
+            const id = crypto.randomBytes(6).toString('hex');
+            this.pending.set(id, { id, guildId: interaction.guild.id, requestedBy: interaction.user.id, filter, userIds, createdAt: Date.now() });
+
+            const sample = userIds.slice(0, LIMITS.COHORT_PREVIEW_MENTIONS).map(userId => `<@${userId}>`).join(', ');
+            const more = userIds.length > LIMITS.COHORT_PREVIEW_MENTIONS ? ` and ${formatNumber(userIds.length - LIMITS.COHORT_PREVIEW_MENTIONS)} more` : '';
+            await interaction.editReply({
+                content: `**${formatNumber(userIds.length)}** members match: ${description}.\n${sample}${more}\n\nSend them the intro DM?`,
+                components: [this.buildConfirmButtons(id)],
+                allowedMentions: { parse: [] },
+            });
+        } catch (error) {
+            console.error('[CohortService] Failed to build cohort:', error);
+            await interaction.editReply({ content: 'Failed to load the server members. Please try again later.' });
+        }
+    }
+
+    /**
+     * Handle `ping_cohort|confirm|<id>` and `ping_cohort|cancel|<id>` on the preview
+     */
+    public async handleButton(interaction: ButtonInteraction, startIntroFlow: StartIntroFlow) {
+        const [, action, id] = interaction.customId.split('|');
+        const cohort = this.pending.get(id);
+
+        if (!cohort || Date.now() - cohort.createdAt > DURATION.COHORT_PREVIEW_TTL_MS) {
+            this.pending.delete(id);
+            await interaction.update({ content: 'This preview expired. Run `/ping-intro cohort` again.', components: [] });
+            return;
+        }
+        if (interaction.user.id !== cohort.requestedBy || !this.isMod(interaction)) {
+            await interaction.reply({ content: 'Only the moderator who ran this preview can confirm it.', ephemeral: true });
+            return;
+        }
+
+        this.pending.delete(id);
+        if (action === 'cancel') {
+            await interaction.update({ content: 'Cancelled, no DMs were sent.', components: [] });
+            return;
+        }
+
+        const total = cohort.userIds.length;
+        await interaction.update({ content: `${EMOJI.LOADING} Sending intro DMs to ${formatNumber(total)} members...`, components: [] });
+        console.log(`[CohortService] ${interaction.user.tag} is pinging ${total} members (${describeCohort(cohort.filter)})`);
+
+        const report = await this.send(interaction, cohort, startIntroFlow);
+        const summary = this.formatReport(cohort, report);
+        console.log(`[CohortService] Cohort ${cohort.id} finished: ${JSON.stringify(report)}`);
+
+        // The interaction token is only valid for 15 minutes; big cohorts get the report by DM
+        try {
+            await interaction.editReply({ content: summary });
+        } catch {
+            await interaction.user.send({ content: summary }).catch(error =>
+                console.warn(`[CohortService] Could not deliver the cohort report to ${interaction.user.id}:`, error));
+        }
+    }
+
+    private async send(interaction: ButtonInteraction, cohort: PendingCohort, startIntroFlow: StartIntroFlow): Promise<CohortReport> {
+        const report: CohortReport = { sent: 0, fallback: 0, failed: 0, skipped: 0 };
+        const guild = await interaction.client.guilds.fetch(cohort.guildId);
+
+        for (const [index, userId] of cohort.userIds.entries()) {
+            // Re-check at send time: members may have left or finished the intro since the preview
+            const member = await guild.members.fetch(userId).catch(() => null);
+            if (!member || !matchesCohort(await this.toCandidate(cohort.guildId, member, cohort.filter.noIntro), cohort.filter)) {
+                report.skipped++;
+            } else {
+                const result = await this.enqueue(() => startIntroFlow(cohort.guildId, userId));
+                if (result === 'sent') report.sent++;
+                else if (result === 'fallback') report.fallback++;
+                else report.failed++;
+            }
+
+            if ((index + 1) % PROGRESS_EVERY === 0 && index + 1 < cohort.userIds.length) {
+                await interaction.editReply({
+                    content: `${EMOJI.LOADING} Sending intro DMs... ${formatNumber(index + 1)}/${formatNumber(cohort.userIds.length)}`,
+                }).catch(() => undefined);
+            }
+        }
+
+        return report;
+    }
+
+    private formatReport(cohort: PendingCohort, report: CohortReport): string {
+        const lines = [
+            `${EMOJI.CHECK} Intro DMs for ${describeCohort(cohort.filter)} finished.`,
+            `• Sent: **${formatNumber(report.sent)}**`,
+            `• Failed: **${formatNumber(report.failed + report.fallback)}**` +
+                (report.fallback > 0 ? ` (${formatNumber(report.fallback)} got a private thread in the welcome channel instead)` : ''),
+            `• Skipped: **${formatNumber(report.skipped)}** (left the server or no longer match)`,
+        ];
+        return lines.join('\n');
+    }
+}
+
+export const cohortService = new CohortService();
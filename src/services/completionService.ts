@@ -0,0 +1,74 @@
+/**
+ * Completion service: persists which onboarding forms each member has submitted
+ */
+
+import { storageService } from './storageService.js';
+import { formService } from './formService.js';
+
+export interface CompletionRecord {
+    guildId: string;
+    userId: string;
+    completions: string[]; // Form ids, e.g. 'intro', 'working'
+    createdAt: number;
+    updatedAt: number;
+}
+
+class CompletionService {
+    private records = storageService.collection<CompletionRecord>('completions');
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
+
+    /**
+     * Get the completion record for a member (null if they have never submitted a form)
+     */
+    async getCompletions(guildId: string, userId: string): Promise<CompletionRecord | null> {
+        return this.records.get(this.key(guildId, userId));
+    }
+
+    /**
+     * Record that a member submitted a form. Completions never expire.
+     */
+    async addCompletion(guildId: string, userId: string, formId: string): Promise<CompletionRecord> {
+        const now = Date.now();
+        const record: CompletionRecord = await this.getCompletions(guildId, userId) ?? {
+            guildId,
+            userId,
+            completions: [],
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        if (!record.completions.includes(formId)) {
+            record.completions.push(formId);
+        }
+        record.updatedAt = now;
+
+        await this.records.set(this.key(guildId, userId), record);
+        return record;
+    }
+
+    /**
+     * Forget a single form completion (e.g. the member withdrew that post)
+     */
+    async removeCompletion(guildId: string, userId: string, formId: string): Promise<void> {
+        const record = await this.getCompletions(guildId, userId);
+        if (!record || !record.completions.includes(formId)) return;
+
+        record.completions = record.completions.filter(id => id !== formId);
+        record.updatedAt = Date.now();
+        await this.records.set(this.key(guildId, userId), record);
+    }
+
+    /**
+     * True when the member satisfies every builder requirement from the forms config
+     * (by default: the intro AND at least one project form)
+     */
+    async hasCompletedOnboarding(guildId: string, userId: string): Promise<boolean> {
+        const record = await this.getCompletions(guildId, userId);
+        return formService.isBuilderComplete(record?.completions ?? []);
+    }
+}
+
+export const completionService = new CompletionService();
@@ -0,0 +1,304 @@
+/**
+ * Digest service: posts a weekly community digest with the week's new introductions,
+ * projects and showcases, the busiest project threads and the help threads resolved.
+ * Mods can preview or post it on demand with /digest.
+ *
+ * DIGEST_CHANNEL_ID = Channel the digest is posted in (default: GENERAL_CHANNEL_ID)
+ * DIGEST_SCHEDULE   = Cron expression for the weekly post (default: Fridays at 16:00), "off" disables it
+ * DIGEST_TIMEZONE   = IANA timezone the schedule runs in (default: the server's timezone)
+ */
+
+import cron from 'node-cron';
+import {
+    ChatInputCommandInteraction,
+    Client,
+    EmbedBuilder,
+    GuildMemberRoleManager,
+    SnowflakeUtil,
+    TextChannel,
+    ThreadChannel,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { postService, PostRecord } from './postService.js';
+import { projectService, ProjectRecord } from './projectService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { DAY_MS, DURATION, EMOJI, LIMITS } from '../utils/constants.js';
+import { buildChannelUrl, buildMessageUrl, formatNumber, truncate } from '../utils/formatting.js';
+
+dotenv.config();
+
+const CONFIG = {
+    CHANNEL_ID: process.env.DIGEST_CHANNEL_ID || process.env.GENERAL_CHANNEL_ID,
+    SCHEDULE: process.env.DIGEST_SCHEDULE || DURATION.DIGEST_SCHEDULE,
+    TIMEZONE: process.env.DIGEST_TIMEZONE,
+    MOD_ROLE_ID: process.env.MOD_ROLE_ID,
+};
+
+const INTRO_FORM_ID = 'intro';
+const SHOWCASE_FORM_ID = 'showcase';
+
+export interface ResolvedThread {
+    guildId: string;
+    threadId: string;
+    name: string;
+    resolvedBy: string;
+    resolvedAt: number;
+    // From thread creation to resolution (missing on older records)
+    timeToResolutionMs?: number;
+}
+
+export interface BusyThread {
+    project: ProjectRecord;
+    replies: number;
+}
+
+export interface WeekSummary {
+    intros: PostRecord[];
+    projects: ProjectRecord[];
+    showcases: ProjectRecord[];
+    resolved: ResolvedThread[];
+}
+
+/**
+ * Pick the records of one guild created since `since`, oldest first
+ */
+export function summarizeWeek(
+    data: { posts: PostRecord[]; projects: ProjectRecord[]; resolved: ResolvedThread[] },
+    since: number
+): WeekSummary {
+    const byAge = <T extends { createdAt: number }>(a: T, b: T) => a.createdAt - b.createdAt;
+    const newProjects = data.projects.filter(project => project.createdAt >= since).sort(byAge);
+
+    return {
+        intros: data.posts.filter(post => post.formId === INTRO_FORM_ID && post.createdAt >= since).sort(byAge),
+        projects: newProjects.filter(project => project.formId !== SHOWCASE_FORM_ID),
+        showcases: newProjects.filter(project => project.formId === SHOWCASE_FORM_ID),
+        resolved: data.resolved.filter(thread => thread.resolvedAt >= since).sort((a, b) => a.resolvedAt - b.resolvedAt),
+    };
+}
+
+/**
+ * One line per entry, capped at LIMITS.DIGEST_LIST_MAX with an "and N more" tail
+ */
+function formatList<T>(items: T[], format: (item: T) => string, empty: string): string {
+    if (items.length === 0) return empty;
+
+    const lines = items.slice(0, LIMITS.DIGEST_LIST_MAX).map(format);
+    if (items.length > LIMITS.DIGEST_LIST_MAX) {
+        lines.push(`…and ${formatNumber(items.length - LIMITS.DIGEST_LIST_MAX)} more`);
+    }
+    return truncate(lines.join('\n'), LIMITS.EMBED_FIELD_VALUE_MAX);
+}
+
+/**
+ * The digest embed for a week's summary and its busiest project threads
+ */
+export function buildDigestEmbed(guildId: string, summary: WeekSummary, busiest: BusyThread[], since: number): EmbedBuilder {
+    const projectLine = (project: ProjectRecord) =>
+        `[${truncate(project.name || 'Untitled project', LIMITS.MAX_PROJECT_NAME_LENGTH)}](${buildChannelUrl(guildId, project.threadId)}) by <@${project.ownerId}>`;
+
+    return createBaseEmbed()
+        .setTitle(`${EMOJI.NEWSPAPER} This week in the community`)
+        .setDescription(`Everything that happened since <t:${Math.floor(since / 1000)}:D>.`)
+        .addFields(
+            {
+                name: `${EMOJI.WAVE} New introductions (${summary.intros.length})`,
+                value: formatList(
+                    summary.intros,
+                    post => `<@${post.userId}> · [say hi](${buildMessageUrl(guildId, post.channelId, post.messageId)})`,
+                    'No new introductions this week.'
+                ),
+            },
+            {
+                name: `${EMOJI.WORKING} New projects (${summary.projects.length})`,
+                value: formatList(summary.projects, projectLine, 'No new projects this week.'),
+            },
+            {
+                name: `${EMOJI.ROCKET} Showcases (${summary.showcases.length})`,
+                value: formatList(summary.showcases, projectLine, 'No showcases this week.'),
+            },
+            {
+                name: `${EMOJI.FIRE} Busiest project threads`,
+                value: formatList(
+                    busiest,
+                    ({ project, replies }) => `${projectLine(project)} · ${formatNumber(replies)} ${replies === 1 ? 'reply' : 'replies'}`,
+                    'No project discussions this week.'
+                ),
+            },
+            {
+                name: `${EMOJI.CHECK} Help threads resolved (${summary.resolved.length})`,
+                value: formatList(
+                    summary.resolved,
+                    thread => `[${truncate(thread.name, LIMITS.MAX_THREAD_TITLE_LENGTH)}](${buildChannelUrl(guildId, thread.threadId)})`,
+                    'No help threads resolved this week.'
+                ),
+            }
+        );
+}
+
+class DigestService {
+    private client: Client | null = null;
+    private cronJob: cron.ScheduledTask | null = null;
+    // Keyed by thread id: a thread counts once however often it is marked resolved
+    private resolved = storageService.collection<ResolvedThread>('resolved_threads');
+
+    initialize(client: Client): void {
+        this.client = client;
+
+        if (!CONFIG.CHANNEL_ID || CONFIG.SCHEDULE === 'off') {
+            console.log('Weekly digest schedule is off.');
+            return;
+        }
+        if (!cron.validate(CONFIG.SCHEDULE)) {
+            console.warn(`[DigestService] Invalid DIGEST_SCHEDULE "${CONFIG.SCHEDULE}". Weekly digest disabled.`);
+            return;
+        }
+
+        this.cronJob = cron.schedule(CONFIG.SCHEDULE, async () => {
+            await this.postDigest();
+        }, CONFIG.TIMEZONE ? { timezone: CONFIG.TIMEZONE } : undefined);
+
+        console.log(`✅ Digest service initialized (${CONFIG.SCHEDULE}${CONFIG.TIMEZONE ? ` ${CONFIG.TIMEZONE}` : ''})`);
+    }
+
+    /**
+     * Remember a help thread marked as resolved, for the weekly digest
+     */
+    async recordResolved(thread: ThreadChannel, userId: string, timeToResolutionMs?: number): Promise<void> {
+        try {
+            await this.resolved.set(thread.id, {
+                guildId: thread.guildId,
+                threadId: thread.id,
+                name: thread.name,
+                resolvedBy: userId,
+                resolvedAt: Date.now(),
+                timeToResolutionMs,
+            });
+        } catch (error) {
+            console.error(`[DigestService] Failed to record resolved thread ${thread.id}:`, error);
+        }
+    }
+
+    /**
+     * Drop a thread that was reopened, so the digest doesn't count it as resolved
+     */
+    async forgetResolved(threadId: string): Promise<void> {
+        try {
+            await this.resolved.delete(threadId);
+        } catch (error) {
+            console.error(`[DigestService] Failed to forget resolved thread ${threadId}:`, error);
+        }
+    }
+
+    /**
+     * Human replies in each project thread since `since`, busiest first
+     */
+    private async getBusiestThreads(client: Client, projects: ProjectRecord[], since: number): Promise<BusyThread[]> {
+        const after = SnowflakeUtil.generate({ timestamp: since }).toString();
+        const busy: BusyThread[] = [];
+
+        for (const project of projects) {
+            try {
+                const thread = await client.channels.fetch(project.threadId);
+                if (!thread?.isThread() || !thread.lastMessageId) continue;
+                // Skip threads without a message this week before fetching their history
+                if (SnowflakeUtil.timestampFrom(thread.lastMessageId) < since) continue;
+
+                const messages = await thread.messages.fetch({ after, limit: 100 });
+                const replies = messages.filter(message => !message.author.bot && !message.system && message.id !== thread.id).size;
+                if (replies > 0) busy.push({ project, replies });
+            } catch (error) {
+                console.warn(`[DigestService] Could not count replies in project thread ${project.threadId}:`, error);
+            }
+        }
+
+        return busy
+            .sort((a, b) => b.replies - a.replies)
+            .slice(0, LIMITS.DIGEST_BUSIEST_THREADS);
+    }
+
+    /**
+     * Build the digest for the last DURATION.DIGEST_PERIOD_DAYS days of a guild
+     */
+    async buildDigest(client: Client, guildId: string): Promise<EmbedBuilder> {
+        const since = Date.now() - DURATION.DIGEST_PERIOD_DAYS * DAY_MS;
+        const projects = await projectService.getProjectsForGuild(guildId);
+        const resolved = (await this.resolved.all()).filter(thread => thread.guildId === guildId);
+
+        const summary = summarizeWeek({ posts: await postService.getPostsForGuild(guildId), projects, resolved }, since);
+        const busiest = await this.getBusiestThreads(client, projects, since);
+        return buildDigestEmbed(guildId, summary, busiest, since);
+    }
+
+    /**
+     * Post the digest in the digest channel. Returns the channel it was posted in, or null on failure.
+     */
+    async postDigest(): Promise<TextChannel | null> {
+        if (!this.client || !CONFIG.CHANNEL_ID) return null;
+
+        try {
+            const channel = await this.client.channels.fetch(CONFIG.CHANNEL_ID);
+            if (!(channel instanceof TextChannel)) {
+                console.error(`[DigestService] Digest channel ${CONFIG.CHANNEL_ID} not found or is not a text channel.`);
+                return null;
+            }
+
+            const embed = await this.buildDigest(this.client, channel.guildId);
+            await channel.send({ embeds: [embed] });
+            console.log(`[DigestService] Posted the weekly digest in #${channel.name}`);
+            return channel;
+        } catch (error) {
+            console.error('[DigestService] Failed to post the weekly digest:', error);
+            return null;
+        }
+    }
+
+    // ==================== /digest ====================
+
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        const memberRoles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        if (!CONFIG.MOD_ROLE_ID || !memberRoles?.cache.has(CONFIG.MOD_ROLE_ID)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        if (interaction.options.getSubcommand() === 'post') {
+            const channel = await this.postDigest();
+            await interaction.editReply({
+                content: channel
+                    ? `${EMOJI.CHECK} Digest posted in <#${channel.id}>.`
+                    : 'Failed to post the digest. Check that DIGEST_CHANNEL_ID points to a text channel.',
+            });
+            return;
+        }
+
+        try {
+            const embed = await this.buildDigest(interaction.client, interaction.guildId);
+            await interaction.editReply({
+                content: CONFIG.CHANNEL_ID
+                    ? `${EMOJI.EYES} Preview of the digest for <#${CONFIG.CHANNEL_ID}>:`
+                    : `${EMOJI.EYES} Preview of the digest (no digest channel is configured):`,
+                embeds: [embed],
+            });
+        } catch (error) {
+            console.error('[DigestService] Failed to build the digest preview:', error);
+            await interaction.editReply({ content: 'Failed to build the digest. Please try again later.' });
+        }
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const digestService = new DigestService();
@@ -0,0 +1,195 @@
+/**
+ * DM fallback service: when a member's DMs are closed, onboarding happens in a private
+ * thread in the welcome channel instead. The thread is archived once the member finishes
+ * and deleted shortly after (or after a timeout if they never do).
+ *
+ * WELCOME_CHANNEL_ID        = Text channel that hosts the private threads (feature is off when unset)
+ * FALLBACK_THREAD_TTL_HOURS = Delete unfinished threads after this many hours (default: 168)
+ */
+
+import cron from 'node-cron';
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ChannelType,
+    Client,
+    EmbedBuilder,
+    TextChannel,
+    ThreadAutoArchiveDuration,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { DURATION } from '../utils/constants.js';
+
+dotenv.config();
+
+const CONFIG = {
+    WELCOME_CHANNEL_ID: process.env.WELCOME_CHANNEL_ID,
+    THREAD_TTL_MS: Number(process.env.FALLBACK_THREAD_TTL_HOURS || 168) * 60 * 60 * 1000,
+    // How long a finished thread stays archived before it is deleted
+    CLOSE_GRACE_MS: 60 * 60 * 1000,
+};
+
+interface FallbackThread {
+    guildId: string;
+    userId: string;
+    threadId: string;
+    createdAt: number;
+    closedAt?: number;
+}
+
+class DmFallbackService {
+    private client: Client | null = null;
+    private cronJob: cron.ScheduledTask | null = null;
+    private threads = storageService.collection<FallbackThread>('fallback_threads');
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
+
+    initialize(client: Client): void {
+        this.client = client;
+
+        if (!CONFIG.WELCOME_CHANNEL_ID) {
+            console.warn('[DmFallbackService] WELCOME_CHANNEL_ID is not set. Closed-DM fallback disabled.');
+            return;
+        }
+
+        this.cronJob = cron.schedule(DURATION.FALLBACK_THREAD_CHECK_INTERVAL, async () => {
+            await this.cleanupThreads();
+        });
+
+        console.log('✅ DM fallback service initialized');
+    }
+
+    /**
+     * Open (or reuse) a private onboarding thread for a member whose DMs are closed.
+     * Returns false when the fallback is disabled or the thread could not be created.
+     */
+    async openThread(guildId: string, userId: string, embed: EmbedBuilder, rows: ActionRowBuilder<ButtonBuilder>[]): Promise<boolean> {
+        if (!this.client || !CONFIG.WELCOME_CHANNEL_ID) return false;
+
+        try {
+            const existing = await this.threads.get(this.key(guildId, userId));
+            if (existing && !existing.closedAt) {
+                return await this.sendToThread(guildId, userId, { content: `<@${userId}>`, embeds: [embed], components: rows });
+            }
+
+            const channel = await this.client.channels.fetch(CONFIG.WELCOME_CHANNEL_ID);
+            if (!channel || !(channel instanceof TextChannel)) {
+                console.warn(`[DmFallbackService] Welcome channel ${CONFIG.WELCOME_CHANNEL_ID} not found or is not a text channel.`);
+                return false;
+            }
+
+            const member = await channel.guild.members.fetch(userId);
+            const thread = await channel.threads.create({
+                name: `Welcome, ${member.displayName}`.slice(0, 100),
+                type: ChannelType.PrivateThread,
+                invitable: false,
+                autoArchiveDuration: ThreadAutoArchiveDuration.OneWeek,
+                reason: 'Onboarding fallback: member has DMs closed',
+            });
+            await thread.members.add(userId);
+
+            await thread.send({
+                content: `<@${userId}> we couldn't DM you, so here's your private welcome space. Only you and the mods can see this thread.`,
+                embeds: [embed],
+                components: rows,
+            });
+
+            await this.threads.set(this.key(guildId, userId), {
+                guildId,
+                userId,
+                threadId: thread.id,
+                createdAt: Date.now(),
+            });
+
+            console.log(`[DmFallbackService] Opened private onboarding thread ${thread.id} for user ${userId}`);
+            return true;
+        } catch (error) {
+            console.error(`[DmFallbackService] Failed to open fallback thread for user ${userId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Post into the member's open fallback thread (used e.g. for reminders). False if there is none.
+     */
+    async sendToThread(guildId: string, userId: string, payload: { content?: string; embeds?: EmbedBuilder[]; components?: ActionRowBuilder<ButtonBuilder>[] }): Promise<boolean> {
+        if (!this.client) return false;
+
+        const record = await this.threads.get(this.key(guildId, userId));
+        if (!record || record.closedAt) return false;
+
+        try {
+            const thread = await this.client.channels.fetch(record.threadId);
+            if (!thread?.isThread()) return false;
+            if (thread.archived) await thread.setArchived(false);
+            await thread.send(payload);
+            return true;
+        } catch (error) {
+            console.warn(`[DmFallbackService] Could not post to fallback thread of user ${userId}:`, error);
+            return false;
+        }
+    }
+
+    /**
+     * Archive the member's thread once they are done; it is deleted after a short grace period
+     */
+    async closeThread(guildId: string, userId: string): Promise<void> {
+        if (!this.client) return;
+
+        const record = await this.threads.get(this.key(guildId, userId));
+        if (!record || record.closedAt) return;
+
+        try {
+            const thread = await this.client.channels.fetch(record.threadId);
+            if (thread?.isThread()) {
+                await thread.send("You're all set! 🎉 This thread will be removed shortly.");
+                await thread.setLocked(true);
+                await thread.setArchived(true);
+            }
+        } catch (error) {
+            console.warn(`[DmFallbackService] Could not archive fallback thread of user ${userId}:`, error);
+        }
+
+        record.closedAt = Date.now();
+        await this.threads.set(this.key(guildId, userId), record);
+    }
+
+    /**
+     * Delete threads that were closed past the grace period or have been open past the timeout
+     */
+    private async cleanupThreads(): Promise<void> {
+        if (!this.client) return;
+
+        const now = Date.now();
+        for (const record of await this.threads.all()) {
+            const expired = record.closedAt
+                ? now - record.closedAt > CONFIG.CLOSE_GRACE_MS
+                : now - record.createdAt > CONFIG.THREAD_TTL_MS;
+            if (!expired) continue;
+
+            try {
+                const thread = await this.client.channels.fetch(record.threadId).catch(() => null);
+                if (thread?.isThread()) {
+                    await thread.delete(record.closedAt ? 'Onboarding finished' : 'Onboarding fallback thread timed out');
+                }
+            } catch (error) {
+                console.warn(`[DmFallbackService] Failed to delete fallback thread ${record.threadId}:`, error);
+                continue;
+            }
+
+            await this.threads.delete(this.key(record.guildId, record.userId));
+            console.log(`[DmFallbackService] Removed fallback thread ${record.threadId} for user ${record.userId}`);
+        }
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const dmFallbackService = new DmFallbackService();
@@ -0,0 +1,292 @@
+/**
+ * FAQ service: a local knowledge base of question variants, answers and doc links, managed with /faq.
+ * Entries are ranked with BM25 over their question variants. The support bot answers close matches
+ * instantly without calling its answer provider, and shows the best hits when the provider fails.
+ *
+ * FAQ_MIN_CONFIDENCE = Match quality (0-1) needed to answer instantly (default: 0.7)
+ */
+
+import crypto from 'crypto';
+import {
+    ActionRowBuilder,
+    AutocompleteInteraction,
+    ChatInputCommandInteraction,
+    GuildMemberRoleManager,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { Bm25Index } from '../utils/bm25.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { EMOJI, LIMITS } from '../utils/constants.js';
+import { truncate } from '../utils/formatting.js';
+
+dotenv.config();
+
+const CONFIG = {
+    MIN_CONFIDENCE: Number(process.env.FAQ_MIN_CONFIDENCE || 0.7),
+    MOD_ROLE_ID: process.env.MOD_ROLE_ID,
+};
+
+const MAX_QUESTIONS_LENGTH = 1000;
+const MAX_ANSWER_LENGTH = 1500;
+const MAX_LINKS_LENGTH = 500;
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+
+export interface FaqEntry {
+    id: string;
+    // Ways people ask this question; the first one is the title
+    questions: string[];
+    answer: string;
+    links: string[];
+    updatedBy: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface FaqMatch {
+    entry: FaqEntry;
+    score: number;
+    // How closely the question matches the best variant (0-1)
+    confidence: number;
+}
+
+/**
+ * One non-empty trimmed value per line
+ */
+export function parseLines(text: string): string[] {
+    return text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Rank entries for a question: best variant per entry, highest BM25 score first
+ */
+export function rankEntries(entries: FaqEntry[], question: string): FaqMatch[] {
+    const index = new Bm25Index(entries.flatMap(entry =>
+        entry.questions.map((text, i) => ({ id: `${entry.id}#${i}`, text }))
+    ));
+    const byId = new Map(entries.map(entry => [entry.id, entry]));
+
+    const matches = new Map<string, FaqMatch>();
+    for (const hit of index.search(question)) {
+        const entry = byId.get(hit.id.slice(0, hit.id.lastIndexOf('#')));
+        if (!entry) continue;
+
+        const confidence = index.overlap(question, hit.id);
+        const existing = matches.get(entry.id);
+        if (!existing) {
+            matches.set(entry.id, { entry, score: hit.score, confidence });
+        } else {
+            existing.confidence = Math.max(existing.confidence, confidence);
+        }
+    }
+    return [...matches.values()];
+}
+
+class FaqService {
+    private entries = new Map<string, FaqEntry>();
+    private store = storageService.collection<FaqEntry>('faq');
+
+    /**
+     * Load the entries from storage. Call once storage is initialized.
+     */
+    async initialize(): Promise<void> {
+        for (const entry of await this.store.all()) {
+            this.entries.set(entry.id, entry);
+        }
+        console.log(`✅ FAQ service initialized (${this.entries.size} entries)`);
+    }
+
+    getEntries(): FaqEntry[] {
+        return [...this.entries.values()].sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    /**
+     * The entry to answer with right away, when one matches the question closely enough
+     */
+    findInstantAnswer(question: string): FaqMatch | null {
+        const best = rankEntries(this.getEntries(), question)
+            .sort((a, b) => b.confidence - a.confidence)[0];
+        return best && best.confidence >= CONFIG.MIN_CONFIDENCE ? best : null;
+    }
+
+    /**
+     * The best entries for a question, e.g. to show when no other answer is available
+     */
+    search(question: string, limit: number = LIMITS.FAQ_FALLBACK_HITS): FaqMatch[] {
+        return rankEntries(this.getEntries(), question).slice(0, limit);
+    }
+
+    formatAnswer(entry: FaqEntry): string {
+        const links = entry.links.map(link => `${EMOJI.BOOK} <${link}>`);
+        return [entry.answer, ...(links.length > 0 ? ['', ...links] : [])].join('\n');
+    }
+
+    /**
+     * Short list of FAQ hits: question, trimmed answer and first link
+     */
+    formatHits(matches: FaqMatch[]): string {
+        return matches.map(({ entry }) => [
+            `**${entry.questions[0]}**`,
+            truncate(entry.answer, LIMITS.FAQ_HIT_ANSWER_LENGTH),
+            ...(entry.links[0] ? [`${EMOJI.BOOK} <${entry.links[0]}>`] : []),
+        ].join('\n')).join('\n\n');
+    }
+
+    // ==================== /faq ====================
+
+    private isMod(interaction: ChatInputCommandInteraction | ModalSubmitInteraction): boolean {
+        const roles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        return Boolean(CONFIG.MOD_ROLE_ID && roles?.cache.has(CONFIG.MOD_ROLE_ID));
+    }
+
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+        if (subcommand === 'list') {
+            await this.handleList(interaction);
+            return;
+        }
+        if (subcommand === 'add') {
+            await interaction.showModal(this.buildModal(null));
+            return;
+        }
+
+        const id = interaction.options.getString('id', true);
+        const entry = this.entries.get(id);
+        if (!entry) {
+            await interaction.reply({ content: `Unknown FAQ entry \`${id}\`. Use \`/faq list\` to see them all.`, ephemeral: true });
+            return;
+        }
+
+        if (subcommand === 'edit') {
+            await interaction.showModal(this.buildModal(entry));
+        } else if (subcommand === 'remove') {
+            await this.store.delete(id);
+            this.entries.delete(id);
+            console.log(`[FaqService] ${interaction.user.tag} removed FAQ entry ${id}`);
+            await interaction.reply({ content: `${EMOJI.CHECK} Removed **${entry.questions[0]}**.`, ephemeral: true });
+        }
+    }
+
+    private async handleList(interaction: ChatInputCommandInteraction) {
+        const entries = this.getEntries();
+        const lines = entries.map(entry =>
+            `\`${entry.id}\` **${entry.questions[0]}** (${entry.questions.length} variants, ${entry.links.length} links)`
+        );
+
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.BOOK} FAQ (${entries.length})`)
+            .setDescription(lines.length > 0
+                ? truncate(lines.join('\n'), LIMITS.EMBED_DESCRIPTION_MAX)
+                : 'No entries yet. Add one with `/faq add`.')
+            .setFooter({ text: `Instant answers need a ${Math.round(CONFIG.MIN_CONFIDENCE * 100)}% match` });
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    private buildModal(entry: FaqEntry | null): ModalBuilder {
+        const questions = new TextInputBuilder()
+            .setCustomId('questions')
+            .setLabel('Questions (one way of asking per line)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(MAX_QUESTIONS_LENGTH);
+        const answer = new TextInputBuilder()
+            .setCustomId('answer')
+            .setLabel('Answer')
+            .setStyle(TextInputStyle.Paragraph)
+            .setMaxLength(MAX_ANSWER_LENGTH);
+        const links = new TextInputBuilder()
+            .setCustomId('links')
+            .setLabel('Doc links (one per line)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(false)
+            .setMaxLength(MAX_LINKS_LENGTH);
+
+        if (entry) {
+            questions.setValue(entry.questions.join('\n').slice(0, MAX_QUESTIONS_LENGTH));
+            answer.setValue(entry.answer);
+            if (entry.links.length > 0) links.setValue(entry.links.join('\n'));
+        }
+
+        return new ModalBuilder()
+            .setCustomId(entry ? `faq_edit|${entry.id}` : 'faq_add')
+            .setTitle(entry ? truncate(`Edit FAQ: ${entry.questions[0]}`, 45) : 'Add FAQ entry')
+            .addComponents(
+                [questions, answer, links].map(input => new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input))
+            );
+    }
+
+    /**
+     * Handle the `faq_add` and `faq_edit|<id>` modals
+     */
+    public async handleModalSubmit(interaction: ModalSubmitInteraction) {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to edit the FAQ.', ephemeral: true });
+            return;
+        }
+
+        const editId = interaction.customId.startsWith('faq_edit|') ? interaction.customId.split('|')[1] : null;
+        const existing = editId ? this.entries.get(editId) : undefined;
+        if (editId && !existing) {
+            await interaction.reply({ content: 'This FAQ entry no longer exists.', ephemeral: true });
+            return;
+        }
+
+        const questions = parseLines(interaction.fields.getTextInputValue('questions'));
+        const answer = interaction.fields.getTextInputValue('answer').trim();
+        const links = parseLines(interaction.fields.getTextInputValue('links') ?? '');
+
+        const invalid = links.filter(link => !/^https?:\/\/\S+$/i.test(link));
+        if (questions.length === 0 || !answer || invalid.length > 0) {
+            await interaction.reply({
+                content: invalid.length > 0
+                    ? `${EMOJI.CROSS} Links must be full URLs: ${invalid.map(link => `\`${link}\``).join(', ')}`
+                    : `${EMOJI.CROSS} An entry needs at least one question and an answer.`,
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const now = Date.now();
+        const entry: FaqEntry = {
+            id: existing?.id ?? crypto.randomBytes(3).toString('hex'),
+            questions,
+            answer,
+            links,
+            updatedBy: interaction.user.id,
+            createdAt: existing?.createdAt ?? now,
+            updatedAt: now,
+        };
+        await this.store.set(entry.id, entry);
+        this.entries.set(entry.id, entry);
+
+        console.log(`[FaqService] ${interaction.user.tag} ${existing ? 'updated' : 'added'} FAQ entry ${entry.id}`);
+        await interaction.reply({
+            content: `${EMOJI.CHECK} ${existing ? 'Updated' : 'Added'} **${questions[0]}** (\`${entry.id}\`, ${questions.length} variants).`,
+            ephemeral: true,
+        });
+    }
+
+    /**
+     * Suggest entries for the `id` option by id or question
+     */
+    public async handleAutocomplete(interaction: AutocompleteInteraction) {
+        const query = interaction.options.getFocused().toLowerCase();
+        const choices = this.getEntries()
+            .filter(entry => entry.id.includes(query) || entry.questions.some(question => question.toLowerCase().includes(query)))
+            .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+            .map(entry => ({ name: truncate(`${entry.id} · ${entry.questions[0]}`, 100), value: entry.id }));
+        await interaction.respond(choices);
+    }
+}
+
+export const faqService = new FaqService();
@@ -0,0 +1,378 @@
+/**
+ * Form service: loads onboarding form definitions and builds their buttons, modals and embeds
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    EmbedBuilder,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { BuilderRequirement, DEFAULT_FORMS_CONFIG, FormDefinition, FormsConfig } from '../config/forms.js';
+import { fillTemplate, interpolateEnv, loadJsonConfig } from '../utils/config.js';
+import { DURATION, EMOJI, LIMITS } from '../utils/constants.js';
+import { signCustomId } from '../utils/customIds.js';
+import { LINK_LABELS, LINK_TYPES, parseLinks } from '../utils/links.js';
+import { DEFAULT_LOCALE, i18nService } from './i18nService.js';
+import { templateService } from './templateService.js';
+import { LocaleCode } from '../locales/types.js';
+
+dotenv.config();
+
+const FORMS_CONFIG_FILE = 'forms.json';
+
+// Discord modal limits
+const MAX_FIELDS_PER_MODAL = 5;
+const MAX_MODAL_TITLE_LENGTH = 45;
+const MAX_FIELD_LABEL_LENGTH = 45;
+const MAX_PLACEHOLDER_LENGTH = 100;
+const MAX_BUTTONS_PER_ROW = 5;
+const MAX_LINK_BUTTON_ROWS = 5;
+
+const BUTTON_STYLES: Record<FormDefinition['buttonStyle'], ButtonStyle> = {
+    primary: ButtonStyle.Primary,
+    secondary: ButtonStyle.Secondary,
+    success: ButtonStyle.Success,
+};
+
+/**
+ * Validate a forms config, throwing a descriptive error on the first problem found
+ */
+export function validateFormsConfig(config: FormsConfig): void {
+    if (!Array.isArray(config.forms) || config.forms.length === 0) {
+        throw new Error('Forms config must define at least one form');
+    }
+
+    const ids = new Set<string>();
+    for (const form of config.forms) {
+        if (!form.id || !/^[a-z0-9_-]+$/i.test(form.id)) {
+            throw new Error(`Form id "${form.id}" must only contain letters, numbers, "-" and "_"`);
+        }
+        if (form.id.length > LIMITS.FORM_ID_MAX_LENGTH) {
+            throw new Error(`Form id "${form.id}" must be at most ${LIMITS.FORM_ID_MAX_LENGTH} characters`);
+        }
+        if (ids.has(form.id)) {
+            throw new Error(`Duplicate form id "${form.id}"`);
+        }
+        ids.add(form.id);
+
+        if (!form.modalTitle || form.modalTitle.length > MAX_MODAL_TITLE_LENGTH) {
+            throw new Error(`Form "${form.id}" needs a modalTitle of at most ${MAX_MODAL_TITLE_LENGTH} characters`);
+        }
+        if (!form.channelId) {
+            throw new Error(`Form "${form.id}" needs a channelId`);
+        }
+        if (!Array.isArray(form.fields) || form.fields.length === 0 || form.fields.length > MAX_FIELDS_PER_MODAL) {
+            throw new Error(`Form "${form.id}" must have between 1 and ${MAX_FIELDS_PER_MODAL} fields`);
+        }
+        if (!form.embed?.variations?.length) {
+            throw new Error(`Form "${form.id}" needs at least one embed variation`);
+        }
+
+        const fieldIds = new Set<string>();
+        for (const field of form.fields) {
+            if (!field.id || fieldIds.has(field.id)) {
+                throw new Error(`Form "${form.id}" has a missing or duplicate field id "${field.id}"`);
+            }
+            fieldIds.add(field.id);
+
+            if (!field.label || field.label.length > MAX_FIELD_LABEL_LENGTH) {
+                throw new Error(`Field "${form.id}.${field.id}" needs a label of at most ${MAX_FIELD_LABEL_LENGTH} characters`);
+            }
+            if (field.placeholder && field.placeholder.length > MAX_PLACEHOLDER_LENGTH) {
+                throw new Error(`Field "${form.id}.${field.id}" placeholder exceeds ${MAX_PLACEHOLDER_LENGTH} characters`);
+            }
+            const unknownLinkTypes = (field.links ?? []).filter(type => !LINK_TYPES.includes(type));
+            if (unknownLinkTypes.length > 0) {
+                throw new Error(`Field "${form.id}.${field.id}" has unknown link types: ${unknownLinkTypes.join(', ')} (use ${LINK_TYPES.join(', ')})`);
+            }
+        }
+
+        if (form.project) {
+            if (!form.thread) {
+                throw new Error(`Form "${form.id}" registers projects, so it needs a thread`);
+            }
+            for (const fieldId of [form.project.nameField, form.project.descriptionField]) {
+                if (!fieldIds.has(fieldId)) {
+                    throw new Error(`Form "${form.id}" project mapping references unknown field "${fieldId}"`);
+                }
+            }
+        }
+    }
+
+    for (const form of config.forms) {
+        const launchFormId = form.project?.launchFormId;
+        if (launchFormId && !config.forms.find(other => other.id === launchFormId)?.project) {
+            throw new Error(`Form "${form.id}" launches into "${launchFormId}", which must be a form with a project mapping`);
+        }
+    }
+
+    for (const requirement of config.builderRequirements ?? []) {
+        const unknown = requirement.forms.filter(id => !ids.has(id));
+        if (unknown.length > 0) {
+            throw new Error(`Builder requirement "${requirement.label}" references unknown forms: ${unknown.join(', ')}`);
+        }
+    }
+}
+
+class FormService {
+    private config: FormsConfig;
+
+    constructor() {
+        const override = loadJsonConfig<FormsConfig>(FORMS_CONFIG_FILE);
+        this.config = override ?? DEFAULT_FORMS_CONFIG;
+        validateFormsConfig(this.config);
+
+        if (override) {
+            console.log(`Loaded ${this.config.forms.length} onboarding forms from configs/${FORMS_CONFIG_FILE}`);
+        }
+
+        this.registerTemplates();
+    }
+
+    /**
+     * Make each form's embed wording editable with /template (form.<id>.heading/section/footer/body).
+     * The heading decides how many variations a form has; section and footer follow its index.
+     */
+    private registerTemplates(): void {
+        for (const form of this.config.forms) {
+            const placeholders = Object.fromEntries(form.fields.map(field => [field.id, `[${field.label}]`]));
+            const { variations, body } = form.embed;
+            const parts: Array<[string, string[]]> = [
+                ['heading', variations.map(v => v.heading)],
+                ['section', variations.map(v => v.section)],
+                ['footer', variations.map(v => v.footer)],
+                ['body', [body]],
+            ];
+            for (const [part, defaults] of parts) {
+                templateService.register({
+                    id: `form.${form.id}.${part}`,
+                    description: `${form.embed.title} post: ${part}`,
+                    placeholders,
+                    variations: defaults,
+                });
+            }
+        }
+    }
+
+    getForms(): FormDefinition[] {
+        return this.config.forms;
+    }
+
+    getForm(formId: string): FormDefinition | undefined {
+        return this.config.forms.find(form => form.id === formId);
+    }
+
+    /**
+     * A copy of the form with its member-facing text (modal, button, fields, posted message)
+     * translated from the forms.<formId> section of the locale bundle
+     */
+    localize(form: FormDefinition, locale: LocaleCode): FormDefinition {
+        if (locale === DEFAULT_LOCALE) return form;
+
+        const key = `forms.${form.id}`;
+        return {
+            ...form,
+            modalTitle: i18nService.t(locale, `${key}.modalTitle`, {}, form.modalTitle).slice(0, MAX_MODAL_TITLE_LENGTH),
+            buttonLabel: i18nService.t(locale, `${key}.buttonLabel`, {}, form.buttonLabel),
+            postedMessage: i18nService.t(locale, `${key}.postedMessage`, {}, form.postedMessage),
+            fields: form.fields.map(field => ({
+                ...field,
+                label: i18nService.t(locale, `${key}.fields.${field.id}.label`, {}, field.label).slice(0, MAX_FIELD_LABEL_LENGTH),
+                placeholder: field.placeholder
+                    ? i18nService.t(locale, `${key}.fields.${field.id}.placeholder`, {}, field.placeholder).slice(0, MAX_PLACEHOLDER_LENGTH)
+                    : undefined,
+            })),
+        };
+    }
+
+    /**
+     * Builder requirement label in the member's language
+     */
+    requirementLabel(requirement: BuilderRequirement, locale: LocaleCode): string {
+        return i18nService.t(locale, `requirements.${requirement.label}`, {}, requirement.label);
+    }
+
+    /**
+     * Resolve the destination channel, expanding ${ENV_VAR} references
+     */
+    getChannelId(form: FormDefinition): string {
+        return interpolateEnv(form.channelId);
+    }
+
+    /**
+     * One button per form (optionally a subset), wrapped into rows of five.
+     * Forms in `completed` get a disabled ✅ button.
+     */
+    buildFormButtons(guildId: string, userId: string, formIds?: string[], locale: LocaleCode = DEFAULT_LOCALE, completed: string[] = []): ActionRowBuilder<ButtonBuilder>[] {
+        const forms = (formIds
+            ? this.config.forms.filter(form => formIds.includes(form.id))
+            : this.config.forms
+        ).map(form => this.localize(form, locale));
+
+        const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+        for (let i = 0; i < forms.length; i += MAX_BUTTONS_PER_ROW) {
+            const buttons = forms.slice(i, i + MAX_BUTTONS_PER_ROW).map(form => {
+                const button = new ButtonBuilder()
+                    .setCustomId(signCustomId('open_modal', [form.id, userId, guildId], DURATION.FORM_BUTTON_TTL_MS))
+                    .setLabel(form.buttonLabel)
+                    .setStyle(BUTTON_STYLES[form.buttonStyle] ?? ButtonStyle.Primary);
+                return completed.includes(form.id)
+                    ? button.setEmoji(EMOJI.CHECK).setStyle(ButtonStyle.Success).setDisabled(true)
+                    : button;
+            });
+            rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons));
+        }
+        return rows;
+    }
+
+    /**
+     * Signed custom ID for the modal of a form filled in by `userId`. The destination
+     * channel is not part of it: submissions always go to the form's configured channel.
+     */
+    buildSubmitModalId(form: FormDefinition, userId: string, guildId: string): string {
+        return signCustomId('submit_modal', [form.id, userId, guildId], DURATION.FORM_MODAL_TTL_MS);
+    }
+
+    /**
+     * Build the modal for a form with one text input per configured field,
+     * optionally prefilled with a previous submission
+     */
+    buildModal(form: FormDefinition, customId: string, prefill?: Record<string, string>): ModalBuilder {
+        const modal = new ModalBuilder()
+            .setCustomId(customId)
+            .setTitle(form.modalTitle);
+
+        for (const field of form.fields) {
+            const input = new TextInputBuilder()
+                .setCustomId(field.id)
+                .setLabel(field.label)
+                .setStyle(field.style === 'paragraph' ? TextInputStyle.Paragraph : TextInputStyle.Short)
+                .setRequired(field.required ?? true)
+                .setMaxLength(field.maxLength ?? (field.style === 'paragraph' ? LIMITS.MAX_INTRO_LENGTH : LIMITS.MAX_PROJECT_NAME_LENGTH));
+
+            if (field.placeholder) input.setPlaceholder(field.placeholder);
+            if (field.minLength) input.setMinLength(field.minLength);
+            if (prefill?.[field.id]) input.setValue(prefill[field.id]);
+
+            modal.addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input));
+        }
+
+        return modal;
+    }
+
+    /**
+     * Read submitted values keyed by field id (optional fields left blank become '')
+     */
+    readValues(form: FormDefinition, interaction: ModalSubmitInteraction): Record<string, string> {
+        const values: Record<string, string> = {};
+        for (const field of form.fields) {
+            values[field.id] = interaction.fields.getTextInputValue(field.id)?.trim() ?? '';
+        }
+        return values;
+    }
+
+    /**
+     * Validate the links fields of a submission and normalize them to one canonical link per line.
+     * Returns the entries that are not valid links of an accepted type.
+     */
+    normalizeLinks(form: FormDefinition, values: Record<string, string>): { values: Record<string, string>; invalid: string[] } {
+        const normalized = { ...values };
+        const invalid: string[] = [];
+        for (const field of form.fields) {
+            if (!field.links || !values[field.id]) continue;
+            const result = parseLinks(values[field.id], field.links);
+            normalized[field.id] = result.links.map(link => link.url).join('\n');
+            invalid.push(...result.invalid);
+        }
+        return { values: normalized, invalid };
+    }
+
+    /**
+     * Link buttons for the links fields of a post (values must already be normalized)
+     */
+    buildLinkButtons(form: FormDefinition, values: Record<string, string>): ActionRowBuilder<ButtonBuilder>[] {
+        const buttons = form.fields
+            .filter(field => field.links && values[field.id])
+            .flatMap(field => parseLinks(values[field.id], field.links).links)
+            .slice(0, MAX_BUTTONS_PER_ROW * MAX_LINK_BUTTON_ROWS)
+            .map(link => new ButtonBuilder()
+                .setStyle(ButtonStyle.Link)
+                .setURL(link.url)
+                // Websites are labelled with their domain so several of them stay distinguishable
+                .setLabel(link.type === 'website' ? new URL(link.url).hostname.replace(/^www\./, '') : LINK_LABELS[link.type]));
+
+        const rows: ActionRowBuilder<ButtonBuilder>[] = [];
+        for (let i = 0; i < buttons.length; i += MAX_BUTTONS_PER_ROW) {
+            rows.push(new ActionRowBuilder<ButtonBuilder>().addComponents(buttons.slice(i, i + MAX_BUTTONS_PER_ROW)));
+        }
+        return rows;
+    }
+
+    /**
+     * Pick a random embed variation index for a new post
+     */
+    pickVariation(form: FormDefinition): number {
+        return templateService.pickVariation(`form.${form.id}.heading`);
+    }
+
+    /**
+     * Render the public embed for a submission. Pass the variation of an existing post
+     * to keep its wording stable across edits.
+     */
+    buildEmbed(form: FormDefinition, userId: string, values: Record<string, string>, variation: number = this.pickVariation(form)): EmbedBuilder {
+        const { embed } = form;
+        const part = (name: string) => templateService.render(`form.${form.id}.${name}`, values, variation);
+
+        const description = [
+            `${part('heading')} <@${userId}>`,
+            '',
+            part('section'),
+            part('body'),
+        ].join('\n');
+
+        const result = new EmbedBuilder()
+            .setColor(embed.color)
+            .setTitle(embed.title)
+            .setDescription(description)
+            .setFooter({ text: part('footer') });
+
+        for (const field of embed.fields ?? []) {
+            const value = fillTemplate(field.value, values).trim();
+            if (!value) continue;
+            result.addFields({ name: fillTemplate(field.name, values), value, inline: field.inline ?? false });
+        }
+
+        return result;
+    }
+
+    /**
+     * Thread name for forms that create one (null when the form posts no thread)
+     */
+    buildThreadName(form: FormDefinition, values: Record<string, string>): string | null {
+        if (!form.thread) return null;
+        const name = fillTemplate(form.thread.name, values).trim() || form.modalTitle;
+        return name.slice(0, LIMITS.MAX_THREAD_TITLE_LENGTH); // Thread names are limited to 100 characters
+    }
+
+    /**
+     * Requirements the member still has to complete for the Dodo Builder role
+     */
+    getMissingRequirements(completions: string[]): BuilderRequirement[] {
+        return this.config.builderRequirements.filter(
+            requirement => !requirement.forms.some(formId => completions.includes(formId))
+        );
+    }
+
+    isBuilderComplete(completions: string[]): boolean {
+        return this.getMissingRequirements(completions).length === 0;
+    }
+}
+
+export const formService = new FormService();
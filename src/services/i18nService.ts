@@ -0,0 +1,153 @@
+/**
+ * i18n service: picks a member's language and renders strings from the locale bundles.
+ *
+ * The language is the one the member chose with /language, otherwise the locale of
+ * their last interaction with the bot, otherwise English. Missing strings fall back
+ * to English. configs/locales/<code>.json can override or extend any bundle.
+ */
+
+import { ChatInputCommandInteraction } from 'discord.js';
+import { en } from '../locales/en.js';
+import { es } from '../locales/es.js';
+import { hi } from '../locales/hi.js';
+import { ptBR } from '../locales/pt-BR.js';
+import { LocaleBundle, LocaleCode } from '../locales/types.js';
+import { storageService } from './storageService.js';
+import { fillTemplate, loadJsonConfig } from '../utils/config.js';
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+const BUILT_IN_BUNDLES: Record<LocaleCode, LocaleBundle> = {
+    en,
+    es,
+    'pt-BR': ptBR,
+    hi,
+};
+
+interface LocalePreference {
+    userId: string;
+    locale: LocaleCode;
+    // True when picked with /language; detected locales never overwrite a chosen one
+    chosen: boolean;
+    updatedAt: number;
+}
+
+function mergeBundles(base: LocaleBundle, override: LocaleBundle): LocaleBundle {
+    const result: LocaleBundle = { ...base };
+    for (const [key, value] of Object.entries(override)) {
+        const current = result[key];
+        result[key] = typeof value === 'object' && typeof current === 'object'
+            ? mergeBundles(current, value)
+            : value;
+    }
+    return result;
+}
+
+/**
+ * Map a Discord locale (e.g. "es-419", "pt-BR", "en-GB") to a supported bundle, or null
+ */
+export function resolveLocale(locale: string | null | undefined): LocaleCode | null {
+    if (!locale) return null;
+
+    const codes = Object.keys(BUILT_IN_BUNDLES) as LocaleCode[];
+    const exact = codes.find(code => code.toLowerCase() === locale.toLowerCase());
+    if (exact) return exact;
+
+    const language = locale.split('-')[0].toLowerCase();
+    return codes.find(code => code.split('-')[0].toLowerCase() === language) ?? null;
+}
+
+class I18nService {
+    private bundles: Record<LocaleCode, LocaleBundle>;
+    private preferences = storageService.collection<LocalePreference>('locale_preferences');
+
+    constructor() {
+        this.bundles = { ...BUILT_IN_BUNDLES };
+        for (const code of Object.keys(this.bundles) as LocaleCode[]) {
+            const override = loadJsonConfig<LocaleBundle>(`locales/${code}.json`);
+            if (override) {
+                this.bundles[code] = mergeBundles(this.bundles[code], override);
+                console.log(`Loaded locale overrides from configs/locales/${code}.json`);
+            }
+        }
+    }
+
+    getSupportedLocales(): LocaleCode[] {
+        return Object.keys(this.bundles) as LocaleCode[];
+    }
+
+    private lookup(locale: LocaleCode, key: string): string | undefined {
+        let node: string | LocaleBundle | undefined = this.bundles[locale];
+        for (const part of key.split('.')) {
+            if (typeof node !== 'object') return undefined;
+            node = node[part];
+        }
+        return typeof node === 'string' ? node : undefined;
+    }
+
+    /**
+     * Render a string in the given locale. Falls back to English, then to `fallback`, then to the key.
+     */
+    t(locale: LocaleCode, key: string, vars: Record<string, string> = {}, fallback?: string): string {
+        const template = this.lookup(locale, key) ?? this.lookup(DEFAULT_LOCALE, key) ?? fallback ?? key;
+        return fillTemplate(template, vars);
+    }
+
+    /**
+     * The member's language: their /language choice, else the last detected locale, else English
+     */
+    async getLocale(userId: string): Promise<LocaleCode> {
+        const preference = await this.preferences.get(userId);
+        return preference?.locale ?? DEFAULT_LOCALE;
+    }
+
+    /**
+     * Remember the locale of a member's Discord client, unless they chose a language themselves.
+     * Returns the language to reply in.
+     */
+    async detectLocale(userId: string, interactionLocale: string): Promise<LocaleCode> {
+        const preference = await this.preferences.get(userId);
+        if (preference?.chosen) return preference.locale;
+
+        const detected = resolveLocale(interactionLocale) ?? DEFAULT_LOCALE;
+        if (preference?.locale !== detected) {
+            await this.preferences.set(userId, { userId, locale: detected, chosen: false, updatedAt: Date.now() });
+        }
+        return detected;
+    }
+
+    // ==================== /language ====================
+
+    public async handleLanguageCommand(interaction: ChatInputCommandInteraction) {
+        const choice = interaction.options.getString('language', true);
+
+        if (choice === 'auto') {
+            await this.preferences.delete(interaction.user.id);
+            const locale = await this.detectLocale(interaction.user.id, interaction.locale);
+            await interaction.reply({
+                content: this.t(locale, 'language.auto', { language: this.t(locale, 'languageName') }),
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const locale = resolveLocale(choice) ?? DEFAULT_LOCALE;
+        await this.preferences.set(interaction.user.id, { userId: interaction.user.id, locale, chosen: true, updatedAt: Date.now() });
+        await interaction.reply({
+            content: this.t(locale, 'language.set', { language: this.t(locale, 'languageName') }),
+            ephemeral: true,
+        });
+    }
+
+    /**
+     * Choices for the /language command option
+     */
+    getLanguageChoices(): Array<{ name: string; value: string }> {
+        return [
+            { name: 'Auto (use my Discord language)', value: 'auto' },
+            ...this.getSupportedLocales().map(code => ({ name: this.t(code, 'languageName'), value: code })),
+        ];
+    }
+}
+
+export const i18nService = new I18nService();
@@ -1,5 +1,6 @@
 import { Message, TextChannel } from 'discord.js';
 import crypto from 'crypto';
+import { templateService } from './templateService.js';
 
 const CONFIG = {
     BANNED_SENTENCES: [
@@ -30,6 +31,10 @@ const CONFIG = {
         "submit...questions...issues...below...pages",
         "consistently...doing...day...learn...strategies...dm"
     ],
+    // Link checks for onboarding submissions
+    INVITE_DOMAINS: ['discord.gg', 'discord.com/invite', 'discordapp.com/invite', 't.me', 'telegram.me', 'wa.me', 'chat.whatsapp.com'],
+    SHORTENER_DOMAINS: ['bit.ly', 'tinyurl.com', 't.co', 'cutt.ly', 'is.gd', 'goo.gl', 'rb.gy', 'shorturl.at'],
+    MAX_LINKS: 3,
     BANNED_IMAGES: [
         "85c4c41aef0c0aa2e652a64ce917c08bbc3a459c4313016dbd7c12a3710927c1",
         "f303a1ffe7064b5c07ec1c96233cf9a6264eda210e96b81f7232a922717d4b24",
@@ -70,11 +75,11 @@ class ModerationService {
         }
     }
 
-    private async checkAndBanSpammer(message: Message): Promise<boolean> {
-        // Ignore DMs and bot messages
-        if (!message.guild || message.author.bot) return false;
-
-        const content = message.content.toLowerCase();
+    /**
+     * Returns the first banned sentence pattern the text matches, or null
+     */
+    public matchBannedSentence(text: string): string | null {
+        const content = text.toLowerCase();
 
         for (const sentence of CONFIG.BANNED_SENTENCES) {
             const parts = sentence.toLowerCase().split('...');
@@ -84,43 +89,77 @@ class ModerationService {
             const regexPattern = escapedParts.join('.*');
             const regex = new RegExp(regexPattern, 's'); // 's' flag for dotAll
 
-            if (regex.test(content)) {
-                console.log(`Spam detected from ${message.author.tag}. Pattern: "${sentence}"`);
-
-                // 1. Manually delete recent messages in this channel (helpful if ban fails or for immediate cleanup)
-                if (message.channel instanceof TextChannel) {
-                    await this.deleteRecentUserMessages(message.channel, message.author.id);
-                } else {
-                    // Fallback delete query message if not text channel
-                    try {
-                        if (message.deletable) await message.delete();
-                    } catch (e) {
-                        console.warn('Could not delete spam message:', e);
-                    }
-                }
+            if (regex.test(content)) return sentence;
+        }
+        return null;
+    }
+
+    /**
+     * Reasons the links in a text look like advertising: invites, URL shorteners or more than `maxLinks` links
+     */
+    public checkLinks(text: string, maxLinks: number = CONFIG.MAX_LINKS): string[] {
+        const links = text.match(/(?:https?:\/\/|www\.)\S+|\b(?:discord\.gg|t\.me)\/\S+/gi) ?? [];
+        const reasons: string[] = [];
+
+        for (const link of links) {
+            const normalized = link.toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '');
+            const host = normalized.split(/[/?#]/)[0];
+
+            if (CONFIG.INVITE_DOMAINS.some(domain => normalized.startsWith(domain))) {
+                reasons.push(`Invite link: ${link}`);
+            } else if (CONFIG.SHORTENER_DOMAINS.includes(host)) {
+                reasons.push(`Shortened link: ${link}`);
+            }
+        }
+
+        if (links.length > maxLinks) {
+            reasons.push(`${links.length} links (more than ${maxLinks})`);
+        }
+
+        return reasons;
+    }
+
+    private async checkAndBanSpammer(message: Message): Promise<boolean> {
+        // Ignore DMs and bot messages
+        if (!message.guild || message.author.bot) return false;
+
+        const sentence = this.matchBannedSentence(message.content);
+        if (sentence) {
+            console.log(`Spam detected from ${message.author.tag}. Pattern: "${sentence}"`);
 
-                // 2. Ban the user (If bannable)
+            // 1. Manually delete recent messages in this channel (helpful if ban fails or for immediate cleanup)
+            if (message.channel instanceof TextChannel) {
+                await this.deleteRecentUserMessages(message.channel, message.author.id);
+            } else {
+                // Fallback delete query message if not text channel
                 try {
-                    const member = message.member;
-                    if (member) {
-                        if (member.bannable) {
-                            // deleteMessageSeconds: 3600 = Delete message history for 1 hour
-                            await member.ban({
-                                deleteMessageSeconds: 3600,
-                                reason: 'Spam'
-                            });
-                            console.log(`Banned user ${message.author.tag} for using banned sentence. Message: "${message.content}"`);
-                        } else {
-                            console.warn(`User ${message.author.tag} is not bannable (higher role or owner).`);
-                        }
-                    }
-                } catch (error) {
-                    console.error(`Failed to ban user ${message.author.tag}:`, error);
+                    if (message.deletable) await message.delete();
+                } catch (e) {
+                    console.warn('Could not delete spam message:', e);
                 }
+            }
 
-                // Return true to stop further processing of this message
-                return true;
+            // 2. Ban the user (If bannable)
+            try {
+                const member = message.member;
+                if (member) {
+                    if (member.bannable) {
+                        // deleteMessageSeconds: 3600 = Delete message history for 1 hour
+                        await member.ban({
+                            deleteMessageSeconds: 3600,
+                            reason: 'Spam'
+                        });
+                        console.log(`Banned user ${message.author.tag} for using banned sentence. Message: "${message.content}"`);
+                    } else {
+                        console.warn(`User ${message.author.tag} is not bannable (higher role or owner).`);
+                    }
+                }
+            } catch (error) {
+                console.error(`Failed to ban user ${message.author.tag}:`, error);
             }
+
+            // Return true to stop further processing of this message
+            return true;
         }
         return false;
     }
@@ -242,7 +281,7 @@ class ModerationService {
             if (generalChannelId) {
                 const generalChannel = await message.client.channels.fetch(generalChannelId).catch(() => null);
                 if (generalChannel && generalChannel.isTextBased() && 'send' in generalChannel) {
-                    await generalChannel.send(`Hey <@${message.author.id}>, seems like your account has been hacked. For that reason we've timed you out. Once your account is back, DM a moderator requesting to revoke the timeout.`);
+                    await generalChannel.send(templateService.render('moderation.hacked', { user: `<@${message.author.id}>` }));
                 }
             }
 
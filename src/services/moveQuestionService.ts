@@ -1,6 +1,7 @@
 import { Message, TextChannel, ForumChannel, ChannelType, ChatInputCommandInteraction, GuildMemberRoleManager, MessageContextMenuCommandInteraction } from 'discord.js';
 import dotenv from 'dotenv';
 import { supportBotService } from './supportBotService.js';
+import { templateService } from './templateService.js';
 
 dotenv.config();
 
@@ -68,7 +69,11 @@ class MoveQuestionService {
             const postUrl = thread.url;
 
             // Notify original author in source channel
-            await channel.send(`Hey <@${referencedMessage.author.id}>!\n\nWe’ve moved your message to the <#${GET_HELP_CHANNEL}> channel so it’s easier for everyone to assist. You can continue the conversation here: ${postUrl}`);
+            await channel.send(templateService.render('move.notice', {
+                user: `<@${referencedMessage.author.id}>`,
+                channel: `<#${GET_HELP_CHANNEL}>`,
+                url: postUrl,
+            }));
 
             // Delete original message and command message
             if (referencedMessage.deletable) await referencedMessage.delete().catch(() => { });
@@ -146,7 +151,11 @@ class MoveQuestionService {
 
             // Notify original author in source channel
             if (interaction.channel?.isTextBased() && 'send' in interaction.channel) {
-                await (interaction.channel as TextChannel).send(`Hey <@${referencedMessage.author.id}>,\n\nWe've moved your message to the <#${GET_HELP_CHANNEL}> channel so it's easier for us to help with your issue. You can continue the conversation here: ${postUrl}`);
+                await (interaction.channel as TextChannel).send(templateService.render('move.notice', {
+                    user: `<@${referencedMessage.author.id}>`,
+                    channel: `<#${GET_HELP_CHANNEL}>`,
+                    url: postUrl,
+                }));
             }
 
             // Delete original message
@@ -213,7 +222,11 @@ class MoveQuestionService {
 
             // Notify original author in source channel
             if (interaction.channel?.isTextBased() && 'send' in interaction.channel) {
-                await (interaction.channel as TextChannel).send(`Hey <@${referencedMessage.author.id}>,\n\nWe've moved your message to the <#${GET_HELP_CHANNEL}> channel so it's easier for us to help with your issue. You can continue the conversation here: ${postUrl}`);
+                await (interaction.channel as TextChannel).send(templateService.render('move.notice', {
+                    user: `<@${referencedMessage.author.id}>`,
+                    channel: `<#${GET_HELP_CHANNEL}>`,
+                    url: postUrl,
+                }));
             }
 
             // Delete original message
@@ -0,0 +1,100 @@
+/**
+ * Onboarding DM service: remembers the welcome and reminder DMs that carry form buttons,
+ * and edits them as the member completes forms so old buttons can't post duplicates.
+ * Finished forms get a disabled ✅ button; once the member is a Dodo Builder the DMs
+ * collapse into a "You're all set" message.
+ */
+
+import { Client, DiscordAPIError, Message, RESTJSONErrorCodes } from 'discord.js';
+import { storageService } from './storageService.js';
+import { formService } from './formService.js';
+import { i18nService } from './i18nService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+
+interface TrackedDm {
+    messageId: string;
+    // Forms the message has buttons for (all forms when unset)
+    formIds?: string[];
+}
+
+interface OnboardingDms {
+    guildId: string;
+    userId: string;
+    messages: TrackedDm[];
+    updatedAt: number;
+}
+
+class OnboardingDmService {
+    private records = storageService.collection<OnboardingDms>('onboarding_dms');
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
+
+    /**
+     * Remember a DM with form buttons sent to a member
+     */
+    async track(guildId: string, userId: string, message: Message, formIds?: string[]): Promise<void> {
+        try {
+            const key = this.key(guildId, userId);
+            const record = await this.records.get(key) ?? { guildId, userId, messages: [], updatedAt: 0 };
+            record.messages.push({ messageId: message.id, formIds });
+            record.updatedAt = Date.now();
+            await this.records.set(key, record);
+        } catch (error) {
+            console.error(`[OnboardingDmService] Failed to track DM ${message.id} for user ${userId}:`, error);
+        }
+    }
+
+    /**
+     * Edit the member's tracked DMs after a form was completed. With `allSet`, the DMs
+     * lose their buttons for good and the member's record is dropped. DMs that could not
+     * be edited for any reason other than being deleted stay tracked.
+     */
+    async markProgress(client: Client, guildId: string, userId: string, completions: string[], allSet: boolean): Promise<void> {
+        const key = this.key(guildId, userId);
+        const record = await this.records.get(key);
+        if (!record || record.messages.length === 0) return;
+
+        const locale = await i18nService.getLocale(userId);
+        const allSetEmbed = createBaseEmbed()
+            .setTitle(i18nService.t(locale, 'allSet.title'))
+            .setDescription(i18nService.t(locale, 'allSet.description', { user: `<@${userId}>` }));
+
+        const kept: TrackedDm[] = [];
+        try {
+            const dmChannel = await (await client.users.fetch(userId)).createDM();
+
+            for (const tracked of record.messages) {
+                try {
+                    const message = await dmChannel.messages.fetch(tracked.messageId);
+                    if (allSet) {
+                        await message.edit({ embeds: [allSetEmbed], components: [] });
+                    } else {
+                        await message.edit({ components: formService.buildFormButtons(guildId, userId, tracked.formIds, locale, completions) });
+                        kept.push(tracked);
+                    }
+                } catch (error) {
+                    // Deleted by the member (e.g. /clear-dm): nothing left to update
+                    if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownMessage) continue;
+
+                    console.warn(`[OnboardingDmService] Could not update DM ${tracked.messageId} of user ${userId}:`, error);
+                    kept.push(tracked);
+                }
+            }
+        } catch (error) {
+            console.warn(`[OnboardingDmService] Could not open DMs with user ${userId}:`, error);
+            return;
+        }
+
+        if (kept.length === 0) {
+            await this.records.delete(key);
+        } else {
+            record.messages = kept;
+            record.updatedAt = Date.now();
+            await this.records.set(key, record);
+        }
+    }
+}
+
+export const onboardingDmService = new OnboardingDmService();
@@ -0,0 +1,294 @@
+/**
+ * Points service: awards points for onboarding forms, thread replies and daily activity,
+ * and derives levels (Bronze → Diamond) from them. Powers /profile and /leaderboard.
+ *
+ * LEVEL_ROLE_BRONZE_ID / _SILVER_ID / _GOLD_ID / _DIAMOND_ID = Optional tier roles kept in sync with the level
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    Client,
+    EmbedBuilder,
+    GuildMember,
+    Message,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { completionService } from './completionService.js';
+import { achievementService } from './achievementService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { EMOJI, FOOTER, GAMIFICATION, LIMITS, getLevelFromPoints, getNextLevel } from '../utils/constants.js';
+import { createProgressBar, formatNumber } from '../utils/formatting.js';
+
+dotenv.config();
+
+type Level = typeof GAMIFICATION.LEVELS[keyof typeof GAMIFICATION.LEVELS];
+
+const TIER_ROLES: Array<{ level: Level; roleId: string | undefined }> = [
+    { level: GAMIFICATION.LEVELS.BRONZE, roleId: process.env.LEVEL_ROLE_BRONZE_ID },
+    { level: GAMIFICATION.LEVELS.SILVER, roleId: process.env.LEVEL_ROLE_SILVER_ID },
+    { level: GAMIFICATION.LEVELS.GOLD, roleId: process.env.LEVEL_ROLE_GOLD_ID },
+    { level: GAMIFICATION.LEVELS.DIAMOND, roleId: process.env.LEVEL_ROLE_DIAMOND_ID },
+];
+
+// One-time points for the first submission of each form
+const FORM_POINTS: Record<string, number> = {
+    intro: GAMIFICATION.POINTS.INTRO_COMPLETE,
+    working: GAMIFICATION.POINTS.WORKING_COMPLETE,
+    showcase: GAMIFICATION.POINTS.SHOWCASE_COMPLETE,
+};
+
+export interface MemberPoints {
+    guildId: string;
+    userId: string;
+    points: number;
+    // One-time awards already given, e.g. "form:intro"
+    awarded: string[];
+    // UTC day (YYYY-MM-DD) of the last daily activity bonus
+    lastActiveDay?: string;
+    // UTC day the reply counter belongs to
+    replyDay?: string;
+    repliesToday: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+function utcDay(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+/**
+ * Points a message earns: the daily activity bonus for the first message of the (UTC) day,
+ * plus a capped bonus for replies in threads. Updates the record's counters.
+ */
+export function applyMessageActivity(record: MemberPoints, isThreadReply: boolean, timestamp: number): number {
+    const day = utcDay(timestamp);
+    let earned = 0;
+
+    if (record.lastActiveDay !== day) {
+        record.lastActiveDay = day;
+        earned += GAMIFICATION.POINTS.DAILY_ACTIVE;
+    }
+
+    if (isThreadReply) {
+        if (record.replyDay !== day) {
+            record.replyDay = day;
+            record.repliesToday = 0;
+        }
+        if (record.repliesToday < GAMIFICATION.MAX_THREAD_REPLIES_PER_DAY) {
+            record.repliesToday++;
+            earned += GAMIFICATION.POINTS.THREAD_REPLY;
+        }
+    }
+
+    return earned;
+}
+
+class PointsService {
+    private records = storageService.collection<MemberPoints>('member_points');
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
+
+    async getPoints(guildId: string, userId: string): Promise<MemberPoints | null> {
+        return this.records.get(this.key(guildId, userId));
+    }
+
+    private async getOrCreate(guildId: string, userId: string): Promise<MemberPoints> {
+        const now = Date.now();
+        return await this.getPoints(guildId, userId) ?? {
+            guildId,
+            userId,
+            points: 0,
+            awarded: [],
+            repliesToday: 0,
+            createdAt: now,
+            updatedAt: now,
+        };
+    }
+
+    /**
+     * Save a record after `earned` points were added, and move the member's tier role on level change
+     */
+    private async save(client: Client, record: MemberPoints, earned: number, member: GuildMember | null): Promise<void> {
+        const previousLevel = getLevelFromPoints(record.points - earned);
+        record.updatedAt = Date.now();
+        await this.records.set(this.key(record.guildId, record.userId), record);
+        await achievementService.record(client, { type: 'points', guildId: record.guildId, userId: record.userId, value: record.points });
+
+        const level = getLevelFromPoints(record.points);
+        if (level !== previousLevel) {
+            console.log(`[PointsService] User ${record.userId} reached ${level.name} (${record.points} points)`);
+            if (member) await this.syncTierRole(member, record.points);
+        }
+    }
+
+    /**
+     * Give the tier role for the member's level and remove the other tier roles (no-op when unset)
+     */
+    async syncTierRole(member: GuildMember, points: number): Promise<void> {
+        const level = getLevelFromPoints(points);
+        try {
+            for (const { level: tier, roleId } of TIER_ROLES) {
+                if (!roleId) continue;
+                const hasRole = member.roles.cache.has(roleId);
+                if (tier === level && !hasRole) {
+                    await member.roles.add(roleId, `Reached ${tier.name}`);
+                } else if (tier !== level && hasRole) {
+                    await member.roles.remove(roleId, `Now ${level.name}`);
+                }
+            }
+        } catch (error) {
+            console.error(`[PointsService] Failed to update tier role for user ${member.id}:`, error);
+        }
+    }
+
+    /**
+     * Award the one-time points for a member's first submission of a form
+     */
+    async awardForm(client: Client, guildId: string, userId: string, formId: string): Promise<void> {
+        const points = FORM_POINTS[formId];
+        if (!points) return;
+
+        const record = await this.getOrCreate(guildId, userId);
+        const awardKey = `form:${formId}`;
+        if (record.awarded.includes(awardKey)) return;
+
+        record.awarded.push(awardKey);
+        record.points += points;
+
+        const member = await client.guilds.fetch(guildId)
+            .then(guild => guild.members.fetch(userId))
+            .catch(() => null);
+        await this.save(client, record, points, member);
+    }
+
+    /**
+     * Award activity points for a guild message (daily bonus and thread replies)
+     */
+    async handleMessage(message: Message): Promise<void> {
+        if (!message.guild || message.author.bot || message.system) return;
+
+        // The starter message of a forum post is the thread itself, not a reply
+        const isThreadReply = message.channel.isThread() && message.id !== message.channel.id;
+
+        try {
+            const record = await this.getOrCreate(message.guild.id, message.author.id);
+            const earned = applyMessageActivity(record, isThreadReply, message.createdTimestamp);
+            if (earned === 0) return;
+
+            record.points += earned;
+            await this.save(message.client, record, earned, message.member);
+        } catch (error) {
+            console.error(`[PointsService] Failed to award activity points to user ${message.author.id}:`, error);
+        }
+    }
+
+    /**
+     * Members of a guild sorted by points (highest first)
+     */
+    async getLeaderboard(guildId: string): Promise<MemberPoints[]> {
+        const records = await this.records.all();
+        return records
+            .filter(record => record.guildId === guildId && record.points > 0)
+            .sort((a, b) => b.points - a.points || a.createdAt - b.createdAt);
+    }
+
+    // ==================== /profile ====================
+
+    public async handleProfileCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const user = interaction.options.getUser('user') ?? interaction.user;
+        const record = await this.getPoints(interaction.guildId, user.id);
+        const points = record?.points ?? 0;
+        const level = getLevelFromPoints(points);
+        const next = getNextLevel(points);
+
+        const leaderboard = await this.getLeaderboard(interaction.guildId);
+        const rank = leaderboard.findIndex(entry => entry.userId === user.id) + 1;
+        const completions = await completionService.getCompletions(interaction.guildId, user.id);
+
+        const progress = next
+            ? `${createProgressBar(points - level.min, next.min - level.min)} ${formatNumber(next.min - points)} points to ${next.emoji} ${next.name}`
+            : `${createProgressBar(1, 1)} Top level reached!`;
+
+        const embed = createBaseEmbed()
+            .setTitle(`${level.emoji} ${user.displayName}`)
+            .setThumbnail(user.displayAvatarURL())
+            .addFields(
+                { name: 'Level', value: level.name, inline: true },
+                { name: 'Points', value: formatNumber(points), inline: true },
+                { name: 'Rank', value: rank > 0 ? `#${formatNumber(rank)} of ${formatNumber(leaderboard.length)}` : 'Unranked', inline: true },
+                { name: 'Progress', value: progress },
+                {
+                    name: 'Onboarding',
+                    value: completions?.completions.length ? completions.completions.map(formId => `${EMOJI.CHECK} ${formId}`).join('\n') : 'No forms submitted yet',
+                }
+            )
+            .setFooter({ text: FOOTER.PROFILE });
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    // ==================== /leaderboard ====================
+
+    private async buildLeaderboardPage(guildId: string, page: number): Promise<{ embed: EmbedBuilder; row: ActionRowBuilder<ButtonBuilder> | null }> {
+        const leaderboard = await this.getLeaderboard(guildId);
+        const pageSize = LIMITS.LEADERBOARD_PAGE_SIZE;
+        const pageCount = Math.max(1, Math.ceil(leaderboard.length / pageSize));
+        const current = Math.min(Math.max(page, 0), pageCount - 1);
+
+        const lines = leaderboard
+            .slice(current * pageSize, (current + 1) * pageSize)
+            .map((entry, index) => {
+                const level = getLevelFromPoints(entry.points);
+                return `**#${current * pageSize + index + 1}** ${level.emoji} <@${entry.userId}> · ${formatNumber(entry.points)} points`;
+            });
+
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.TROPHY} Leaderboard`)
+            .setDescription(lines.length > 0 ? lines.join('\n') : 'Nobody has earned points yet. Be the first!')
+            .setFooter({ text: `${FOOTER.LEADERBOARD} • Page ${current + 1}/${pageCount}` });
+
+        const row = pageCount > 1
+            ? new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder().setCustomId(`leaderboard|${current - 1}`).setLabel('Previous').setStyle(ButtonStyle.Secondary).setDisabled(current === 0),
+                new ButtonBuilder().setCustomId(`leaderboard|${current + 1}`).setLabel('Next').setStyle(ButtonStyle.Secondary).setDisabled(current >= pageCount - 1)
+            )
+            : null;
+
+        return { embed, row };
+    }
+
+    public async handleLeaderboardCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const { embed, row } = await this.buildLeaderboardPage(interaction.guildId, 0);
+        await interaction.reply({ embeds: [embed], components: row ? [row] : [], ephemeral: true });
+    }
+
+    /**
+     * Handle `leaderboard|<page>` pagination buttons
+     */
+    public async handleLeaderboardButton(interaction: ButtonInteraction) {
+        if (!interaction.guildId) return;
+
+        const page = Number(interaction.customId.split('|')[1]) || 0;
+        const { embed, row } = await this.buildLeaderboardPage(interaction.guildId, page);
+        await interaction.update({ embeds: [embed], components: row ? [row] : [] });
+    }
+}
+
+export const pointsService = new PointsService();
@@ -0,0 +1,390 @@
+/**
+ * Post service: remembers the public message/thread created for each member and form,
+ * so re-submitting a form edits the existing post instead of duplicating it. Posts launched
+ * from a project are kept per project, so every launch gets its own showcase.
+ * Also powers the /my-posts command (edit, delete, rename thread).
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    Client,
+    EmbedBuilder,
+    Message,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    TextChannel,
+    TextInputBuilder,
+    TextInputStyle,
+    ThreadChannel,
+} from 'discord.js';
+import { FormDefinition } from '../config/forms.js';
+import { formService } from './formService.js';
+import { completionService } from './completionService.js';
+import { storageService } from './storageService.js';
+import { projectService } from './projectService.js';
+import { i18nService } from './i18nService.js';
+import { COLORS, DURATION, EMOJI, LIMITS } from '../utils/constants.js';
+import { buildMessageUrl } from '../utils/formatting.js';
+
+export interface PostRecord {
+    guildId: string;
+    userId: string;
+    formId: string;
+    channelId: string;
+    messageId: string;
+    threadId?: string;
+    values: Record<string, string>;
+    variation: number;
+    // Thread of the project this post was launched from (see "Mark as launched")
+    launchedFrom?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+export interface PublishResult {
+    post: PostRecord;
+    message: Message;
+    thread: ThreadChannel | null;
+    updated: boolean;
+}
+
+class PostService {
+    private posts = storageService.collection<PostRecord>('posts');
+
+    private key(guildId: string, userId: string, formId: string, launchedFrom?: string): string {
+        return launchedFrom ? `${guildId}:${userId}:${formId}:${launchedFrom}` : `${guildId}:${userId}:${formId}`;
+    }
+
+    /**
+     * The member's post for a form, or the one launched from the given project thread
+     */
+    async getPost(guildId: string, userId: string, formId: string, launchedFrom?: string): Promise<PostRecord | null> {
+        return this.posts.get(this.key(guildId, userId, formId, launchedFrom));
+    }
+
+    async getPostsForUser(guildId: string, userId: string): Promise<PostRecord[]> {
+        const all = await this.posts.all();
+        return all
+            .filter(post => post.guildId === guildId && post.userId === userId)
+            .sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async getPostsForGuild(guildId: string): Promise<PostRecord[]> {
+        const all = await this.posts.all();
+        return all.filter(post => post.guildId === guildId);
+    }
+
+    async savePost(post: PostRecord): Promise<void> {
+        await this.posts.set(this.key(post.guildId, post.userId, post.formId, post.launchedFrom), post);
+    }
+
+    async deletePost(post: PostRecord): Promise<void> {
+        await this.posts.delete(this.key(post.guildId, post.userId, post.formId, post.launchedFrom));
+    }
+
+    /**
+     * Post a submission publicly, or edit the member's existing post for this form in place.
+     * With `launchedFrom`, only a post launched from that same project is edited.
+     * Returns null if the destination channel cannot be found.
+     */
+    async publish(
+        client: Client,
+        form: FormDefinition,
+        guildId: string,
+        userId: string,
+        channelId: string,
+        values: Record<string, string>,
+        launchedFrom?: string
+    ): Promise<PublishResult | null> {
+        const existing = await this.getPost(guildId, userId, form.id, launchedFrom);
+        if (existing) {
+            const result = await this.updateExisting(client, form, existing, values);
+            if (result) return result;
+            // The original message is gone (deleted by a mod?), so post a fresh one below
+        }
+
+        const destChannel = await client.channels.fetch(channelId).catch(() => null) as TextChannel | null;
+        if (!destChannel) return null;
+
+        const variation = formService.pickVariation(form);
+        const embed = this.buildPostEmbed(form, userId, values, variation, launchedFrom);
+        const message = await destChannel.send({ embeds: [embed], components: formService.buildLinkButtons(form, values) });
+
+        // Create a PUBLIC thread from that parent message for community interaction
+        let thread: ThreadChannel | null = null;
+        const threadName = formService.buildThreadName(form, values);
+        if (threadName) {
+            thread = await message.startThread({
+                name: threadName,
+                autoArchiveDuration: DURATION.THREAD_ARCHIVE_DURATION,
+            });
+
+            // Try to add the user to the public thread so they'll receive thread notifications
+            try {
+                await thread.members.add(userId);
+            } catch (err) {
+                console.warn('Could not add user to public thread (may be fine):', err);
+            }
+        }
+
+        const now = Date.now();
+        const post: PostRecord = {
+            guildId,
+            userId,
+            formId: form.id,
+            channelId: destChannel.id,
+            messageId: message.id,
+            threadId: thread?.id,
+            values,
+            variation,
+            launchedFrom,
+            createdAt: now,
+            updatedAt: now,
+        };
+        await this.savePost(post);
+        await projectService.registerPost(form, post, thread);
+
+        return { post, message, thread, updated: false };
+    }
+
+    /**
+     * The form's public embed, plus a link back to the project thread it was launched from
+     */
+    private buildPostEmbed(form: FormDefinition, userId: string, values: Record<string, string>, variation: number, launchedFrom?: string): EmbedBuilder {
+        const embed = formService.buildEmbed(form, userId, values, variation);
+        if (launchedFrom) {
+            embed.addFields({ name: `${EMOJI.WORKING} Built in public`, value: `Follow the journey from day one in <#${launchedFrom}>` });
+        }
+        return embed;
+    }
+
+    /**
+     * Edit an existing post's embed (and thread name if it was derived from a changed field)
+     */
+    private async updateExisting(client: Client, form: FormDefinition, post: PostRecord, values: Record<string, string>): Promise<PublishResult | null> {
+        const message = await this.fetchMessage(client, post);
+        if (!message) return null;
+
+        const embed = this.buildPostEmbed(form, post.userId, values, post.variation, post.launchedFrom);
+        await message.edit({ embeds: [embed], components: formService.buildLinkButtons(form, values) });
+
+        const thread = await this.fetchThread(client, post);
+        const oldName = formService.buildThreadName(form, post.values);
+        const newName = formService.buildThreadName(form, values);
+        if (thread && newName && newName !== oldName) {
+            await this.renameThread(thread, newName);
+        }
+
+        post.values = values;
+        post.updatedAt = Date.now();
+        await this.savePost(post);
+        await projectService.registerPost(form, post);
+
+        return { post, message, thread, updated: true };
+    }
+
+    async fetchMessage(client: Client, post: PostRecord): Promise<Message | null> {
+        try {
+            const channel = await client.channels.fetch(post.channelId) as TextChannel | null;
+            return channel ? await channel.messages.fetch(post.messageId) : null;
+        } catch (e) {
+            return null;
+        }
+    }
+
+    async fetchThread(client: Client, post: PostRecord): Promise<ThreadChannel | null> {
+        if (!post.threadId) return null;
+        try {
+            const channel = await client.channels.fetch(post.threadId);
+            return channel?.isThread() ? channel : null;
+        } catch (e) {
+            return null;
+        }
+    }
+
+    private async renameThread(thread: ThreadChannel, name: string): Promise<void> {
+        // Archived threads must be reopened before they can be edited
+        if (thread.archived) await thread.setArchived(false);
+        await thread.setName(name.slice(0, LIMITS.MAX_THREAD_TITLE_LENGTH));
+    }
+
+    postUrl(post: PostRecord): string {
+        return buildMessageUrl(post.guildId, post.channelId, post.messageId);
+    }
+
+    // ==================== /my-posts ====================
+
+    /**
+     * `<formId>`, or `<formId>|<launchedFrom>` for launched posts, as used in /my-posts custom IDs
+     */
+    private postRef(post: PostRecord): string {
+        return post.launchedFrom ? `${post.formId}|${post.launchedFrom}` : post.formId;
+    }
+
+    private buildMyPostsReply(posts: PostRecord[]): { embeds: EmbedBuilder[]; components: ActionRowBuilder<ButtonBuilder>[] } {
+        const embed = new EmbedBuilder()
+            .setColor(COLORS.PRIMARY_GREEN)
+            .setTitle('Your posts');
+
+        if (posts.length === 0) {
+            embed.setDescription("You haven't posted anything yet. Use the buttons in the welcome DM to introduce yourself or share a project.");
+            return { embeds: [embed], components: [] };
+        }
+
+        embed.setDescription(posts.map(post => {
+            const form = formService.getForm(post.formId);
+            const thread = post.threadId ? ` • thread <#${post.threadId}>` : '';
+            return `**${form?.modalTitle ?? post.formId}** — [view post](${this.postUrl(post)})${thread}`;
+        }).join('\n'));
+
+        // One row of actions per post (Discord allows five rows)
+        const components = posts.slice(0, 5).map(post => {
+            const label = formService.getForm(post.formId)?.buttonLabel ?? post.formId;
+            const ref = this.postRef(post);
+            const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder()
+                    .setCustomId(`my_posts|edit|${ref}`)
+                    .setLabel(`Edit: ${label}`.slice(0, 80))
+                    .setStyle(ButtonStyle.Primary),
+                new ButtonBuilder()
+                    .setCustomId(`my_posts|delete|${ref}`)
+                    .setLabel('Delete')
+                    .setStyle(ButtonStyle.Danger)
+            );
+            if (post.threadId) {
+                row.addComponents(
+                    new ButtonBuilder()
+                        .setCustomId(`my_posts|rename|${ref}`)
+                        .setLabel('Rename thread')
+                        .setStyle(ButtonStyle.Secondary)
+                );
+            }
+            return row;
+        });
+
+        return { embeds: [embed], components };
+    }
+
+    public async handleMyPostsCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const posts = await this.getPostsForUser(interaction.guildId, interaction.user.id);
+        await interaction.reply({ ...this.buildMyPostsReply(posts), ephemeral: true });
+    }
+
+    /**
+     * Buttons from the /my-posts reply: my_posts|<action>|<formId>[|<launchedFrom>]
+     */
+    public async handleButton(interaction: ButtonInteraction) {
+        const [, action, formId, launchedFrom] = interaction.customId.split('|');
+        const guildId = interaction.guildId;
+        if (!guildId) return;
+
+        const post = await this.getPost(guildId, interaction.user.id, formId, launchedFrom);
+        const form = formService.getForm(formId);
+        if (!post || !form) {
+            await interaction.reply({ content: 'That post no longer exists.', ephemeral: true });
+            return;
+        }
+
+        if (action === 'edit') {
+            const locale = await i18nService.detectLocale(interaction.user.id, interaction.locale);
+            // Launched posts are edited through their project, so the right showcase is updated
+            const modal = formService.buildModal(
+                formService.localize(form, locale),
+                post.launchedFrom ? `my_posts_edit|${this.postRef(post)}` : formService.buildSubmitModalId(form, post.userId, guildId),
+                post.values
+            );
+            await interaction.showModal(modal);
+            return;
+        }
+
+        if (action === 'rename') {
+            const thread = await this.fetchThread(interaction.client, post);
+            const input = new TextInputBuilder()
+                .setCustomId('thread_name')
+                .setLabel('Thread name')
+                .setStyle(TextInputStyle.Short)
+                .setRequired(true)
+                .setMaxLength(LIMITS.MAX_THREAD_TITLE_LENGTH)
+                .setValue(thread?.name ?? formService.buildThreadName(form, post.values) ?? '');
+
+            const modal = new ModalBuilder()
+                .setCustomId(`my_posts_rename|${this.postRef(post)}`)
+                .setTitle('Rename your project thread')
+                .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input));
+            await interaction.showModal(modal);
+            return;
+        }
+
+        if (action === 'delete') {
+            const confirmRow = new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder()
+                    .setCustomId(`my_posts|confirm_delete|${this.postRef(post)}`)
+                    .setLabel('Yes, delete it')
+                    .setStyle(ButtonStyle.Danger)
+            );
+            await interaction.reply({
+                content: `This will delete your **${form.modalTitle}** post${post.threadId ? ' and its thread' : ''}. This cannot be undone.`,
+                components: [confirmRow],
+                ephemeral: true,
+            });
+            return;
+        }
+
+        if (action === 'confirm_delete') {
+            await interaction.deferUpdate();
+
+            const thread = await this.fetchThread(interaction.client, post);
+            if (thread) await thread.delete('Withdrawn by the member via /my-posts').catch(err => console.warn('Could not delete thread:', err));
+
+            const message = await this.fetchMessage(interaction.client, post);
+            if (message) await message.delete().catch(err => console.warn('Could not delete post message:', err));
+
+            await this.deletePost(post);
+            // A member with several showcases keeps the form completed until the last one is gone
+            const remaining = (await this.getPostsForUser(guildId, post.userId)).filter(other => other.formId === post.formId);
+            if (remaining.length === 0) {
+                await completionService.removeCompletion(guildId, post.userId, post.formId);
+            }
+            if (post.threadId) await projectService.removeProject(post.threadId);
+
+            await interaction.editReply({ content: 'Your post has been deleted.', components: [] });
+        }
+    }
+
+    /**
+     * Submission of the rename modal: my_posts_rename|<formId>[|<launchedFrom>]
+     */
+    public async handleRenameSubmit(interaction: ModalSubmitInteraction) {
+        const [, formId, launchedFrom] = interaction.customId.split('|');
+        const guildId = interaction.guildId;
+        if (!guildId) return;
+
+        const post = await this.getPost(guildId, interaction.user.id, formId, launchedFrom);
+        const thread = post ? await this.fetchThread(interaction.client, post) : null;
+        if (!thread) {
+            await interaction.reply({ content: 'Could not find your project thread.', ephemeral: true });
+            return;
+        }
+
+        const name = interaction.fields.getTextInputValue('thread_name').trim();
+        try {
+            await this.renameThread(thread, name);
+            await interaction.reply({ content: `Your thread has been renamed to **${name}**.`, ephemeral: true });
+        } catch (error) {
+            console.error('Failed to rename project thread:', error);
+            await interaction.reply({ content: 'Could not rename your thread. Contact a mod.', ephemeral: true });
+        }
+    }
+}
+
+export const postService = new PostService();
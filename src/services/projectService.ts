@@ -0,0 +1,365 @@
+/**
+ * Project service: registry of members' projects (from forms with a `project` mapping)
+ * and their public threads. Powers /project update, /projects and "Mark as launched".
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChannelType,
+    ChatInputCommandInteraction,
+    Client,
+    EmbedBuilder,
+    GuildMemberRoleManager,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    TextInputBuilder,
+    TextInputStyle,
+    ThreadChannel,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { FormDefinition } from '../config/forms.js';
+import { storageService } from './storageService.js';
+import { formService } from './formService.js';
+import { i18nService } from './i18nService.js';
+import type { PostRecord } from './postService.js';
+import { COLORS, EMOJI, LIMITS } from '../utils/constants.js';
+import { buildChannelUrl, buildMessageUrl, truncate } from '../utils/formatting.js';
+
+dotenv.config();
+
+const { MOD_ROLE_ID } = process.env as Record<string, string | undefined>;
+
+export interface ProjectRecord {
+    guildId: string;
+    ownerId: string;
+    name: string;
+    description: string;
+    threadId: string;
+    // The post the project was registered from
+    formId: string;
+    channelId: string;
+    messageId: string;
+    status: string;
+    // Message in the thread holding the "Mark as launched" button
+    launchMessageId?: string;
+    // Showcase post this project was launched as
+    launchedPostUrl?: string;
+    updates: number;
+    lastUpdateAt?: number;
+    createdAt: number;
+    updatedAt: number;
+}
+
+const MAX_UPDATE_LENGTH = 2000;
+const MAX_PROJECTS_LISTED = 10;
+
+class ProjectService {
+    // Keyed by thread id: every project lives in exactly one thread
+    private projects = storageService.collection<ProjectRecord>('projects');
+
+    async getProject(threadId: string): Promise<ProjectRecord | null> {
+        return this.projects.get(threadId);
+    }
+
+    async getProjectsForUser(guildId: string, userId: string): Promise<ProjectRecord[]> {
+        const all = await this.projects.all();
+        return all
+            .filter(project => project.guildId === guildId && project.ownerId === userId)
+            .sort((a, b) => b.createdAt - a.createdAt);
+    }
+
+    async getProjectsForGuild(guildId: string): Promise<ProjectRecord[]> {
+        const all = await this.projects.all();
+        return all.filter(project => project.guildId === guildId);
+    }
+
+    async saveProject(project: ProjectRecord): Promise<void> {
+        await this.projects.set(project.threadId, project);
+    }
+
+    async removeProject(threadId: string): Promise<void> {
+        await this.projects.delete(threadId);
+    }
+
+    /**
+     * Create or refresh the project for a post. Status is kept once set, so an edit
+     * doesn't undo a status change made after posting. New projects of forms with a
+     * launch form get a "Mark as launched" button in their thread.
+     */
+    async registerPost(form: FormDefinition, post: PostRecord, thread?: ThreadChannel | null): Promise<void> {
+        if (!form.project || !post.threadId) return;
+
+        const existing = await this.getProject(post.threadId);
+        const now = Date.now();
+
+        let launchMessageId = existing?.launchMessageId;
+        if (!existing && thread && form.project.launchFormId) {
+            try {
+                const message = await thread.send({
+                    content: 'Shipped it? When this project goes live, let the community know:',
+                    components: [this.buildLaunchButton(thread.id)],
+                });
+                launchMessageId = message.id;
+            } catch (error) {
+                console.warn(`Could not post launch button in thread ${thread.id}:`, error);
+            }
+        }
+
+        await this.saveProject({
+            updates: 0,
+            createdAt: now,
+            status: form.project.status,
+            ...existing,
+            guildId: post.guildId,
+            ownerId: post.userId,
+            name: post.values[form.project.nameField] ?? '',
+            description: post.values[form.project.descriptionField] ?? '',
+            threadId: post.threadId,
+            formId: form.id,
+            channelId: post.channelId,
+            messageId: post.messageId,
+            launchMessageId,
+            updatedAt: now,
+        });
+    }
+
+    private formatStatus(status: string): string {
+        return status.charAt(0).toUpperCase() + status.slice(1);
+    }
+
+    private isMod(interaction: ButtonInteraction | ModalSubmitInteraction): boolean {
+        const roles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        return Boolean(MOD_ROLE_ID && roles?.cache.has(MOD_ROLE_ID));
+    }
+
+    // ==================== Mark as launched ====================
+
+    private buildLaunchButton(threadId: string): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+                .setCustomId(`project_launch|${threadId}`)
+                .setLabel('Mark as launched')
+                .setEmoji(EMOJI.ROCKET)
+                .setStyle(ButtonStyle.Success)
+        );
+    }
+
+    /**
+     * The project and launch form behind a project_launch|<threadId> interaction, if the user
+     * may launch it (owner or mod). Replies with the reason otherwise.
+     */
+    async resolveLaunch(interaction: ButtonInteraction | ModalSubmitInteraction): Promise<{ project: ProjectRecord; form: FormDefinition } | null> {
+        const [, threadId] = interaction.customId.split('|');
+        const project = await this.getProject(threadId);
+        const sourceForm = project ? formService.getForm(project.formId) : undefined;
+        const form = sourceForm?.project?.launchFormId ? formService.getForm(sourceForm.project.launchFormId) : undefined;
+
+        if (!project || !form) {
+            await interaction.reply({ content: 'This project can no longer be launched from here.', ephemeral: true });
+            return null;
+        }
+        if (interaction.user.id !== project.ownerId && !this.isMod(interaction)) {
+            await interaction.reply({ content: 'Only the project owner or a moderator can mark it as launched.', ephemeral: true });
+            return null;
+        }
+        if (project.launchedPostUrl) {
+            await interaction.reply({ content: `This project has already launched: ${project.launchedPostUrl}`, ephemeral: true });
+            return null;
+        }
+
+        return { project, form };
+    }
+
+    /**
+     * "Mark as launched" button: open the launch form prefilled from the project
+     */
+    public async handleLaunchButton(interaction: ButtonInteraction) {
+        const target = await this.resolveLaunch(interaction);
+        if (!target) return;
+
+        const { project, form } = target;
+        const prefill: Record<string, string> = {};
+        if (form.project) {
+            prefill[form.project.nameField] = project.name;
+            prefill[form.project.descriptionField] = project.description;
+        }
+
+        // The modal submit is handled like any form submission, with the project as its origin
+        const locale = await i18nService.detectLocale(interaction.user.id, interaction.locale);
+        await interaction.showModal(formService.buildModal(formService.localize(form, locale), `project_launch|${project.threadId}`, prefill));
+    }
+
+    /**
+     * After the launch post is live: flag the original project and leave a notice in its thread
+     */
+    async markLaunched(client: Client, threadId: string, launchPost: PostRecord): Promise<void> {
+        const project = await this.getProject(threadId);
+        if (!project) return;
+
+        project.status = formService.getForm(launchPost.formId)?.project?.status ?? 'launched';
+        project.launchedPostUrl = buildMessageUrl(launchPost.guildId, launchPost.channelId, launchPost.messageId);
+        project.updatedAt = Date.now();
+        await this.saveProject(project);
+
+        try {
+            const thread = await client.channels.fetch(threadId).catch(() => null);
+            if (!thread?.isThread()) return;
+            if (thread.archived) await thread.setArchived(false);
+
+            await thread.send(`${EMOJI.ROCKET} **${project.name} has launched!** Check out the showcase: ${project.launchedPostUrl}`);
+
+            if (project.launchMessageId) {
+                const launchMessage = await thread.messages.fetch(project.launchMessageId).catch(() => null);
+                await launchMessage?.edit({ components: [] });
+            }
+
+            // Forum posts get a "Launched" tag when the forum has one; every thread gets the rocket prefix
+            const parent = thread.parent;
+            if (parent?.type === ChannelType.GuildForum) {
+                const tag = parent.availableTags.find(t => /launched/i.test(t.name));
+                if (tag && !thread.appliedTags.includes(tag.id)) {
+                    await thread.setAppliedTags([...thread.appliedTags, tag.id].slice(0, 5));
+                }
+            }
+            if (!thread.name.startsWith(EMOJI.ROCKET)) {
+                await thread.setName(`${EMOJI.ROCKET} ${thread.name}`.slice(0, LIMITS.MAX_THREAD_TITLE_LENGTH));
+            }
+        } catch (error) {
+            console.warn(`Could not update launched project thread ${threadId}:`, error);
+        }
+    }
+
+    // ==================== /project update ====================
+
+    public async handleUpdateCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const projects = await this.getProjectsForUser(interaction.guildId, interaction.user.id);
+        if (projects.length === 0) {
+            await interaction.reply({ content: "You don't have any registered projects yet. Share what you're working on first!", ephemeral: true });
+            return;
+        }
+
+        const query = interaction.options.getString('project')?.trim().toLowerCase();
+        const matches = query
+            ? projects.filter(project => project.name.toLowerCase().includes(query))
+            : projects;
+
+        if (matches.length !== 1) {
+            const names = projects.map(project => `• ${project.name}`).join('\n');
+            await interaction.reply({
+                content: matches.length === 0
+                    ? `No project of yours matches "${query}". Your projects:\n${names}`
+                    : `You have several projects, pick one with the \`project\` option:\n${names}`,
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const project = matches[0];
+        const input = new TextInputBuilder()
+            .setCustomId('update_text')
+            .setLabel("What's new?")
+            .setStyle(TextInputStyle.Paragraph)
+            .setPlaceholder('Shipped a feature, hit a milestone, need feedback on something...')
+            .setRequired(true)
+            .setMaxLength(MAX_UPDATE_LENGTH);
+
+        const modal = new ModalBuilder()
+            .setCustomId(`project_update|${project.threadId}`)
+            .setTitle(truncate(`Update: ${project.name}`, 45))
+            .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input));
+        await interaction.showModal(modal);
+    }
+
+    /**
+     * Submission of the update modal: project_update|<threadId>
+     */
+    public async handleUpdateSubmit(interaction: ModalSubmitInteraction) {
+        const [, threadId] = interaction.customId.split('|');
+        const project = await this.getProject(threadId);
+        if (!project || project.ownerId !== interaction.user.id) {
+            await interaction.reply({ content: 'Could not find that project.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const thread = await interaction.client.channels.fetch(project.threadId).catch(() => null);
+            if (!thread?.isThread()) {
+                await interaction.editReply({ content: 'The thread for this project no longer exists. Contact a mod.' });
+                return;
+            }
+
+            // Archived threads must be reopened before anyone can post in them
+            if (thread.archived) await thread.setArchived(false);
+
+            const embed = new EmbedBuilder()
+                .setColor(COLORS.PRIMARY_GREEN)
+                .setTitle(`${EMOJI.ROCKET} Progress update #${project.updates + 1}: ${project.name}`)
+                .setDescription(interaction.fields.getTextInputValue('update_text').trim())
+                .setFooter({ text: `Posted by ${interaction.user.username}` })
+                .setTimestamp();
+            const message = await thread.send({ embeds: [embed] });
+
+            project.updates++;
+            project.lastUpdateAt = Date.now();
+            project.updatedAt = project.lastUpdateAt;
+            await this.saveProject(project);
+
+            await interaction.editReply({ content: `Your update has been posted! ✅ ${message.url}` });
+        } catch (error) {
+            console.error(`Failed to post project update for thread ${threadId}:`, error);
+            await interaction.editReply({ content: 'Could not post your update. Contact a mod.' });
+        }
+    }
+
+    // ==================== /projects ====================
+
+    public async handleProjectsCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const user = interaction.options.getUser('user') ?? interaction.user;
+        const projects = await this.getProjectsForUser(interaction.guildId, user.id);
+
+        const embed = new EmbedBuilder()
+            .setColor(COLORS.PRIMARY_GREEN)
+            .setTitle(`${EMOJI.WORKING} Projects by ${user.username}`);
+
+        if (projects.length === 0) {
+            embed.setDescription(user.id === interaction.user.id
+                ? "You haven't shared a project yet."
+                : `<@${user.id}> hasn't shared a project yet.`);
+        } else {
+            embed.setDescription(projects.slice(0, MAX_PROJECTS_LISTED).map(project => {
+                const lastActivity = Math.floor((project.lastUpdateAt ?? project.createdAt) / 1000);
+                const links = `[thread](${buildChannelUrl(project.guildId, project.threadId)}) • [post](${buildMessageUrl(project.guildId, project.channelId, project.messageId)})`;
+                const launched = project.launchedPostUrl ? ` → [showcase](${project.launchedPostUrl})` : '';
+                return [
+                    `**${project.name}** — ${this.formatStatus(project.status)}${launched}`,
+                    `> ${truncate(project.description.replace(/\s+/g, ' '), 150)}`,
+                    `${links} • ${project.updates} update${project.updates !== 1 ? 's' : ''} • last activity <t:${lastActivity}:R>`,
+                ].join('\n');
+            }).join('\n\n').slice(0, LIMITS.EMBED_DESCRIPTION_MAX));
+
+            if (projects.length > MAX_PROJECTS_LISTED) {
+                embed.setFooter({ text: `Showing ${MAX_PROJECTS_LISTED} of ${projects.length} projects` });
+            }
+        }
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+}
+
+export const projectService = new ProjectService();
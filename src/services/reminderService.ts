@@ -1,24 +1,55 @@
 /**
- * Reminder service for 24-hour intro incomplete reminders (In-Memory)
+ * Reminder service for the multi-stage onboarding reminder sequence (persisted via storageService)
+ *
+ * Each member gets one reminder record that walks through the configured stages
+ * (24h, 3 days, 7 days by default). The sequence stops as soon as the member has
+ * completed onboarding, has left the guild, or the last stage was sent.
  */
 
 import cron from 'node-cron';
-import { Client, User, ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+import { Client, User, DiscordAPIError, RESTJSONErrorCodes } from 'discord.js';
 import { createReminderEmbed } from '../utils/embeds.js';
 import { DURATION } from '../utils/constants.js';
+import { loadJsonConfig } from '../utils/config.js';
+import { DEFAULT_REMINDERS_CONFIG, ReminderStage, RemindersConfig } from '../config/reminders.js';
+import { BuilderRequirement } from '../config/forms.js';
+import { storageService } from './storageService.js';
+import { completionService } from './completionService.js';
+import { formService } from './formService.js';
+import { analyticsService } from './analyticsService.js';
+import { dmFallbackService } from './dmFallbackService.js';
+import { onboardingDmService } from './onboardingDmService.js';
+import { i18nService } from './i18nService.js';
+
+type StopReason = 'completed' | 'left_guild' | 'finished';
 
 interface Reminder {
     guildId: string;
     userId: string;
-    reminderType: string;
-    scheduledFor: Date;
-    sent: boolean;
+    startedAt: number;
+    nextStage: number; // Index into the configured stages
+    scheduledFor: number; // Unix ms when nextStage is due
+    done: boolean;
+    stopReason?: StopReason;
 }
 
+const REMINDERS_CONFIG_FILE = 'reminders.json';
+const HOUR_MS = 60 * 60 * 1000;
+
 class ReminderService {
     private client: Client | null = null;
     private cronJob: cron.ScheduledTask | null = null;
-    private reminders: Reminder[] = [];
+    private reminders = storageService.collection<Reminder>('reminders');
+    private stages: ReminderStage[];
+
+    constructor() {
+        const config = loadJsonConfig<RemindersConfig>(REMINDERS_CONFIG_FILE) ?? DEFAULT_REMINDERS_CONFIG;
+        this.stages = [...config.stages].sort((a, b) => a.delayHours - b.delayHours);
+    }
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
 
     /**
      * Initialize the reminder service with Discord client
@@ -26,51 +57,55 @@ class ReminderService {
     initialize(client: Client): void {
         this.client = client;
 
-        // Schedule cron job to run every hour
+        // Schedule cron job to run every hour, replacing any job from an earlier call
+        this.cronJob?.stop();
         this.cronJob = cron.schedule(DURATION.REMINDER_CHECK_INTERVAL, async () => {
             await this.processPendingReminders();
         });
 
-        console.log('✅ Reminder service initialized (In-Memory)');
+        // Catch up on anything that came due while the bot was offline
+        this.processPendingReminders().catch(error => console.error('Failed to process reminders on startup:', error));
+
+        console.log(`✅ Reminder service initialized (${this.stages.map(s => s.id).join(' → ')})`);
     }
 
     /**
-     * Schedule a 24-hour reminder for a user
+     * Start the reminder sequence for a user
      */
     async scheduleReminder(guildId: string, userId: string): Promise<void> {
-        const scheduledFor = new Date(Date.now() + DURATION.REMINDER_DELAY_MS);
+        if (this.stages.length === 0) return;
 
-        // Check if already exists
-        const exists = this.reminders.some(
-            r => r.guildId === guildId && r.userId === userId && r.reminderType === '24h_intro_incomplete' && !r.sent
-        );
+        const key = this.key(guildId, userId);
+        const existing = await this.reminders.get(key);
 
-        if (exists) {
+        if (existing && !existing.done) {
             console.log(`Reminder already scheduled for user ${userId}`);
             return;
         }
 
-        this.reminders.push({
+        const startedAt = Date.now();
+        const scheduledFor = startedAt + this.stages[0].delayHours * HOUR_MS;
+
+        await this.reminders.set(key, {
             guildId,
             userId,
-            reminderType: '24h_intro_incomplete',
+            startedAt,
+            nextStage: 0,
             scheduledFor,
-            sent: false,
+            done: false,
         });
 
-        console.log(`Scheduled 24h reminder for user ${userId} at ${scheduledFor.toISOString()}`);
+        console.log(`Scheduled ${this.stages[0].id} reminder for user ${userId} at ${new Date(scheduledFor).toISOString()}`);
     }
 
     /**
-     * Cancel a reminder for a user
+     * Stop the reminder sequence for a user (e.g. they completed onboarding)
      */
     async cancelReminder(guildId: string, userId: string): Promise<void> {
-        const index = this.reminders.findIndex(
-            r => r.guildId === guildId && r.userId === userId && r.reminderType === '24h_intro_incomplete' && !r.sent
-        );
+        const reminder = await this.reminders.get(this.key(guildId, userId));
 
-        if (index !== -1) {
-            this.reminders.splice(index, 1);
+        if (reminder && !reminder.done) {
+            await this.stopSequence(reminder, 'completed');
             console.log(`Cancelled reminder for user ${userId}`);
         }
     }
@@ -81,57 +116,133 @@ class ReminderService {
     private async processPendingReminders(): Promise<void> {
         if (!this.client) return;
 
-        const now = new Date();
-        const pendingReminders = this.reminders.filter(r => !r.sent && r.scheduledFor <= now);
+        const now = Date.now();
+        const pendingReminders = (await this.reminders.all()).filter(r => !r.done && r.scheduledFor <= now);
 
         console.log(`Processing ${pendingReminders.length} pending reminders`);
 
         for (const reminder of pendingReminders) {
-            await this.sendReminder(reminder);
+            await this.processReminder(reminder);
         }
     }
 
+    private dueAt(reminder: Reminder, stageIndex: number): number {
+        return reminder.startedAt + this.stages[stageIndex].delayHours * HOUR_MS;
+    }
+
     /**
-     * Send a reminder to a user
+     * Send the due stage (if the member still needs it) and move the sequence forward
      */
-    private async sendReminder(reminder: Reminder): Promise<void> {
-        if (!this.client) return;
+    private async processReminder(reminder: Reminder): Promise<void> {
+        // After downtime or a late start several stages can be overdue: only send the latest one
+        const now = Date.now();
+        while (reminder.nextStage + 1 < this.stages.length && this.dueAt(reminder, reminder.nextStage + 1) <= now) {
+            reminder.nextStage++;
+        }
+
+        const stage = this.stages[reminder.nextStage];
+        if (!stage) {
+            await this.stopSequence(reminder, 'finished');
+            return;
+        }
 
         try {
-            // Send reminder DM
-            try {
-                const user: User = await this.client.users.fetch(reminder.userId);
-                const embed = createReminderEmbed(reminder.userId);
-
-                // Include the welcome buttons again
-                const introButton = new ButtonBuilder()
-                    .setCustomId(`open_modal|intro|${reminder.userId}|${reminder.guildId}|${process.env.INTRO_CHANNEL_ID}`)
-                    .setLabel('Fill Introduction')
-                    .setStyle(ButtonStyle.Primary);
-
-                const workingButton = new ButtonBuilder()
-                    .setCustomId(`open_modal|working|${reminder.userId}|${reminder.guildId}|${process.env.WORKING_ON_CHANNEL_ID}`)
-                    .setLabel("Fill What I'm Working On")
-                    .setStyle(ButtonStyle.Primary);
-
-                const row = new ActionRowBuilder<ButtonBuilder>().addComponents(introButton, workingButton);
-
-                await user.send({ embeds: [embed], components: [row] });
-
-                // Mark as sent
-                reminder.sent = true;
-
-                console.log(`✅ Sent 24h reminder to user ${reminder.userId}`);
-            } catch (dmError) {
-                console.warn(`Could not send reminder DM to user ${reminder.userId}:`, dmError);
-                // Mark as sent anyway to avoid retry spam
-                reminder.sent = true;
+            if (!(await this.isStillMember(reminder))) {
+                await this.stopSequence(reminder, 'left_guild');
+                return;
             }
+
+            const record = await completionService.getCompletions(reminder.guildId, reminder.userId);
+            const missing = formService.getMissingRequirements(record?.completions ?? []);
+            if (missing.length === 0) {
+                await this.stopSequence(reminder, 'completed');
+                return;
+            }
+
+            await this.sendReminder(reminder, stage, missing);
+        } catch (error) {
+            console.error('Failed to process reminder:', error);
+        }
+
+        // Advance either way to avoid retry spam
+        reminder.nextStage++;
+        const next = this.stages[reminder.nextStage];
+        if (next) {
+            reminder.scheduledFor = this.dueAt(reminder, reminder.nextStage);
+            await this.reminders.set(this.key(reminder.guildId, reminder.userId), reminder);
+        } else {
+            await this.stopSequence(reminder, 'finished');
+        }
+    }
+
+    /**
+     * False only when Discord confirms the member is no longer in the guild
+     */
+    private async isStillMember(reminder: Reminder): Promise<boolean> {
+        if (!this.client) return false;
+
+        try {
+            const guild = await this.client.guilds.fetch(reminder.guildId);
+            await guild.members.fetch(reminder.userId);
+            return true;
         } catch (error) {
-            console.error('Failed to send reminder:', error);
+            if (error instanceof DiscordAPIError && error.code === RESTJSONErrorCodes.UnknownMember) {
+                return false;
+            }
+            console.warn(`Could not verify membership for user ${reminder.userId}, sending reminder anyway:`, error);
+            return true;
         }
     }
 
+    /**
+     * Send one reminder stage with buttons for the forms that are still missing
+     */
+    private async sendReminder(reminder: Reminder, stage: ReminderStage, missing: BuilderRequirement[]): Promise<void> {
+        if (!this.client) return;
+
+        const locale = await i18nService.getLocale(reminder.userId);
+        const localizedStage: ReminderStage = {
+            ...stage,
+            title: i18nService.t(locale, `reminders.${stage.id}.title`, {}, stage.title),
+            description: i18nService.t(locale, `reminders.${stage.id}.description`, {}, stage.description),
+        };
+
+        const missingLines = missing.map(requirement =>
+            requirement.forms
+                .map(formId => {
+                    const form = formService.getForm(formId);
+                    return form ? formService.localize(form, locale).buttonLabel : formId;
+                })
+                .join(` ${i18nService.t(locale, 'reminder.or')} `)
+        );
+        const embed = createReminderEmbed(reminder.userId, localizedStage, missingLines);
+        const formIds = missing.flatMap(r => r.forms);
+        const rows = formService.buildFormButtons(reminder.guildId, reminder.userId, formIds, locale);
+
+        try {
+            const user: User = await this.client.users.fetch(reminder.userId);
+            const message = await user.send({ embeds: [embed], components: rows });
+            await analyticsService.track(reminder.guildId, reminder.userId, 'reminder_sent', { stage: stage.id });
+            await onboardingDmService.track(reminder.guildId, reminder.userId, message, formIds);
+
+            console.log(`✅ Sent ${stage.id} reminder to user ${reminder.userId}`);
+        } catch (dmError) {
+            // DMs closed: use the member's private onboarding thread if they have one
+            const sentToThread = await dmFallbackService.sendToThread(reminder.guildId, reminder.userId, { content: `<@${reminder.userId}>`, embeds: [embed], components: rows });
+            if (sentToThread) {
+                await analyticsService.track(reminder.guildId, reminder.userId, 'reminder_sent', { stage: stage.id });
+                return;
+            }
+            console.warn(`Could not send ${stage.id} reminder DM to user ${reminder.userId}:`, dmError);
+        }
+    }
+
+    private async stopSequence(reminder: Reminder, reason: StopReason): Promise<void> {
+        reminder.done = true;
+        reminder.stopReason = reason;
+        await this.reminders.set(this.key(reminder.guildId, reminder.userId), reminder);
+    }
+
     /**
      * Stop the reminder service
      */
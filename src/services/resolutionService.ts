@@ -0,0 +1,305 @@
+/**
+ * Resolution service: what happens when a help thread is marked as resolved. The thread is
+ * renamed with a ✅ prefix, forum posts swap their "Open" tag for "Resolved", the time to
+ * resolution is recorded, and the thread is archived or locked once a grace period is over.
+ * A Reopen button on the resolution notice undoes all of it. Records of closed threads are
+ * kept for DURATION.RESOLUTION_RECORD_TTL days so they can still be reopened.
+ *
+ * RESOLVED_TAG               = Forum tag (name or id) applied to resolved posts (default: Resolved)
+ * OPEN_TAG                   = Forum tag (name or id) removed from resolved posts (default: Open)
+ * RESOLVED_CLOSE_AFTER_HOURS = Grace period before a resolved thread is closed (default: 24)
+ * RESOLVED_CLOSE_ACTION      = `archive`, or `lock` to also stop members from posting (default: archive)
+ */
+
+import cron from 'node-cron';
+import {
+    ActionRow,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonComponent,
+    ButtonInteraction,
+    ButtonStyle,
+    ChannelType,
+    Client,
+    GuildForumTag,
+    GuildMember,
+    Message,
+    TextChannel,
+    ThreadChannel,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { digestService } from './digestService.js';
+import { DURATION, EMOJI, LIMITS, formatDuration } from '../utils/constants.js';
+import { pruneExpired } from '../utils/retention.js';
+
+dotenv.config();
+
+const CONFIG = {
+    RESOLVED_TAG: process.env.RESOLVED_TAG || 'Resolved',
+    OPEN_TAG: process.env.OPEN_TAG || 'Open',
+    CLOSE_AFTER_MS: Number(process.env.RESOLVED_CLOSE_AFTER_HOURS || 24) * 60 * 60 * 1000,
+    CLOSE_ACTION: process.env.RESOLVED_CLOSE_ACTION === 'lock' ? 'lock' : 'archive',
+    MOD_ROLE_ID: process.env.MOD_ROLE_ID,
+};
+
+const RESOLVED_PREFIX = `${EMOJI.CHECK} `;
+
+export interface ThreadResolution {
+    guildId: string;
+    threadId: string;
+    resolvedBy: string;
+    resolvedAt: number;
+    // What to restore on reopen
+    previousName: string;
+    previousTags: string[];
+    closeAt: number;
+    closedAt?: number;
+}
+
+/**
+ * A forum tag by id or by case-insensitive name
+ */
+export function findTag(tags: Array<Pick<GuildForumTag, 'id' | 'name'>>, ref: string): Pick<GuildForumTag, 'id' | 'name'> | undefined {
+    return tags.find(tag => tag.id === ref) ?? tags.find(tag => tag.name.toLowerCase() === ref.toLowerCase());
+}
+
+/**
+ * Applied tags once resolved: without the open tag, with the resolved tag first so it survives the tag limit
+ */
+export function resolvedTags(applied: string[], openTagId?: string, resolvedTagId?: string): string[] {
+    const kept = applied.filter(id => id !== openTagId && id !== resolvedTagId);
+    return [...(resolvedTagId ? [resolvedTagId] : []), ...kept].slice(0, LIMITS.FORUM_APPLIED_TAGS_MAX);
+}
+
+export function resolvedName(name: string): string {
+    if (name.startsWith(RESOLVED_PREFIX)) return name;
+    return `${RESOLVED_PREFIX}${name}`.slice(0, LIMITS.MAX_THREAD_TITLE_LENGTH);
+}
+
+class ResolutionService {
+    private client: Client | null = null;
+    private cronJob: cron.ScheduledTask | null = null;
+    private resolutions = storageService.collection<ThreadResolution>('thread_resolutions');
+
+    initialize(client: Client): void {
+        this.client = client;
+
+        this.cronJob = cron.schedule(DURATION.RESOLUTION_CHECK_INTERVAL, async () => {
+            await this.closeDueThreads();
+        });
+
+        console.log(`✅ Resolution service initialized (${CONFIG.CLOSE_ACTION} after ${formatDuration(CONFIG.CLOSE_AFTER_MS)})`);
+    }
+
+    private isMod(interaction: ButtonInteraction): boolean {
+        const member = interaction.member as GuildMember | null;
+        return Boolean(CONFIG.MOD_ROLE_ID && member?.roles.cache.has(CONFIG.MOD_ROLE_ID));
+    }
+
+    /**
+     * Whether the member who pressed the button asked the question: the thread's starter
+     * message author, or the author of the message the bot answer replies to
+     */
+    private async isPoster(interaction: ButtonInteraction): Promise<boolean> {
+        if (interaction.channel?.isThread()) {
+            const thread = interaction.channel as ThreadChannel;
+            try {
+                const starterMessage = await thread.fetchStarterMessage();
+                return interaction.user.id === starterMessage?.author.id;
+            } catch {
+                // Fallback to ownerId if starter message is inaccessible
+                return interaction.user.id === thread.ownerId;
+            }
+        }
+
+        if (interaction.message.reference?.messageId) {
+            try {
+                const originalMsg = await interaction.channel?.messages.fetch(interaction.message.reference.messageId);
+                return interaction.user.id === originalMsg?.author.id;
+            } catch {
+                // Ignore fetch errors
+            }
+        }
+        return false;
+    }
+
+    /**
+     * The message's buttons with the one matching `customId` disabled
+     */
+    private disableButton(message: Message, customId: string): ActionRowBuilder<ButtonBuilder>[] {
+        return message.components
+            .filter(row => row instanceof ActionRow)
+            .map(row => new ActionRowBuilder<ButtonBuilder>().addComponents(
+                row.components
+                    .filter(component => component instanceof ButtonComponent)
+                    .map(component => {
+                        const button = ButtonBuilder.from(component);
+                        return component.customId === customId ? button.setDisabled(true) : button;
+                    })
+            ));
+    }
+
+    private buildButtonRow(customId: string, label: string, style: ButtonStyle): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder().setCustomId(customId).setLabel(label).setStyle(style)
+        );
+    }
+
+    private getForumTags(thread: ThreadChannel): { openTagId?: string; resolvedTagId?: string } | null {
+        const parent = thread.parent;
+        if (parent?.type !== ChannelType.GuildForum) return null;
+
+        const available = parent.availableTags;
+        const resolvedTagId = findTag(available, CONFIG.RESOLVED_TAG)?.id;
+        if (!resolvedTagId) {
+            console.warn(`[ResolutionService] Forum ${thread.parentId} has no "${CONFIG.RESOLVED_TAG}" tag.`);
+        }
+        return { openTagId: findTag(available, CONFIG.OPEN_TAG)?.id, resolvedTagId };
+    }
+
+    public async handleResolveButton(interaction: ButtonInteraction) {
+        if (!this.isMod(interaction) && !(await this.isPoster(interaction))) {
+            await interaction.reply({
+                content: "You're not allowed to do that. Only the person who posted the message or a moderator can mark it as resolved.",
+                ephemeral: true
+            });
+            return;
+        }
+
+        await interaction.update({ components: this.disableButton(interaction.message, 'mark_resolved') });
+
+        if (!interaction.channel?.isThread()) {
+            if (interaction.channel && 'send' in interaction.channel) {
+                await (interaction.channel as TextChannel).send(`This query has been marked as resolved by <@${interaction.user.id}>.`);
+            }
+            return;
+        }
+
+        const thread = interaction.channel as ThreadChannel;
+        const resolvedAt = Date.now();
+        const timeToResolutionMs = thread.createdTimestamp ? resolvedAt - thread.createdTimestamp : undefined;
+        await digestService.recordResolved(thread, interaction.user.id, timeToResolutionMs);
+
+        const existing = await this.resolutions.get(thread.id);
+        await this.resolutions.set(thread.id, {
+            guildId: thread.guildId,
+            threadId: thread.id,
+            resolvedBy: interaction.user.id,
+            resolvedAt,
+            // Keep the original state if the thread is resolved twice without a reopen
+            previousName: existing?.previousName ?? thread.name,
+            previousTags: existing?.previousTags ?? [...thread.appliedTags],
+            closeAt: resolvedAt + CONFIG.CLOSE_AFTER_MS,
+        });
+
+        const took = timeToResolutionMs !== undefined ? ` Resolved in ${formatDuration(timeToResolutionMs)}.` : '';
+        await thread.send({
+            content: `This query has been marked as resolved by <@${interaction.user.id}>.${took} ` +
+                `The thread will be ${CONFIG.CLOSE_ACTION === 'lock' ? 'locked' : 'archived'} in ${formatDuration(CONFIG.CLOSE_AFTER_MS)}; press Reopen if you still need help.`,
+            components: [this.buildButtonRow('reopen_thread', 'Reopen', ButtonStyle.Secondary)],
+        });
+
+        try {
+            const tags = this.getForumTags(thread);
+            await thread.edit({
+                name: resolvedName(thread.name),
+                ...(tags ? { appliedTags: resolvedTags(thread.appliedTags, tags.openTagId, tags.resolvedTagId) } : {}),
+                reason: `Marked as resolved by ${interaction.user.tag}`,
+            });
+        } catch (error) {
+            console.error(`[ResolutionService] Failed to rename or retag resolved thread ${thread.id}:`, error);
+        }
+    }
+
+    public async handleReopenButton(interaction: ButtonInteraction) {
+        if (!interaction.channel?.isThread()) return;
+        const thread = interaction.channel as ThreadChannel;
+
+        if (!this.isMod(interaction) && !(await this.isPoster(interaction))) {
+            await interaction.reply({
+                content: "You're not allowed to do that. Only the person who posted the message or a moderator can reopen it.",
+                ephemeral: true
+            });
+            return;
+        }
+
+        const resolution = await this.resolutions.get(thread.id);
+        if (!resolution) {
+            await interaction.reply({ content: 'This thread is not marked as resolved.', ephemeral: true });
+            return;
+        }
+
+        // A closed thread can't be edited, so open it up before touching the notice
+        await interaction.deferUpdate();
+        await this.resolutions.delete(thread.id);
+        await digestService.forgetResolved(thread.id);
+
+        try {
+            if (thread.archived || thread.locked) {
+                await thread.edit({ archived: false, locked: false, reason: `Reopened by ${interaction.user.tag}` });
+            }
+            await thread.edit({
+                name: resolution.previousName,
+                ...(thread.parent?.type === ChannelType.GuildForum ? { appliedTags: resolution.previousTags } : {}),
+                reason: `Reopened by ${interaction.user.tag}`,
+            });
+        } catch (error) {
+            console.error(`[ResolutionService] Failed to restore reopened thread ${thread.id}:`, error);
+        }
+
+        await interaction.editReply({ components: this.disableButton(interaction.message, 'reopen_thread') });
+
+        await thread.send({
+            content: `This query has been reopened by <@${interaction.user.id}>.`,
+            components: [this.buildButtonRow('mark_resolved', 'My query is resolved', ButtonStyle.Success)],
+        });
+        console.log(`[ResolutionService] ${interaction.user.tag} reopened thread ${thread.id}`);
+    }
+
+    /**
+     * Archive (or lock) resolved threads whose grace period is over, and forget ones closed long ago
+     */
+    private async closeDueThreads(): Promise<void> {
+        if (!this.client) return;
+
+        const now = Date.now();
+        const pruned = await pruneExpired(this.resolutions, DURATION.RESOLUTION_RECORD_TTL, resolution => resolution.closedAt, now);
+        if (pruned > 0) {
+            console.log(`[ResolutionService] Forgot ${pruned} resolved thread(s) closed over ${DURATION.RESOLUTION_RECORD_TTL} days ago`);
+        }
+
+        const due = (await this.resolutions.all()).filter(resolution => !resolution.closedAt && resolution.closeAt <= now);
+
+        for (const resolution of due) {
+            try {
+                // A deleted thread counts as closed
+                const thread = await this.client.channels.fetch(resolution.threadId).catch(() => null);
+                if (thread?.isThread()) {
+                    await thread.edit({
+                        archived: true,
+                        ...(CONFIG.CLOSE_ACTION === 'lock' ? { locked: true } : {}),
+                        reason: 'Resolved thread grace period is over',
+                    });
+                }
+            } catch (error) {
+                console.warn(`[ResolutionService] Failed to close resolved thread ${resolution.threadId}:`, error);
+                continue;
+            }
+
+            await this.resolutions.set(resolution.threadId, { ...resolution, closedAt: now });
+        }
+
+        if (due.length > 0) {
+            console.log(`[ResolutionService] Closed ${due.length} resolved thread(s)`);
+        }
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const resolutionService = new ResolutionService();
@@ -0,0 +1,322 @@
+/**
+ * Review service: optional pre-moderation queue for onboarding submissions.
+ * Submissions that trip the spam checks are held in a mod review channel with
+ * Approve / Reject / Edit buttons and are only published once approved.
+ *
+ * SUBMISSION_REVIEW_CHANNEL_ID = Mod channel for held submissions (review mode is off when unset)
+ * SUBMISSION_REVIEW_MODE       = `suspicious` (default) to hold only flagged submissions, `all` to hold every one
+ */
+
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    Client,
+    EmbedBuilder,
+    GuildMemberRoleManager,
+    ModalSubmitInteraction,
+    TextChannel,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { FormDefinition } from '../config/forms.js';
+import { formService } from './formService.js';
+import { moderationService } from './moderationService.js';
+import { storageService } from './storageService.js';
+import { COLORS, LIMITS } from '../utils/constants.js';
+import { truncate } from '../utils/formatting.js';
+
+dotenv.config();
+
+const CONFIG = {
+    REVIEW_CHANNEL_ID: process.env.SUBMISSION_REVIEW_CHANNEL_ID,
+    REVIEW_ALL: process.env.SUBMISSION_REVIEW_MODE === 'all',
+    MOD_ROLE_ID: process.env.MOD_ROLE_ID,
+};
+
+type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+interface PendingSubmission {
+    guildId: string;
+    userId: string;
+    formId: string;
+    channelId: string;
+    values: Record<string, string>;
+    reasons: string[];
+    // Project thread the submission launches from (see "Mark as launched")
+    launchedFrom?: string;
+    reviewChannelId: string;
+    reviewMessageId: string;
+    status: ReviewStatus;
+    reviewedBy?: string;
+    createdAt: number;
+    updatedAt: number;
+}
+
+/**
+ * Publishes an approved submission and returns the confirmation text for the member,
+ * or null if the destination channel is missing
+ */
+export type PublishSubmission = (
+    form: FormDefinition,
+    guildId: string,
+    userId: string,
+    channelId: string,
+    values: Record<string, string>,
+    launchedFrom?: string
+) => Promise<string | null>;
+
+class ReviewService {
+    private submissions = storageService.collection<PendingSubmission>('pending_submissions');
+
+    // Launches of different projects are held side by side, like their showcase posts
+    private key(guildId: string, userId: string, formId: string, launchedFrom?: string): string {
+        return launchedFrom ? `${guildId}:${userId}:${formId}:${launchedFrom}` : `${guildId}:${userId}:${formId}`;
+    }
+
+    /**
+     * Reasons a submission looks suspicious (banned sentences, invite/shortened links, link spam).
+     * Links fields are meant to hold several links, so they don't count toward the link limit.
+     */
+    assess(form: FormDefinition, values: Record<string, string>): string[] {
+        const text = Object.values(values).join('\n');
+        const reasons: string[] = [];
+
+        const sentence = moderationService.matchBannedSentence(text);
+        if (sentence) reasons.push(`Matches banned sentence: "${sentence}"`);
+
+        const valuesOf = (linkFields: boolean) => form.fields
+            .filter(field => Boolean(field.links) === linkFields)
+            .map(field => values[field.id] ?? '')
+            .join('\n');
+        reasons.push(...moderationService.checkLinks(valuesOf(false)));
+        reasons.push(...moderationService.checkLinks(valuesOf(true), Infinity));
+        return reasons;
+    }
+
+    /**
+     * Hold the submission for review if review mode applies to it.
+     * Returns true when it was queued instead of published.
+     */
+    async holdIfNeeded(
+        client: Client,
+        form: FormDefinition,
+        guildId: string,
+        userId: string,
+        channelId: string,
+        values: Record<string, string>,
+        launchedFrom?: string
+    ): Promise<boolean> {
+        if (!CONFIG.REVIEW_CHANNEL_ID) return false;
+
+        const reasons = this.assess(form, values);
+        if (reasons.length === 0 && !CONFIG.REVIEW_ALL) return false;
+
+        const reviewChannel = await client.channels.fetch(CONFIG.REVIEW_CHANNEL_ID).catch(() => null);
+        if (!reviewChannel || !(reviewChannel instanceof TextChannel)) {
+            // Fail closed: never publish a flagged submission just because the queue is misconfigured
+            console.error(`[ReviewService] Review channel ${CONFIG.REVIEW_CHANNEL_ID} not found or is not a text channel.`);
+            throw new Error('Review channel unavailable');
+        }
+
+        const key = this.key(guildId, userId, form.id, launchedFrom);
+        const previous = await this.submissions.get(key);
+        if (previous?.status === 'pending') {
+            await this.closeReviewMessage(client, previous, 'Superseded by a newer submission');
+        }
+
+        const now = Date.now();
+        const submission: PendingSubmission = {
+            guildId,
+            userId,
+            formId: form.id,
+            channelId,
+            values,
+            reasons,
+            launchedFrom,
+            reviewChannelId: reviewChannel.id,
+            reviewMessageId: '',
+            status: 'pending',
+            createdAt: now,
+            updatedAt: now,
+        };
+
+        const message = await reviewChannel.send({
+            embeds: [this.buildReviewEmbed(form, submission)],
+            components: [this.buildReviewButtons(key)],
+        });
+        submission.reviewMessageId = message.id;
+        await this.submissions.set(key, submission);
+
+        console.log(`[ReviewService] Held ${form.id} submission from user ${userId} for review (${reasons.length} flags)`);
+        return true;
+    }
+
+    private buildReviewEmbed(form: FormDefinition, submission: PendingSubmission): EmbedBuilder {
+        const embed = new EmbedBuilder()
+            .setTitle(`🛡️ ${form.buttonLabel} submission awaiting review`)
+            .setColor(COLORS.YELLOW)
+            .setDescription(`From <@${submission.userId}> for <#${submission.channelId}>`)
+            .addFields(
+                form.fields.map(field => ({
+                    name: field.label,
+                    value: truncate(submission.values[field.id] || '*empty*', LIMITS.EMBED_FIELD_VALUE_MAX),
+                }))
+            )
+            .setTimestamp(submission.createdAt);
+
+        embed.addFields({
+            name: 'Flags',
+            value: submission.reasons.length > 0
+                ? truncate(submission.reasons.map(reason => `• ${reason}`).join('\n'), LIMITS.EMBED_FIELD_VALUE_MAX)
+                : 'None (review mode holds every submission)',
+        });
+
+        return embed;
+    }
+
+    private buildReviewButtons(key: string): ActionRowBuilder<ButtonBuilder> {
+        return new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder().setCustomId(`review|approve|${key}`).setLabel('Approve').setStyle(ButtonStyle.Success),
+            new ButtonBuilder().setCustomId(`review|reject|${key}`).setLabel('Reject').setStyle(ButtonStyle.Danger),
+            new ButtonBuilder().setCustomId(`review|edit|${key}`).setLabel('Edit & approve').setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    /**
+     * Replace the buttons on a review message with the outcome
+     */
+    private async closeReviewMessage(client: Client, submission: PendingSubmission, outcome: string): Promise<void> {
+        try {
+            const channel = await client.channels.fetch(submission.reviewChannelId);
+            if (!channel || !(channel instanceof TextChannel)) return;
+            const message = await channel.messages.fetch(submission.reviewMessageId);
+            const embed = EmbedBuilder.from(message.embeds[0])
+                .setColor(submission.status === 'approved' ? COLORS.PRIMARY_GREEN : COLORS.MEDIUM_GRAY)
+                .setFooter({ text: outcome });
+            await message.edit({ embeds: [embed], components: [] });
+        } catch (error) {
+            console.warn(`[ReviewService] Could not update review message ${submission.reviewMessageId}:`, error);
+        }
+    }
+
+    private isMod(interaction: ButtonInteraction | ModalSubmitInteraction): boolean {
+        const roles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        return Boolean(CONFIG.MOD_ROLE_ID && roles?.cache.has(CONFIG.MOD_ROLE_ID));
+    }
+
+    private async notifyMember(client: Client, userId: string, content: string): Promise<void> {
+        try {
+            const user = await client.users.fetch(userId);
+            await user.send({ content });
+        } catch (dmError) {
+            console.warn(`[ReviewService] Could not DM review outcome to user ${userId}:`, dmError);
+        }
+    }
+
+    /**
+     * Handle `review|<action>|<guildId>:<userId>:<formId>` buttons on review messages
+     */
+    async handleButton(interaction: ButtonInteraction, publish: PublishSubmission): Promise<void> {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to review submissions.', ephemeral: true });
+            return;
+        }
+
+        const [, action, key] = interaction.customId.split('|');
+        const submission = await this.submissions.get(key);
+        if (!submission || submission.status !== 'pending') {
+            await interaction.reply({ content: 'This submission has already been reviewed.', ephemeral: true });
+            return;
+        }
+
+        const form = formService.getForm(submission.formId);
+        if (!form) {
+            await interaction.reply({ content: 'This form is no longer configured.', ephemeral: true });
+            return;
+        }
+
+        if (action === 'edit') {
+            await interaction.showModal(formService.buildModal(form, `review_edit|${key}`, submission.values));
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        if (action === 'approve') {
+            await this.approve(interaction, form, key, submission, publish);
+        } else if (action === 'reject') {
+            submission.status = 'rejected';
+            submission.reviewedBy = interaction.user.id;
+            submission.updatedAt = Date.now();
+            await this.submissions.set(key, submission);
+
+            await this.closeReviewMessage(interaction.client, submission, `Rejected by ${interaction.user.tag}`);
+            await this.notifyMember(interaction.client, submission.userId, `Your ${form.buttonLabel} submission was not approved by the moderators. If you think this is a mistake, reach out to a mod.`);
+            await interaction.editReply({ content: `Rejected <@${submission.userId}>'s submission.` });
+        }
+    }
+
+    /**
+     * Handle the `review_edit|<key>` modal: save the mod's edits and approve
+     */
+    async handleEditSubmit(interaction: ModalSubmitInteraction, publish: PublishSubmission): Promise<void> {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to review submissions.', ephemeral: true });
+            return;
+        }
+
+        const key = interaction.customId.split('|')[1];
+        const submission = await this.submissions.get(key);
+        const form = submission ? formService.getForm(submission.formId) : undefined;
+        if (!submission || submission.status !== 'pending' || !form) {
+            await interaction.reply({ content: 'This submission has already been reviewed.', ephemeral: true });
+            return;
+        }
+
+        const { values, invalid } = formService.normalizeLinks(form, formService.readValues(form, interaction));
+        if (invalid.length > 0) {
+            await interaction.reply({ content: `These links are not valid: ${invalid.map(link => `\`${link}\``).join(', ')}`, ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+        submission.values = values;
+        await this.approve(interaction, form, key, submission, publish);
+    }
+
+    private async approve(
+        interaction: ButtonInteraction | ModalSubmitInteraction,
+        form: FormDefinition,
+        key: string,
+        submission: PendingSubmission,
+        publish: PublishSubmission
+    ): Promise<void> {
+        try {
+            // Mark first so a double click can't publish twice
+            submission.status = 'approved';
+            submission.reviewedBy = interaction.user.id;
+            submission.updatedAt = Date.now();
+            await this.submissions.set(key, submission);
+
+            const confirmation = await publish(form, submission.guildId, submission.userId, submission.channelId, submission.values, submission.launchedFrom);
+            if (!confirmation) {
+                submission.status = 'pending';
+                await this.submissions.set(key, submission);
+                await interaction.editReply({ content: 'Could not find the destination channel for this submission.' });
+                return;
+            }
+
+            await this.closeReviewMessage(interaction.client, submission, `Approved by ${interaction.user.tag}`);
+            await this.notifyMember(interaction.client, submission.userId, `✅ A moderator approved your submission. ${confirmation}`);
+            await interaction.editReply({ content: `Approved and posted <@${submission.userId}>'s submission.` });
+        } catch (error) {
+            console.error(`[ReviewService] Failed to approve submission ${key}:`, error);
+            submission.status = 'pending';
+            await this.submissions.set(key, submission);
+            await interaction.editReply({ content: 'Failed to publish this submission. Please try again.' });
+        }
+    }
+}
+
+export const reviewService = new ReviewService();
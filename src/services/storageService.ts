@@ -0,0 +1,71 @@
+/**
+ * Storage service: picks a persistence adapter from the environment and hands out collections
+ *
+ * STORAGE_DRIVER = mongo | file | memory
+ *   (defaults to mongo when MONGODB_URI is set, otherwise file)
+ * MONGODB_URI       = Connection string for the mongo driver
+ * STORAGE_FILE_PATH = JSON file for the file driver (default: configs/bot-data.json)
+ */
+
+import path from 'path';
+import dotenv from 'dotenv';
+import { Collection, StorageAdapter } from '../storage/types.js';
+import { MemoryStorageAdapter } from '../storage/memoryAdapter.js';
+import { FileStorageAdapter } from '../storage/fileAdapter.js';
+import { MongoStorageAdapter } from '../storage/mongoAdapter.js';
+
+dotenv.config();
+
+const DEFAULT_FILE_PATH = path.join('configs', 'bot-data.json');
+
+function createAdapterFromEnv(): StorageAdapter {
+    const { STORAGE_DRIVER, MONGODB_URI, STORAGE_FILE_PATH } = process.env as Record<string, string | undefined>;
+    const driver = STORAGE_DRIVER || (MONGODB_URI ? 'mongo' : 'file');
+
+    if (driver === 'mongo') {
+        if (!MONGODB_URI) {
+            throw new Error('STORAGE_DRIVER is "mongo" but MONGODB_URI is not set');
+        }
+        return new MongoStorageAdapter(MONGODB_URI);
+    }
+
+    if (driver === 'memory') {
+        return new MemoryStorageAdapter();
+    }
+
+    return new FileStorageAdapter(path.resolve(STORAGE_FILE_PATH || DEFAULT_FILE_PATH));
+}
+
+class StorageService {
+    // Memory until initialize() runs, so services and tests work without any setup
+    private adapter: StorageAdapter = new MemoryStorageAdapter();
+
+    /**
+     * Connect the configured adapter (or the one passed in, e.g. from tests)
+     */
+    async initialize(adapter: StorageAdapter = createAdapterFromEnv()): Promise<void> {
+        await adapter.connect();
+        this.adapter = adapter;
+        console.log(`✅ Storage service initialized (${adapter.name})`);
+    }
+
+    /**
+     * Returns a collection handle that always resolves against the current adapter,
+     * so services can grab their collections at construction time.
+     */
+    collection<T>(name: string): Collection<T> {
+        return {
+            get: key => this.adapter.collection<T>(name).get(key),
+            set: (key, value) => this.adapter.collection<T>(name).set(key, value),
+            delete: key => this.adapter.collection<T>(name).delete(key),
+            all: () => this.adapter.collection<T>(name).all(),
+            entries: () => this.adapter.collection<T>(name).entries(),
+        };
+    }
+
+    async stop(): Promise<void> {
+        await this.adapter.disconnect();
+    }
+}
+
+export const storageService = new StorageService();
@@ -0,0 +1,227 @@
+/**
+ * Streak service: counts the consecutive days each member is active in the server.
+ * A day counts once the member posts a real message (long enough, outside the bot trap),
+ * with days cut at midnight in the guild's timezone. Powers /streak and the nudge DM.
+ *
+ * STREAK_TIMEZONE           = IANA timezone for day boundaries (default: UTC)
+ * STREAK_MIN_MESSAGE_LENGTH = Shorter messages don't count toward the streak (default: 10)
+ * STREAK_NUDGE_MIN_DAYS     = DM members whose streak is at least this long before it breaks (nudges are off when unset)
+ * STREAK_NUDGE_HOUR         = Local hour after which nudges go out (default: 18)
+ */
+
+import cron from 'node-cron';
+import { ChatInputCommandInteraction, Client, Message } from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { achievementService } from './achievementService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { DAY_MS, DURATION, EMOJI } from '../utils/constants.js';
+import { formatNumber, pluralize } from '../utils/formatting.js';
+
+dotenv.config();
+
+const CONFIG = {
+    TIMEZONE: process.env.STREAK_TIMEZONE || 'UTC',
+    MIN_MESSAGE_LENGTH: Number(process.env.STREAK_MIN_MESSAGE_LENGTH || 10),
+    NUDGE_MIN_DAYS: Number(process.env.STREAK_NUDGE_MIN_DAYS || 0),
+    NUDGE_HOUR: Number(process.env.STREAK_NUDGE_HOUR || 18),
+    TRAP_CHANNEL_ID: process.env.BOTS_TRAP_CHANNEL,
+};
+
+export interface StreakRecord {
+    guildId: string;
+    userId: string;
+    current: number;
+    longest: number;
+    // Local day (YYYY-MM-DD) of the last counted activity
+    lastActiveDay: string;
+    // Local day the last nudge DM was sent
+    nudgedDay?: string;
+    updatedAt: number;
+}
+
+/**
+ * Calendar day (YYYY-MM-DD) of a timestamp in the given timezone
+ */
+export function localDay(timestamp: number, timeZone: string): string {
+    // en-CA formats dates as YYYY-MM-DD
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(timestamp);
+}
+
+/**
+ * Hour (0-23) of a timestamp in the given timezone
+ */
+export function localHour(timestamp: number, timeZone: string): number {
+    return Number(new Intl.DateTimeFormat('en-US', { timeZone, hour: 'numeric', hourCycle: 'h23' }).format(timestamp));
+}
+
+/**
+ * Whole days from one YYYY-MM-DD day to another
+ */
+export function daysBetween(from: string, to: string): number {
+    return Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+}
+
+/**
+ * Count activity on `day`. Returns true when the streak changed (first activity of the day).
+ */
+export function applyActivity(record: StreakRecord, day: string): boolean {
+    if (record.lastActiveDay === day) return false;
+
+    const gap = record.lastActiveDay ? daysBetween(record.lastActiveDay, day) : Infinity;
+    if (gap < 0) return false; // Out-of-order event from an earlier day
+
+    record.current = gap === 1 ? record.current + 1 : 1;
+    record.longest = Math.max(record.longest, record.current);
+    record.lastActiveDay = day;
+    return true;
+}
+
+/**
+ * The streak as of `today`: it survives until the member misses a whole day
+ */
+export function currentStreak(record: StreakRecord | null, today: string): number {
+    if (!record) return 0;
+    return daysBetween(record.lastActiveDay, today) <= 1 ? record.current : 0;
+}
+
+function resolveTimezone(timeZone: string): string {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return timeZone;
+    } catch {
+        console.warn(`[StreakService] Unknown STREAK_TIMEZONE "${timeZone}", using UTC.`);
+        return 'UTC';
+    }
+}
+
+class StreakService {
+    private client: Client | null = null;
+    private cronJob: cron.ScheduledTask | null = null;
+    private streaks = storageService.collection<StreakRecord>('streaks');
+    private timeZone = resolveTimezone(CONFIG.TIMEZONE);
+
+    private key(guildId: string, userId: string): string {
+        return `${guildId}:${userId}`;
+    }
+
+    initialize(client: Client): void {
+        this.client = client;
+
+        if (CONFIG.NUDGE_MIN_DAYS > 0) {
+            this.cronJob = cron.schedule(DURATION.STREAK_CHECK_INTERVAL, async () => {
+                await this.sendNudges();
+            });
+        }
+
+        console.log(`✅ Streak service initialized (${this.timeZone}${CONFIG.NUDGE_MIN_DAYS > 0 ? `, nudges from ${CONFIG.NUDGE_MIN_DAYS}-day streaks` : ''})`);
+    }
+
+    async getStreak(guildId: string, userId: string): Promise<StreakRecord | null> {
+        return this.streaks.get(this.key(guildId, userId));
+    }
+
+    /**
+     * Whether a message counts toward the author's streak
+     */
+    private counts(message: Message): boolean {
+        if (!message.guild || message.author.bot || message.system) return false;
+        if (CONFIG.TRAP_CHANNEL_ID && message.channelId === CONFIG.TRAP_CHANNEL_ID) return false;
+        return message.content.trim().length >= CONFIG.MIN_MESSAGE_LENGTH;
+    }
+
+    /**
+     * Record the daily-active marker for a guild message
+     */
+    async handleMessage(message: Message): Promise<void> {
+        if (!this.counts(message) || !message.guild) return;
+
+        try {
+            const day = localDay(message.createdTimestamp, this.timeZone);
+            const record = await this.getStreak(message.guild.id, message.author.id) ?? {
+                guildId: message.guild.id,
+                userId: message.author.id,
+                current: 0,
+                longest: 0,
+                lastActiveDay: '',
+                updatedAt: 0,
+            };
+
+            if (!applyActivity(record, day)) return;
+
+            record.updatedAt = Date.now();
+            await this.streaks.set(this.key(record.guildId, record.userId), record);
+            await achievementService.record(message.client, { type: 'streak', guildId: record.guildId, userId: record.userId, value: record.current });
+        } catch (error) {
+            console.error(`[StreakService] Failed to record activity for user ${message.author.id}:`, error);
+        }
+    }
+
+    /**
+     * DM members whose long streak breaks at midnight unless they post today
+     */
+    async sendNudges(): Promise<void> {
+        if (!this.client) return;
+
+        const now = Date.now();
+        if (localHour(now, this.timeZone) < CONFIG.NUDGE_HOUR) return;
+        const today = localDay(now, this.timeZone);
+
+        for (const record of await this.streaks.all()) {
+            if (record.current < CONFIG.NUDGE_MIN_DAYS || record.nudgedDay === today) continue;
+            if (daysBetween(record.lastActiveDay, today) !== 1) continue;
+
+            record.nudgedDay = today;
+            await this.streaks.set(this.key(record.guildId, record.userId), record);
+
+            try {
+                const user = await this.client.users.fetch(record.userId);
+                await user.send({
+                    content: `${EMOJI.FIRE} Your **${formatNumber(record.current)}-day streak** ends at midnight! Drop a message in the server today to keep it going.`,
+                });
+            } catch (error) {
+                console.warn(`[StreakService] Could not send streak nudge to user ${record.userId}:`, error);
+            }
+        }
+    }
+
+    // ==================== /streak ====================
+
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        const user = interaction.options.getUser('user') ?? interaction.user;
+        const record = await this.getStreak(interaction.guildId, user.id);
+        const today = localDay(Date.now(), this.timeZone);
+        const current = currentStreak(record, today);
+
+        let status: string;
+        if (!record) status = 'No activity recorded yet.';
+        else if (record.lastActiveDay === today) status = `${EMOJI.CHECK} Today already counts.`;
+        else if (current > 0) status = `${EMOJI.CLOCK} Post today to keep the streak going!`;
+        else status = 'Streak broken. Post today to start a new one!';
+
+        const days = (count: number) => `${formatNumber(count)} ${pluralize('day', count)}`;
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.FIRE} ${user.displayName}'s streak`)
+            .addFields(
+                { name: 'Current', value: days(current), inline: true },
+                { name: 'Longest', value: days(record?.longest ?? 0), inline: true },
+                { name: 'Status', value: status }
+            )
+            .setFooter({ text: `Days run midnight to midnight (${this.timeZone}) • Messages of ${CONFIG.MIN_MESSAGE_LENGTH}+ characters count` });
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const streakService = new StreakService();
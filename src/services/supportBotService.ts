@@ -1,17 +1,19 @@
 import { Message, TextChannel, ThreadChannel, ActionRowBuilder, ButtonBuilder, ButtonStyle, ChatInputCommandInteraction } from 'discord.js';
 import dotenv from 'dotenv';
+import { templateService } from './templateService.js';
+import { answerService } from './answerService.js';
+import { faqService } from './faqService.js';
+import { supportFeedbackService } from './supportFeedbackService.js';
 
 dotenv.config();
 
 // Configuration
 const CONFIG = {
-    N8N_WEBHOOK_URL: process.env.N8N_PRODUCTION_URL,
     VALID_CHANNELS: [process.env.BOT_TEST_CHANNEL, process.env.GET_HELP_CHANNEL],
     MAX_MESSAGE_LENGTH: 1900,
     MAX_THREAD_NAME_LENGTH: 100,
     MIN_QUERY_LENGTH: 3,
     IST_OFFSET_HOURS: 5.5,
-    WEEKEND_MESSAGE_TEMPLATE: "Hey <@{userId}>, We have limited availability over weekends, but rest assured we'll get back to you as soon as possible!",
     MOD_ROLE_ID: process.env.MOD_ROLE_ID
 };
 
@@ -57,30 +59,48 @@ class SupportBotService {
         return chunks;
     }
 
-    private async sendMessageWithChunking(channel: TextChannel | ThreadChannel, message: string, isWeekend: boolean = false, weekendMessage: string = '', replyTo?: Message, showResolveButton: boolean = true) {
+    /**
+     * Send an answer in chunks. The last chunk gets 👍/👎 feedback buttons, and the answer is
+     * saved with the member's `question` so /support-feedback can report on it.
+     */
+    private async sendMessageWithChunking(channel: TextChannel | ThreadChannel, message: string, question: string, isWeekend: boolean = false, weekendMessage: string = '', replyTo?: Message, showResolveButton: boolean = true) {
         const chunks = this.splitMessageIntoChunks(message);
+        const answerId = supportFeedbackService.createAnswerId();
 
         for (let i = 0; i < chunks.length; i++) {
-            const isLastMessage = (i === chunks.length - 1) && (!isWeekend || !weekendMessage);
-            const components = [];
+            const isLastChunk = i === chunks.length - 1;
+            const isLastMessage = isLastChunk && (!isWeekend || !weekendMessage);
+            const buttons: ButtonBuilder[] = [];
 
             if (isLastMessage && showResolveButton) {
                 const resolveButton = new ButtonBuilder()
                     .setCustomId('mark_resolved')
                     .setLabel('My query is resolved')
                     .setStyle(ButtonStyle.Success);
-                components.push(new ActionRowBuilder<ButtonBuilder>().addComponents(resolveButton));
+                buttons.push(resolveButton);
+            }
+            if (isLastChunk) {
+                buttons.push(...supportFeedbackService.buildButtons(answerId));
             }
 
             const messageOptions: any = { content: chunks[i] };
-            if (components.length > 0) {
-                messageOptions.components = components;
+            if (buttons.length > 0) {
+                messageOptions.components = [new ActionRowBuilder<ButtonBuilder>().addComponents(buttons)];
             }
 
-            if (i === 0 && replyTo) {
-                await replyTo.reply(messageOptions);
-            } else {
-                await channel.send(messageOptions);
+            const sent = i === 0 && replyTo
+                ? await replyTo.reply(messageOptions)
+                : await channel.send(messageOptions);
+
+            if (isLastChunk) {
+                await supportFeedbackService.recordAnswer({
+                    id: answerId,
+                    guildId: channel.guildId,
+                    channelId: channel.id,
+                    messageId: sent.id,
+                    query: question,
+                    answer: message,
+                });
             }
 
             if (i < chunks.length - 1) {
@@ -167,38 +187,27 @@ class SupportBotService {
         return true;
     }
 
-    private async getN8NResponse(query: string): Promise<string> {
-        try {
-            if (!CONFIG.N8N_WEBHOOK_URL) {
-                throw new Error('N8N_WEBHOOK_URL is not configured');
-            }
-
-            const response = await fetch(CONFIG.N8N_WEBHOOK_URL, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    data: { query }
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
-            }
-
-            const responseText = await response.text();
-            let responseData;
-            try {
-                responseData = JSON.parse(responseText);
-            } catch (e) {
-                return 'Error parsing N8N response';
-            }
+    /**
+     * Answer from the FAQ when an entry matches closely, otherwise from the channel's answer provider.
+     * `question` is the member's own message; `query` may add thread context for the provider.
+     * If the provider fails, the best FAQ hits are returned instead (or the error is rethrown).
+     */
+    private async getReply(question: string, query: string, channel: { id: string; parentId?: string | null }): Promise<string> {
+        const instant = faqService.findInstantAnswer(question);
+        if (instant) {
+            console.log(`Answering from FAQ entry ${instant.entry.id} (${Math.round(instant.confidence * 100)}% match)`);
+            return faqService.formatAnswer(instant.entry);
+        }
 
-            return responseData[0]?.output || 'No response data found';
+        try {
+            const reply = await answerService.getAnswer(query, channel);
+            return reply.replace(/【[^】]*llms-full\.txt】/g, '');
         } catch (error) {
-            console.error('Error getting N8N response:', error);
-            throw error;
+            const hits = faqService.search(question);
+            if (hits.length === 0) throw error;
+
+            console.error('Error getting answer, replying with FAQ entries instead:', error);
+            return templateService.render('support.faq_fallback', { answers: faqService.formatHits(hits) });
         }
     }
 
@@ -270,30 +279,27 @@ class SupportBotService {
             // Get weekend status
             const isWeekend = this.isWeekendInIST(message.createdTimestamp);
             const weekendMessage = isWeekend
-                ? CONFIG.WEEKEND_MESSAGE_TEMPLATE.replace("{userId}", message.author.id)
+                ? templateService.render('support.weekend', { user: `<@${message.author.id}>` })
                 : '';
 
-            // Get response from N8N
+            // Get response from the FAQ or the channel's answer provider
             console.log("//////QUERY//////")
             console.log(query)
-            let reply = await this.getN8NResponse(query);
+            const reply = await this.getReply(message.content, query, channel as TextChannel | ThreadChannel);
             console.log("//////REPLY//////")
             console.log(reply)
-            reply = reply.replace(/【[^】]*llms-full\.txt】/g, '');
-            console.log("//////REPLY AFTER REGEX REPLACEMENT//////")
-            console.log(reply)
 
             // Send response
             const threadName = this.truncateThreadName(message.content);
 
             if (channel.isThread()) {
                 // Reply in existing thread
-                await this.sendMessageWithChunking(channel as ThreadChannel, reply, isWeekend, weekendMessage, message);
+                await this.sendMessageWithChunking(channel as ThreadChannel, reply, message.content, isWeekend, weekendMessage, message);
             } else {
                 // Create new thread
                 // Only TextChannel/NewsChannel has startThread usually (message.startThread helper exists in recent versions)
                 const threadChannel = await message.startThread({ name: threadName });
-                await this.sendMessageWithChunking(threadChannel, reply, isWeekend, weekendMessage);
+                await this.sendMessageWithChunking(threadChannel, reply, message.content, isWeekend, weekendMessage);
             }
 
         } catch (error) {
@@ -305,10 +311,10 @@ class SupportBotService {
                 // Check if already in thread
                 if (!message.channel.isThread()) {
                     const threadChannel = await message.startThread({ name: threadName });
-                    const fallbackMessage = 'Hey, thanks for reaching out. One of our team members will respond shortly.';
+                    const fallbackMessage = templateService.render('support.fallback');
                     await threadChannel.send(fallbackMessage);
                 } else {
-                    await message.reply('Hey, thanks for reaching out. One of our team members will respond shortly.');
+                    await message.reply(templateService.render('support.fallback'));
                 }
             } catch (fallbackError) {
                 console.error('Error sending fallback message:', fallbackError);
@@ -323,20 +329,19 @@ class SupportBotService {
             // Get weekend status
             const isWeekend = this.isWeekendInIST(Date.now());
             const weekendMessage = isWeekend
-                ? CONFIG.WEEKEND_MESSAGE_TEMPLATE.replace("{userId}", originalAuthorId)
+                ? templateService.render('support.weekend', { user: `<@${originalAuthorId}>` })
                 : '';
 
-            // Get response from N8N
-            let reply = await this.getN8NResponse(query);
-            reply = reply.replace(/【[^】]*llms-full\.txt】/g, '');
+            // Get response from the FAQ or the answer provider of the thread's channel
+            const reply = await this.getReply(query, query, thread);
 
             // Send response in the thread
-            await this.sendMessageWithChunking(thread, reply, isWeekend, weekendMessage);
+            await this.sendMessageWithChunking(thread, reply, query, isWeekend, weekendMessage);
 
         } catch (error) {
             console.error('Error processing moved message:', error);
             try {
-                const fallbackMessage = 'Hey, thanks for reaching out. One of our team members will respond shortly.';
+                const fallbackMessage = templateService.render('support.fallback');
                 await thread.send(fallbackMessage);
             } catch (fallbackError) {
                 console.error('Error sending fallback message for moved message:', fallbackError);
@@ -443,7 +448,7 @@ class SupportBotService {
 
             const isWeekend = this.isWeekendInIST(Date.now());
             const weekendMessage = isWeekend
-                ? CONFIG.WEEKEND_MESSAGE_TEMPLATE.replace("{userId}", targetMessage.author.id)
+                ? templateService.render('support.weekend', { user: `<@${targetMessage.author.id}>` })
                 : '';
 
             console.log(`//////BOT ANSWER QUERY//////`);
@@ -454,10 +459,9 @@ class SupportBotService {
 
             let reply: string;
             try {
-                reply = await this.getN8NResponse(query);
-                reply = reply.replace(/【[^】]*llms-full\.txt】/g, '');
-            } catch (n8nError) {
-                console.error('Error fetching N8N response:', n8nError);
+                reply = await this.getReply(query, query, channel);
+            } catch (answerError) {
+                console.error('Error fetching answer:', answerError);
                 reply = 'Hey, the team will get back to you soon!';
             }
 
@@ -466,7 +470,7 @@ class SupportBotService {
 
             // Directly reply to the target message without creating a thread
             // Pass false for showResolveButton
-            await this.sendMessageWithChunking(channel, reply, isWeekend, weekendMessage, targetMessage, false);
+            await this.sendMessageWithChunking(channel, reply, query, isWeekend, weekendMessage, targetMessage, false);
             return true;
 
         } catch (error) {
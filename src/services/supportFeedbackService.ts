@@ -0,0 +1,269 @@
+/**
+ * Support feedback service: 👍/👎 buttons under the support bot's answers, an optional
+ * "what was wrong?" modal on 👎, and the /support-feedback report of the worst-rated answers.
+ * Answers older than DURATION.SUPPORT_ANSWER_TTL days are pruned daily.
+ */
+
+import crypto from 'crypto';
+import cron from 'node-cron';
+import {
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChatInputCommandInteraction,
+    EmbedBuilder,
+    GuildMemberRoleManager,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { storageService } from './storageService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { DAY_MS, DURATION, EMOJI, LIMITS } from '../utils/constants.js';
+import { buildMessageUrl, calculatePercentage, truncate } from '../utils/formatting.js';
+import { pruneExpired, scheduleRetention } from '../utils/retention.js';
+
+dotenv.config();
+
+const { MOD_ROLE_ID } = process.env as Record<string, string | undefined>;
+
+const QUESTION_PREVIEW_LENGTH = 80;
+const COMMENT_PREVIEW_LENGTH = 150;
+const COMMENTS_PER_ANSWER = 2;
+
+export interface SupportVote {
+    helpful: boolean;
+    comment?: string;
+    votedAt: number;
+}
+
+export interface SupportAnswer {
+    id: string;
+    guildId: string;
+    channelId: string;
+    // Last chunk of the answer, the one carrying the buttons
+    messageId: string;
+    query: string;
+    answer: string;
+    createdAt: number;
+    // One vote per member, keyed by user id; voting again replaces it
+    votes: Record<string, SupportVote>;
+}
+
+export interface RatedAnswer {
+    answer: SupportAnswer;
+    helpful: number;
+    notHelpful: number;
+    comments: string[];
+}
+
+export interface FeedbackReport {
+    days: number;
+    rated: number;
+    helpful: number;
+    notHelpful: number;
+    // Answers with at least one 👎, most net 👎 first
+    worst: RatedAnswer[];
+}
+
+/**
+ * Tally votes on answers given within the window and pick the worst-rated ones
+ */
+export function buildFeedbackReport(answers: SupportAnswer[], days: number, limit: number = LIMITS.FEEDBACK_REPORT_MAX, now: number = Date.now()): FeedbackReport {
+    const since = now - days * DAY_MS;
+
+    const rated: RatedAnswer[] = answers
+        .filter(answer => answer.createdAt >= since && Object.keys(answer.votes).length > 0)
+        .map(answer => {
+            const votes = Object.values(answer.votes);
+            return {
+                answer,
+                helpful: votes.filter(vote => vote.helpful).length,
+                notHelpful: votes.filter(vote => !vote.helpful).length,
+                comments: votes
+                    .filter(vote => !vote.helpful && vote.comment)
+                    .sort((a, b) => b.votedAt - a.votedAt)
+                    .map(vote => vote.comment as string),
+            };
+        });
+
+    const worst = rated
+        .filter(entry => entry.notHelpful > 0)
+        .sort((a, b) =>
+            (b.notHelpful - b.helpful) - (a.notHelpful - a.helpful)
+            || b.notHelpful - a.notHelpful
+            || b.answer.createdAt - a.answer.createdAt
+        )
+        .slice(0, limit);
+
+    return {
+        days,
+        rated: rated.length,
+        helpful: rated.reduce((sum, entry) => sum + entry.helpful, 0),
+        notHelpful: rated.reduce((sum, entry) => sum + entry.notHelpful, 0),
+        worst,
+    };
+}
+
+class SupportFeedbackService {
+    private cronJob: cron.ScheduledTask | null = null;
+    private answers = storageService.collection<SupportAnswer>('support_answers');
+
+    /**
+     * Schedule the daily pruning of old answers. Call once storage is initialized.
+     */
+    initialize(): void {
+        this.cronJob = scheduleRetention('support answers', () => this.pruneAnswers());
+    }
+
+    /**
+     * Delete answers, with their votes, older than the retention period. Returns how many were removed.
+     */
+    async pruneAnswers(now: number = Date.now()): Promise<number> {
+        return pruneExpired(this.answers, DURATION.SUPPORT_ANSWER_TTL, answer => answer.createdAt, now);
+    }
+
+    /**
+     * Id for an answer about to be sent, used in its feedback buttons
+     */
+    createAnswerId(): string {
+        return crypto.randomBytes(6).toString('hex');
+    }
+
+    buildButtons(answerId: string): ButtonBuilder[] {
+        return [
+            new ButtonBuilder()
+                .setCustomId(`support_feedback|${answerId}|up`)
+                .setEmoji(EMOJI.THUMBS_UP)
+                .setStyle(ButtonStyle.Secondary),
+            new ButtonBuilder()
+                .setCustomId(`support_feedback|${answerId}|down`)
+                .setEmoji(EMOJI.THUMBS_DOWN)
+                .setStyle(ButtonStyle.Secondary),
+        ];
+    }
+
+    /**
+     * Save an answer once it is sent. Never throws, so feedback can't break the support flow.
+     */
+    async recordAnswer(answer: Omit<SupportAnswer, 'createdAt' | 'votes'>): Promise<void> {
+        try {
+            await this.answers.set(answer.id, { ...answer, createdAt: Date.now(), votes: {} });
+        } catch (error) {
+            console.error(`Failed to record support answer ${answer.id}:`, error);
+        }
+    }
+
+    private buildCommentModal(answerId: string): ModalBuilder {
+        const comment = new TextInputBuilder()
+            .setCustomId('comment')
+            .setLabel('What was wrong? (optional)')
+            .setPlaceholder('Wrong answer, outdated docs, missing steps…')
+            .setStyle(TextInputStyle.Paragraph)
+            .setRequired(false)
+            .setMaxLength(LIMITS.FEEDBACK_COMMENT_MAX);
+
+        return new ModalBuilder()
+            .setCustomId(`support_feedback_modal|${answerId}`)
+            .setTitle('Answer feedback')
+            .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(comment));
+    }
+
+    /**
+     * Handle the 👍/👎 buttons. The vote is saved right away; 👎 then asks for an optional comment.
+     */
+    public async handleButton(interaction: ButtonInteraction) {
+        const [, answerId, direction] = interaction.customId.split('|');
+        const answer = await this.answers.get(answerId);
+        if (!answer) {
+            await interaction.reply({ content: 'This answer is too old to rate.', ephemeral: true });
+            return;
+        }
+
+        const helpful = direction === 'up';
+        answer.votes[interaction.user.id] = { helpful, votedAt: Date.now() };
+        await this.answers.set(answerId, answer);
+        console.log(`[SupportFeedback] ${interaction.user.tag} rated answer ${answerId} as ${helpful ? 'helpful' : 'not helpful'}`);
+
+        if (helpful) {
+            await interaction.reply({ content: `${EMOJI.THUMBS_UP} Thanks for the feedback!`, ephemeral: true });
+        } else {
+            await interaction.showModal(this.buildCommentModal(answerId));
+        }
+    }
+
+    /**
+     * Handle the `support_feedback_modal|<answerId>` comment modal
+     */
+    public async handleModalSubmit(interaction: ModalSubmitInteraction) {
+        const answerId = interaction.customId.split('|')[1];
+        const comment = interaction.fields.getTextInputValue('comment').trim();
+        const answer = await this.answers.get(answerId);
+        const vote = answer?.votes[interaction.user.id];
+
+        if (answer && vote && comment) {
+            vote.comment = comment;
+            await this.answers.set(answerId, answer);
+        }
+
+        await interaction.reply({ content: `${EMOJI.THUMBS_DOWN} Thanks, the team will use this to improve our answers and docs.`, ephemeral: true });
+    }
+
+    buildReportEmbed(report: FeedbackReport): EmbedBuilder {
+        const votes = report.helpful + report.notHelpful;
+        const summary = `${report.rated} rated answer${report.rated !== 1 ? 's' : ''} · ` +
+            `${EMOJI.THUMBS_UP} ${report.helpful} · ${EMOJI.THUMBS_DOWN} ${report.notHelpful} (${calculatePercentage(report.helpful, votes)}% helpful)`;
+
+        const lines = report.worst.map((entry, i) => {
+            const { answer } = entry;
+            const url = buildMessageUrl(answer.guildId, answer.channelId, answer.messageId);
+            return [
+                `**${i + 1}.** ${EMOJI.THUMBS_DOWN} ${entry.notHelpful} · ${EMOJI.THUMBS_UP} ${entry.helpful} · [${truncate(answer.query.replace(/\s+/g, ' '), QUESTION_PREVIEW_LENGTH)}](${url})`,
+                ...entry.comments.slice(0, COMMENTS_PER_ANSWER).map(comment => `> ${truncate(comment.replace(/\s+/g, ' '), COMMENT_PREVIEW_LENGTH)}`),
+            ].join('\n');
+        });
+
+        return createBaseEmbed()
+            .setTitle(`${EMOJI.CHART} Support answer feedback — last ${report.days} day${report.days !== 1 ? 's' : ''}`)
+            .setDescription(truncate(
+                [summary, lines.length > 0 ? lines.join('\n\n') : 'No answers rated as not helpful in this period.'].join('\n\n'),
+                LIMITS.EMBED_DESCRIPTION_MAX
+            ));
+    }
+
+    public async handleReportCommand(interaction: ChatInputCommandInteraction) {
+        const memberRoles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        if (!MOD_ROLE_ID || !memberRoles?.cache.has(MOD_ROLE_ID)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        if (!interaction.guildId) {
+            await interaction.reply({ content: 'This command can only be used in a server.', ephemeral: true });
+            return;
+        }
+
+        await interaction.deferReply({ ephemeral: true });
+
+        try {
+            const days = interaction.options.getInteger('days') ?? LIMITS.FEEDBACK_DEFAULT_DAYS;
+            const answers = (await this.answers.all()).filter(answer => answer.guildId === interaction.guildId);
+            await interaction.editReply({ embeds: [this.buildReportEmbed(buildFeedbackReport(answers, days))] });
+        } catch (error) {
+            console.error('Error building support feedback report:', error);
+            await interaction.editReply({ content: 'Failed to build the feedback report. Please try again later.' });
+        }
+    }
+
+    stop(): void {
+        if (this.cronJob) {
+            this.cronJob.stop();
+        }
+    }
+}
+
+export const supportFeedbackService = new SupportFeedbackService();
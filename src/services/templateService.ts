@@ -0,0 +1,323 @@
+/**
+ * Template service: one store for editable bot copy with {placeholders} and random variations.
+ *
+ * Defaults come from the code (config/templates.ts, plus the form embeds registered by formService).
+ * Mods override them at runtime with /template; overrides are persisted in storage and
+ * cached in memory so rendering stays synchronous.
+ */
+
+import {
+    ActionRowBuilder,
+    AutocompleteInteraction,
+    ChatInputCommandInteraction,
+    GuildMemberRoleManager,
+    ModalActionRowComponentBuilder,
+    ModalBuilder,
+    ModalSubmitInteraction,
+    TextInputBuilder,
+    TextInputStyle,
+} from 'discord.js';
+import dotenv from 'dotenv';
+import { DEFAULT_TEMPLATES, TemplateDefinition } from '../config/templates.js';
+import { storageService } from './storageService.js';
+import { createBaseEmbed } from '../utils/embeds.js';
+import { fillTemplate } from '../utils/config.js';
+import { EMOJI, LIMITS } from '../utils/constants.js';
+import { truncate } from '../utils/formatting.js';
+
+dotenv.config();
+
+const { MOD_ROLE_ID } = process.env as Record<string, string | undefined>;
+
+// Variations are separated by a line containing only "---" in the edit modal
+const VARIATION_SEPARATOR = '\n---\n';
+const MAX_VARIATION_LENGTH = 2000;
+const MAX_MODAL_VALUE_LENGTH = 4000;
+const MAX_AUTOCOMPLETE_CHOICES = 25;
+const MAX_EMBED_FIELDS = 25;
+
+interface TemplateOverride {
+    id: string;
+    variations: string[];
+    updatedBy: string;
+    updatedAt: number;
+}
+
+/**
+ * Split the edit modal text into variations, dropping empty ones
+ */
+export function parseVariations(text: string): string[] {
+    return text
+        .replace(/\r\n/g, '\n')
+        .split(/^\s*---\s*$/m)
+        .map(variation => variation.trim())
+        .filter(Boolean);
+}
+
+/**
+ * {placeholder} tokens used in the text that the template does not support
+ */
+export function findUnknownPlaceholders(text: string, placeholders: Record<string, string>): string[] {
+    const unknown = new Set<string>();
+    for (const [, name] of text.matchAll(/\{(\w+)\}/g)) {
+        if (!(name in placeholders)) unknown.add(name);
+    }
+    return [...unknown];
+}
+
+class TemplateService {
+    private definitions = new Map<string, TemplateDefinition>();
+    private overrides = new Map<string, TemplateOverride>();
+    private store = storageService.collection<TemplateOverride>('templates');
+
+    constructor() {
+        for (const definition of DEFAULT_TEMPLATES) {
+            this.register(definition);
+        }
+    }
+
+    /**
+     * Make a template editable. Services register their own defaults at startup.
+     */
+    register(definition: TemplateDefinition): void {
+        this.definitions.set(definition.id, definition);
+    }
+
+    /**
+     * Load the persisted overrides (call after storageService.initialize)
+     */
+    async initialize(): Promise<void> {
+        this.overrides.clear();
+        for (const override of await this.store.all()) {
+            this.overrides.set(override.id, override);
+        }
+        console.log(`✅ Template service initialized (${this.overrides.size} customized templates)`);
+    }
+
+    getDefinitions(): TemplateDefinition[] {
+        return [...this.definitions.values()].sort((a, b) => a.id.localeCompare(b.id));
+    }
+
+    getDefinition(id: string): TemplateDefinition | undefined {
+        return this.definitions.get(id);
+    }
+
+    isCustomized(id: string): boolean {
+        return this.overrides.has(id);
+    }
+
+    /**
+     * Current variations of a template: the mod override if any, otherwise the default
+     */
+    getVariations(id: string): string[] {
+        return this.overrides.get(id)?.variations ?? this.definitions.get(id)?.variations ?? [];
+    }
+
+    /**
+     * Pick a random variation index, e.g. to keep a post's wording stable across edits
+     */
+    pickVariation(id: string): number {
+        return Math.floor(Math.random() * Math.max(this.getVariations(id).length, 1));
+    }
+
+    /**
+     * Render a template with the given values. Picks a random variation unless one is given;
+     * an index past the end (after a mod removed variations) falls back to the first.
+     */
+    render(id: string, values: Record<string, string> = {}, variation: number = this.pickVariation(id)): string {
+        const variations = this.getVariations(id);
+        if (variations.length === 0) {
+            console.warn(`[TemplateService] Unknown template "${id}"`);
+            return '';
+        }
+        return fillTemplate(variations[variation] ?? variations[0], values);
+    }
+
+    /**
+     * Persist new variations for a template
+     */
+    async setVariations(id: string, variations: string[], updatedBy: string): Promise<void> {
+        const override: TemplateOverride = { id, variations, updatedBy, updatedAt: Date.now() };
+        await this.store.set(id, override);
+        this.overrides.set(id, override);
+    }
+
+    /**
+     * Drop the override so the template goes back to its default
+     */
+    async reset(id: string): Promise<void> {
+        await this.store.delete(id);
+        this.overrides.delete(id);
+    }
+
+    // ==================== /template ====================
+
+    private isMod(interaction: ChatInputCommandInteraction | ModalSubmitInteraction): boolean {
+        const roles = interaction.member?.roles as GuildMemberRoleManager | undefined;
+        return Boolean(MOD_ROLE_ID && roles?.cache.has(MOD_ROLE_ID));
+    }
+
+    private formatPlaceholders(definition: TemplateDefinition): string {
+        const names = Object.keys(definition.placeholders);
+        return names.length > 0 ? names.map(name => `\`{${name}}\``).join(', ') : 'None';
+    }
+
+    public async handleCommand(interaction: ChatInputCommandInteraction) {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to use this command.', ephemeral: true });
+            return;
+        }
+
+        const subcommand = interaction.options.getSubcommand();
+        if (subcommand === 'list') {
+            await this.handleList(interaction);
+            return;
+        }
+
+        const id = interaction.options.getString('id', true);
+        const definition = this.definitions.get(id);
+        if (!definition) {
+            await interaction.reply({ content: `Unknown template \`${id}\`. Use \`/template list\` to see them all.`, ephemeral: true });
+            return;
+        }
+
+        if (subcommand === 'show') {
+            await this.handleShow(interaction, definition);
+        } else if (subcommand === 'edit') {
+            await interaction.showModal(this.buildEditModal(definition));
+        } else if (subcommand === 'preview') {
+            await this.handlePreview(interaction, definition);
+        }
+    }
+
+    private async handleList(interaction: ChatInputCommandInteraction) {
+        const lines = this.getDefinitions().map(definition =>
+            `${this.isCustomized(definition.id) ? EMOJI.PENCIL : '•'} \`${definition.id}\` (${this.getVariations(definition.id).length}) ${definition.description}`
+        );
+
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.PENCIL} Message templates`)
+            .setDescription(truncate(lines.join('\n'), LIMITS.EMBED_DESCRIPTION_MAX))
+            .setFooter({ text: `${EMOJI.PENCIL} = customized · (n) = number of variations` });
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    private async handleShow(interaction: ChatInputCommandInteraction, definition: TemplateDefinition) {
+        const override = this.overrides.get(definition.id);
+        const variations = this.getVariations(definition.id);
+
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.PENCIL} ${definition.id}`)
+            .setDescription([
+                definition.description,
+                '',
+                `**Placeholders:** ${this.formatPlaceholders(definition)}`,
+                override
+                    ? `**Customized** by <@${override.updatedBy}> <t:${Math.floor(override.updatedAt / 1000)}:R>`
+                    : '**Default** copy',
+            ].join('\n'))
+            .addFields(variations.slice(0, MAX_EMBED_FIELDS).map((variation, index) => ({
+                name: `Variation ${index + 1}`,
+                value: truncate(variation, LIMITS.EMBED_FIELD_VALUE_MAX),
+            })));
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    private async handlePreview(interaction: ChatInputCommandInteraction, definition: TemplateDefinition) {
+        const samples = { ...definition.placeholders };
+        if ('user' in samples) samples.user = `<@${interaction.user.id}>`;
+
+        const variations = this.getVariations(definition.id);
+        const embed = createBaseEmbed()
+            .setTitle(`${EMOJI.EYES} Preview of ${definition.id}`)
+            .setDescription('Rendered with sample values. One variation is picked at random each time.')
+            .addFields(variations.slice(0, MAX_EMBED_FIELDS).map((_variation, index) => ({
+                name: `Variation ${index + 1}`,
+                value: truncate(this.render(definition.id, samples, index), LIMITS.EMBED_FIELD_VALUE_MAX),
+            })));
+
+        await interaction.reply({ embeds: [embed], ephemeral: true });
+    }
+
+    private buildEditModal(definition: TemplateDefinition): ModalBuilder {
+        const input = new TextInputBuilder()
+            .setCustomId('variations')
+            .setLabel('Variations (separate them with ---)')
+            .setStyle(TextInputStyle.Paragraph)
+            .setPlaceholder('Leave empty to restore the default copy')
+            .setRequired(false)
+            .setMaxLength(MAX_MODAL_VALUE_LENGTH)
+            .setValue(this.getVariations(definition.id).join(VARIATION_SEPARATOR).slice(0, MAX_MODAL_VALUE_LENGTH));
+
+        return new ModalBuilder()
+            .setCustomId(`template_edit|${definition.id}`)
+            .setTitle(truncate(`Edit ${definition.id}`, 45))
+            .addComponents(new ActionRowBuilder<ModalActionRowComponentBuilder>().addComponents(input));
+    }
+
+    /**
+     * Handle the `template_edit|<id>` modal: validate and save the new variations
+     */
+    public async handleEditSubmit(interaction: ModalSubmitInteraction) {
+        if (!this.isMod(interaction)) {
+            await interaction.reply({ content: 'You need the moderator role to edit templates.', ephemeral: true });
+            return;
+        }
+
+        const id = interaction.customId.split('|')[1];
+        const definition = this.definitions.get(id);
+        if (!definition) {
+            await interaction.reply({ content: `Unknown template \`${id}\`.`, ephemeral: true });
+            return;
+        }
+
+        const variations = parseVariations(interaction.fields.getTextInputValue('variations') ?? '');
+        if (variations.length === 0) {
+            await this.reset(id);
+            console.log(`[TemplateService] ${interaction.user.tag} reset template ${id}`);
+            await interaction.reply({ content: `${EMOJI.CHECK} \`${id}\` is back to its default copy.`, ephemeral: true });
+            return;
+        }
+
+        const unknown = findUnknownPlaceholders(variations.join('\n'), definition.placeholders);
+        if (unknown.length > 0) {
+            await interaction.reply({
+                content: `${EMOJI.CROSS} Unknown placeholders: ${unknown.map(name => `\`{${name}}\``).join(', ')}. Available: ${this.formatPlaceholders(definition)}`,
+                ephemeral: true,
+            });
+            return;
+        }
+
+        const tooLong = variations.findIndex(variation => variation.length > MAX_VARIATION_LENGTH);
+        if (tooLong !== -1) {
+            await interaction.reply({
+                content: `${EMOJI.CROSS} Variation ${tooLong + 1} is longer than ${MAX_VARIATION_LENGTH} characters.`,
+                ephemeral: true,
+            });
+            return;
+        }
+
+        await this.setVariations(id, variations, interaction.user.id);
+        console.log(`[TemplateService] ${interaction.user.tag} updated template ${id} (${variations.length} variations)`);
+        await interaction.reply({
+            content: `${EMOJI.CHECK} Saved ${variations.length} variation${variations.length === 1 ? '' : 's'} for \`${id}\`. Use \`/template preview\` to check them.`,
+            ephemeral: true,
+        });
+    }
+
+    /**
+     * Suggest template ids for the `id` option
+     */
+    public async handleAutocomplete(interaction: AutocompleteInteraction) {
+        const query = interaction.options.getFocused().toLowerCase();
+        const choices = this.getDefinitions()
+            .filter(definition => definition.id.toLowerCase().includes(query))
+            .slice(0, MAX_AUTOCOMPLETE_CHOICES)
+            .map(definition => ({ name: definition.id, value: definition.id }));
+        await interaction.respond(choices);
+    }
+}
+
+export const templateService = new TemplateService();
@@ -0,0 +1,59 @@
+/**
+ * JSON file storage adapter for local runs and single-instance deployments
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { MemoryStorageAdapter } from './memoryAdapter.js';
+
+type SerializedData = Record<string, Record<string, unknown>>;
+
+export class FileStorageAdapter extends MemoryStorageAdapter {
+    readonly name: string = 'file';
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(private filePath: string) {
+        super();
+    }
+
+    async connect(): Promise<void> {
+        if (!fs.existsSync(this.filePath)) {
+            console.log(`[Storage] No data file at ${this.filePath}, starting empty`);
+            return;
+        }
+
+        const raw = await fs.promises.readFile(this.filePath, 'utf8');
+        const parsed = JSON.parse(raw || '{}') as SerializedData;
+
+        this.data.clear();
+        for (const [name, documents] of Object.entries(parsed)) {
+            this.data.set(name, new Map(Object.entries(documents)));
+        }
+    }
+
+    async disconnect(): Promise<void> {
+        await this.writeQueue;
+    }
+
+    protected async onChange(): Promise<void> {
+        // Serialize writes so concurrent mutations never interleave on disk
+        this.writeQueue = this.writeQueue
+            .then(() => this.flush())
+            .catch(error => console.error('[Storage] Failed to write data file:', error));
+        await this.writeQueue;
+    }
+
+    private async flush(): Promise<void> {
+        const serialized: SerializedData = {};
+        for (const [name, bucket] of this.data.entries()) {
+            serialized[name] = Object.fromEntries(bucket.entries());
+        }
+
+        await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+        // Write to a temp file first, then rename, so a crash never leaves a half-written file
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, JSON.stringify(serialized, null, 2), 'utf8');
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+}
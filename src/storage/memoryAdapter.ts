@@ -0,0 +1,66 @@
+/**
+ * In-memory storage adapter (used for tests and as the base of the file adapter)
+ */
+
+import { Collection, StorageAdapter } from './types.js';
+
+/**
+ * Deep-copies a value the same way a real backend would (JSON round-trip),
+ * so callers can never mutate stored state by accident.
+ */
+function clone<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value)) as T;
+}
+
+export class MemoryStorageAdapter implements StorageAdapter {
+    readonly name: string = 'memory';
+    protected data = new Map<string, Map<string, unknown>>();
+
+    async connect(): Promise<void> {
+        // Nothing to connect to
+    }
+
+    async disconnect(): Promise<void> {
+        // Nothing to release
+    }
+
+    /**
+     * Called after every mutation; subclasses override this to persist
+     */
+    protected async onChange(): Promise<void> {
+        // No-op for pure memory storage
+    }
+
+    private bucket(name: string): Map<string, unknown> {
+        let bucket = this.data.get(name);
+        if (!bucket) {
+            bucket = new Map();
+            this.data.set(name, bucket);
+        }
+        return bucket;
+    }
+
+    collection<T>(name: string): Collection<T> {
+        return {
+            get: async (key: string) => {
+                const value = this.bucket(name).get(key);
+                return value === undefined ? null : clone(value as T);
+            },
+            set: async (key: string, value: T) => {
+                this.bucket(name).set(key, clone(value));
+                await this.onChange();
+            },
+            delete: async (key: string) => {
+                const deleted = this.bucket(name).delete(key);
+                if (deleted) await this.onChange();
+                return deleted;
+            },
+            all: async () => {
+                return Array.from(this.bucket(name).values(), value => clone(value as T));
+            },
+            entries: async () => {
+                return Array.from(this.bucket(name).entries(), ([key, value]) => [key, clone(value as T)] as [string, T]);
+            },
+        };
+    }
+}
@@ -0,0 +1,70 @@
+/**
+ * MongoDB storage adapter (via mongoose)
+ */
+
+import mongoose, { Schema, Model } from 'mongoose';
+import { Collection, StorageAdapter } from './types.js';
+
+interface StoredDocument {
+    bucket: string;
+    key: string;
+    value: unknown;
+}
+
+const storedDocumentSchema = new Schema<StoredDocument>(
+    {
+        bucket: { type: String, required: true },
+        key: { type: String, required: true },
+        value: { type: Schema.Types.Mixed },
+    },
+    { timestamps: true, minimize: false }
+);
+
+storedDocumentSchema.index({ bucket: 1, key: 1 }, { unique: true });
+
+export class MongoStorageAdapter implements StorageAdapter {
+    readonly name: string = 'mongo';
+    private model: Model<StoredDocument>;
+
+    constructor(private uri: string) {
+        this.model = mongoose.models.BotDocument as Model<StoredDocument>
+            ?? mongoose.model<StoredDocument>('BotDocument', storedDocumentSchema);
+    }
+
+    async connect(): Promise<void> {
+        await mongoose.connect(this.uri);
+        await this.model.syncIndexes();
+    }
+
+    async disconnect(): Promise<void> {
+        await mongoose.disconnect();
+    }
+
+    collection<T>(name: string): Collection<T> {
+        return {
+            get: async (key: string) => {
+                const doc = await this.model.findOne({ bucket: name, key }).lean();
+                return doc ? (doc.value as T) : null;
+            },
+            set: async (key: string, value: T) => {
+                await this.model.updateOne(
+                    { bucket: name, key },
+                    { $set: { value } },
+                    { upsert: true }
+                );
+            },
+            delete: async (key: string) => {
+                const result = await this.model.deleteOne({ bucket: name, key });
+                return result.deletedCount > 0;
+            },
+            all: async () => {
+                const docs = await this.model.find({ bucket: name }).lean();
+                return docs.map(doc => doc.value as T);
+            },
+            entries: async () => {
+                const docs = await this.model.find({ bucket: name }).lean();
+                return docs.map(doc => [doc.key, doc.value as T] as [string, T]);
+            },
+        };
+    }
+}
@@ -0,0 +1,25 @@
+/**
+ * Storage abstractions shared by every persistence adapter
+ */
+
+/**
+ * A named set of JSON-serialisable documents addressed by string keys.
+ * Values must survive a JSON round-trip, so store timestamps as numbers.
+ */
+export interface Collection<T> {
+    get(key: string): Promise<T | null>;
+    set(key: string, value: T): Promise<void>;
+    delete(key: string): Promise<boolean>;
+    all(): Promise<T[]>;
+    entries(): Promise<Array<[string, T]>>;
+}
+
+/**
+ * Backend capable of providing collections (memory, JSON file, MongoDB)
+ */
+export interface StorageAdapter {
+    readonly name: string;
+    connect(): Promise<void>;
+    disconnect(): Promise<void>;
+    collection<T>(name: string): Collection<T>;
+}
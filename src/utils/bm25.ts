@@ -0,0 +1,95 @@
+/**
+ * Keyword search: tokenizing and BM25 ranking over a small set of documents
+ */
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'get', 'how', 'i',
+    'if', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'we', 'what',
+    'when', 'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your', 'hi', 'hey', 'hello', 'please', 'thanks',
+]);
+
+// Standard BM25 parameters: term frequency saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lowercase word tokens without stopwords, with a light plural and -ing strip
+ */
+export function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter(token => !STOPWORDS.has(token))
+        .map(token => token.length > 5 ? token.replace(/ing$/, '') : token)
+        .map(token => token.length > 3 ? token.replace(/([^s])s$/, '$1') : token);
+}
+
+export interface SearchHit {
+    id: string;
+    score: number;
+}
+
+export class Bm25Index {
+    private docs: Array<{ id: string; terms: Map<string, number>; length: number }> = [];
+    private documentFrequency = new Map<string, number>();
+    private averageLength = 0;
+
+    constructor(documents: Array<{ id: string; text: string }>) {
+        for (const { id, text } of documents) {
+            const tokens = tokenize(text);
+            const terms = new Map<string, number>();
+            for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1);
+            for (const term of terms.keys()) this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+            this.docs.push({ id, terms, length: tokens.length });
+        }
+        this.averageLength = this.docs.reduce((sum, doc) => sum + doc.length, 0) / (this.docs.length || 1);
+    }
+
+    /**
+     * Inverse document frequency: rare terms weigh more (always positive)
+     */
+    idf(term: string): number {
+        const df = this.documentFrequency.get(term) ?? 0;
+        return Math.log(1 + (this.docs.length - df + 0.5) / (df + 0.5));
+    }
+
+    /**
+     * How well a query and a document cover each other, from 0 to 1: the harmonic mean of the
+     * idf-weighted share of query terms found in the document and of document terms found in the query.
+     * BM25 scores only rank; this tells a close paraphrase from a long message sharing a few words.
+     */
+    overlap(query: string, id: string): number {
+        const doc = this.docs.find(entry => entry.id === id);
+        if (!doc) return 0;
+
+        const queryTerms = new Set(tokenize(query));
+        const weight = (terms: Iterable<string>) => [...terms].reduce((sum, term) => sum + this.idf(term), 0);
+        const shared = [...queryTerms].filter(term => doc.terms.has(term));
+
+        const queryWeight = weight(queryTerms);
+        const docWeight = weight(doc.terms.keys());
+        if (shared.length === 0 || queryWeight === 0 || docWeight === 0) return 0;
+
+        const queryCoverage = weight(shared) / queryWeight;
+        const docCoverage = weight(shared) / docWeight;
+        return (2 * queryCoverage * docCoverage) / (queryCoverage + docCoverage);
+    }
+
+    /**
+     * Documents matching at least one query term, best first
+     */
+    search(query: string): SearchHit[] {
+        const queryTerms = [...new Set(tokenize(query))];
+        const hits: SearchHit[] = [];
+
+        for (const doc of this.docs) {
+            let score = 0;
+            for (const term of queryTerms) {
+                const tf = doc.terms.get(term);
+                if (!tf) continue;
+                score += this.idf(term) * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.length / (this.averageLength || 1)));
+            }
+            if (score > 0) hits.push({ id: doc.id, score });
+        }
+
+        return hits.sort((a, b) => b.score - a.score);
+    }
+}
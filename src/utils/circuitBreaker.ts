@@ -0,0 +1,77 @@
+/**
+ * Circuit breaker: stops calling a failing backend for a cooldown, then lets one trial request through
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+    // Consecutive failures that open the circuit
+    failureThreshold: number;
+    // How long the circuit stays open before a trial request
+    cooldownMs: number;
+}
+
+export class CircuitOpenError extends Error {
+    constructor(name: string) {
+        super(`Circuit for ${name} is open, skipping the request`);
+        this.name = 'CircuitOpenError';
+    }
+}
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private failures = 0;
+    private openedAt = 0;
+    // When the current outage began (the circuit may reopen several times during one)
+    private outageStartedAt = 0;
+    private trialInFlight = false;
+
+    /**
+     * `onChange` fires when the circuit opens after working, and when it closes again after an outage
+     */
+    constructor(private options: CircuitBreakerOptions, private onChange?: (state: 'open' | 'closed', outageStartedAt: number) => void) {}
+
+    getState(): CircuitState {
+        return this.state;
+    }
+
+    /**
+     * Whether a request may go out now. After the cooldown, exactly one trial request is allowed.
+     */
+    canRequest(now: number = Date.now()): boolean {
+        if (this.state === 'closed') return true;
+
+        if (this.state === 'open' && now - this.openedAt >= this.options.cooldownMs) {
+            this.state = 'half_open';
+        }
+        if (this.state === 'half_open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        const wasOpen = this.state !== 'closed';
+        this.state = 'closed';
+        this.failures = 0;
+        this.trialInFlight = false;
+        if (wasOpen) this.onChange?.('closed', this.outageStartedAt);
+    }
+
+    recordFailure(now: number = Date.now()): void {
+        this.failures++;
+        this.trialInFlight = false;
+
+        if (this.state === 'half_open') {
+            // Failed trial: back to open for another cooldown, without a second alert
+            this.state = 'open';
+            this.openedAt = now;
+        } else if (this.state === 'closed' && this.failures >= this.options.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = now;
+            this.outageStartedAt = now;
+            this.onChange?.('open', now);
+        }
+    }
+}
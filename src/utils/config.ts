@@ -0,0 +1,42 @@
+/**
+ * Helpers for optional JSON config files in the configs/ directory
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Directory holding runtime config files (mounted as a volume in docker-compose)
+ */
+export function getConfigDir(): string {
+    return path.resolve(process.env.CONFIG_DIR || 'configs');
+}
+
+/**
+ * Load configs/<fileName> if it exists, otherwise return null.
+ * Throws with the file path in the message when the file is not valid JSON.
+ */
+export function loadJsonConfig<T>(fileName: string): T | null {
+    const filePath = path.join(getConfigDir(), fileName);
+    if (!fs.existsSync(filePath)) return null;
+
+    try {
+        return JSON.parse(fs.readFileSync(filePath, 'utf8')) as T;
+    } catch (error) {
+        throw new Error(`Invalid JSON in ${filePath}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * Replace ${ENV_VAR} references with values from process.env (empty string if unset)
+ */
+export function interpolateEnv(value: string): string {
+    return value.replace(/\$\{(\w+)\}/g, (_match, name: string) => process.env[name] ?? '');
+}
+
+/**
+ * Replace {placeholder} tokens with values from the given map (unknown tokens are left as-is)
+ */
+export function fillTemplate(template: string, values: Record<string, string>): string {
+    return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? values[name] : match));
+}
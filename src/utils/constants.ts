@@ -32,12 +32,18 @@ export const EMOJI = {
     TROPHY: '🏆',
     STAR: '⭐',
     CROWN: '👑',
+    PENCIL: '✏️',
+    EYES: '👀',
+    BOOK: '📖',
+    THUMBS_UP: '👍',
+    THUMBS_DOWN: '👎',
 
     // Progress
     CHECK: '✅',
     CROSS: '❌',
     LOADING: '⏳',
     BELL: '🔔',
+    WARNING: '⚠️',
 
     // Levels
     BRONZE: '🥉',
@@ -56,22 +62,56 @@ export const EMOJI = {
     CHART: '📊',
     CALENDAR: '📅',
     CLOCK: '⏰',
+    NEWSPAPER: '📰',
 } as const;
 
 // ==================== DURATIONS ====================
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
 export const DURATION = {
     // Welcome flow
     WELCOME_DELAY_MS: 60 * 1000, // 60 seconds
 
-    // Reminders
-    REMINDER_DELAY_MS: 24 * 60 * 60 * 1000, // 24 hours
+    // Reminders (stage delays live in src/config/reminders.ts)
     REMINDER_CHECK_INTERVAL: '0 * * * *', // Every hour (cron syntax)
 
+    // Closed-DM fallback threads
+    FALLBACK_THREAD_CHECK_INTERVAL: '*/15 * * * *', // Every 15 minutes (cron syntax)
+
+    // Activity streaks
+    STREAK_CHECK_INTERVAL: '0 * * * *', // Every hour (cron syntax)
+
+    // Resolved help threads
+    RESOLUTION_CHECK_INTERVAL: '*/10 * * * *', // Every 10 minutes (cron syntax)
+
+    // Pruning of data past its retention
+    RETENTION_CHECK_INTERVAL: '0 4 * * *', // Daily at 04:00 (cron syntax)
+
+    // Weekly community digest
+    DIGEST_SCHEDULE: '0 16 * * 5', // Fridays at 16:00 (cron syntax)
+    DIGEST_PERIOD_DAYS: 7,
+
+    // Cohort ping-intro
+    COHORT_DM_INTERVAL_MS: 2000, // Gap between DMs in the cohort queue
+    COHORT_PREVIEW_TTL_MS: 15 * 60 * 1000, // Confirm buttons expire with the interaction token
+
+    // Signed form buttons (see utils/customIds.ts)
+    FORM_BUTTON_TTL_MS: 30 * 24 * 60 * 60 * 1000, // Welcome and reminder DMs stay usable for 30 days
+    FORM_MODAL_TTL_MS: 60 * 60 * 1000, // Time to fill in an opened form
+
+    // Support answer providers
+    ANSWER_TIMEOUT_MS: 30 * 1000,
+    ANSWER_RETRY_DELAY_MS: 1000, // Doubled for each further retry
+    ANSWER_BREAKER_COOLDOWN_MS: 2 * 60 * 1000,
+
     // Data retention (in days)
     USER_PROGRESS_TTL: 90,
     ANALYTICS_TTL: 365,
     INCOMPLETE_INTRO_TTL: 30,
     REMINDER_RECORD_TTL: 7,
+    SUPPORT_ANSWER_TTL: 90,
+    HELPFUL_REACTION_TTL: 90,
+    RESOLUTION_RECORD_TTL: 30,
 
     // Thread archival
     THREAD_ARCHIVE_DURATION: 1440, // 24 hours
@@ -83,6 +123,8 @@ export const LIMITS = {
     MAX_INTRO_LENGTH: 2000,
     MAX_PROJECT_NAME_LENGTH: 100,
     MAX_THREAD_TITLE_LENGTH: 100,
+    EMBED_FIELD_VALUE_MAX: 1024,
+    EMBED_DESCRIPTION_MAX: 4096,
 
     // Pagination
     LEADERBOARD_PAGE_SIZE: 10,
@@ -90,6 +132,28 @@ export const LIMITS = {
 
     // Rate limiting
     MAX_DM_MESSAGES_FETCH: 100,
+    AUDIT_MAX_MESSAGES_PER_CHANNEL: 10000,
+    COHORT_PREVIEW_MENTIONS: 20,
+
+    // Discord component custom IDs
+    CUSTOM_ID_MAX: 100,
+    FORM_ID_MAX_LENGTH: 20, // Keeps signed form button IDs under CUSTOM_ID_MAX
+
+    // FAQ answers shown when the support bot has no other answer
+    FAQ_FALLBACK_HITS: 3,
+    FAQ_HIT_ANSWER_LENGTH: 300,
+
+    // Forum posts
+    FORUM_APPLIED_TAGS_MAX: 5,
+
+    // Support answer feedback
+    FEEDBACK_DEFAULT_DAYS: 30,
+    FEEDBACK_REPORT_MAX: 10,
+    FEEDBACK_COMMENT_MAX: 500,
+
+    // Weekly digest
+    DIGEST_LIST_MAX: 10,
+    DIGEST_BUSIEST_THREADS: 5,
 } as const;
 
 // ==================== GAMIFICATION ====================
@@ -98,12 +162,16 @@ export const GAMIFICATION = {
     POINTS: {
         INTRO_COMPLETE: 10,
         WORKING_COMPLETE: 10,
+        SHOWCASE_COMPLETE: 15,
         FIRST_THREAD: 5,
         THREAD_REPLY: 2,
         HELPFUL_REACTION: 1,
         DAILY_ACTIVE: 1,
     },
 
+    // Thread replies only earn points up to this many times per day
+    MAX_THREAD_REPLIES_PER_DAY: 10,
+
     // Level thresholds
     LEVELS: {
         BRONZE: { min: 0, max: 49, name: 'Bronze Dodo Builder', emoji: EMOJI.BRONZE },
@@ -159,6 +227,11 @@ export function getLevelFromPoints(points: number): typeof GAMIFICATION.LEVELS[k
     return GAMIFICATION.LEVELS.BRONZE;
 }
 
+// Helper function to get the level after the current one (null at the top level)
+export function getNextLevel(points: number): typeof GAMIFICATION.LEVELS[keyof typeof GAMIFICATION.LEVELS] | null {
+    return Object.values(GAMIFICATION.LEVELS).find(level => level.min > points) ?? null;
+}
+
 // Helper function to format duration
 export function formatDuration(ms: number): string {
     const seconds = Math.floor(ms / 1000);
@@ -0,0 +1,76 @@
+/**
+ * Signed component custom IDs: `<prefix>|<field>...|<expiry>|<signature>`.
+ *
+ * Buttons and modals can't hold hidden state, so anything a handler trusts from a custom ID
+ * must come from the bot. The signature is an HMAC over the prefix, fields and expiry;
+ * handlers verify it and look everything else (e.g. destination channels) up server-side.
+ *
+ * CUSTOM_ID_SECRET = HMAC key (default: derived from DISCORD_TOKEN)
+ */
+
+import crypto from 'crypto';
+import { LIMITS } from './constants.js';
+
+const SIGNATURE_LENGTH = 16;
+
+export type VerifiedCustomId =
+    | { status: 'valid'; prefix: string; fields: string[] }
+    | { status: 'invalid' | 'expired' };
+
+let secret: Buffer | null = null;
+
+function getSecret(): Buffer {
+    if (!secret) {
+        const configured = process.env.CUSTOM_ID_SECRET || process.env.DISCORD_TOKEN;
+        if (!configured) {
+            console.warn('CUSTOM_ID_SECRET is not set. Signed buttons will stop working after a restart.');
+        }
+        secret = configured
+            ? crypto.createHash('sha256').update(`custom-ids:${configured}`).digest()
+            : crypto.randomBytes(32);
+    }
+    return secret;
+}
+
+function sign(payload: string): string {
+    return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url').slice(0, SIGNATURE_LENGTH);
+}
+
+/**
+ * Build a custom ID that verifies until `ttlMs` from now. Fields must not contain "|".
+ */
+export function signCustomId(prefix: string, fields: string[], ttlMs: number, now: number = Date.now()): string {
+    if ([prefix, ...fields].some(part => part.includes('|'))) {
+        throw new Error(`Custom ID parts must not contain "|": ${[prefix, ...fields].join(', ')}`);
+    }
+
+    const expiresAt = Math.ceil((now + ttlMs) / 1000).toString(36);
+    const payload = [prefix, ...fields, expiresAt].join('|');
+    const customId = `${payload}|${sign(payload)}`;
+    if (customId.length > LIMITS.CUSTOM_ID_MAX) {
+        throw new Error(`Custom ID for "${prefix}" is ${customId.length} characters (max ${LIMITS.CUSTOM_ID_MAX})`);
+    }
+    return customId;
+}
+
+/**
+ * Check the signature and expiry of a custom ID built with signCustomId
+ */
+export function verifyCustomId(customId: string, now: number = Date.now()): VerifiedCustomId {
+    const separator = customId.lastIndexOf('|');
+    const payload = customId.slice(0, separator);
+    const parts = payload.split('|');
+    if (separator < 0 || parts.length < 2) return { status: 'invalid' };
+
+    const signature = Buffer.from(customId.slice(separator + 1));
+    const expected = Buffer.from(sign(payload));
+    if (signature.length !== expected.length || !crypto.timingSafeEqual(signature, expected)) {
+        return { status: 'invalid' };
+    }
+
+    const [prefix, ...fields] = parts.slice(0, -1);
+    const expiresAt = parseInt(parts[parts.length - 1], 36) * 1000;
+    if (!(expiresAt > now)) return { status: 'expired' };
+
+    return { status: 'valid', prefix, fields };
+}
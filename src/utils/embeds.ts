@@ -4,6 +4,8 @@
 
 import { EmbedBuilder } from 'discord.js';
 import { COLORS, EMOJI, FOOTER } from './constants.js';
+import { fillTemplate } from './config.js';
+import { ReminderStage } from '../config/reminders.js';
 
 
 /**
@@ -84,20 +86,16 @@ export function createWorkingEmbed(projectName: string, userId: string, about: s
 }
 
 /**
- * Reminder embed (for incomplete intro)
+ * Reminder embed for one stage of the onboarding reminder sequence
  */
-export function createReminderEmbed(userId: string): EmbedBuilder {
+export function createReminderEmbed(userId: string, stage: ReminderStage, missingLines: string[]): EmbedBuilder {
     return createBaseEmbed()
-        .setTitle(`${EMOJI.BELL} Friendly Reminder`)
-        .setDescription(
-            `Hey <@${userId}>! ${EMOJI.WAVE}\n\n` +
-            `We noticed you haven't completed your introduction yet.\n\n` +
-            `Take just **60 seconds** to:\n` +
-            `${EMOJI.CHECK} Fill your introduction\n` +
-            `${EMOJI.CHECK} Share what you're working on\n\n` +
-            `Earn the **Dodo Builder** role and join the community! ${EMOJI.ROCKET}`
-        )
-        .setColor(COLORS.YELLOW);
+        .setTitle(stage.title)
+        .setDescription(fillTemplate(stage.description, {
+            user: `<@${userId}>`,
+            missing: missingLines.map(line => `${EMOJI.CHECK} ${line}`).join('\n'),
+        }))
+        .setColor(stage.color ?? COLORS.YELLOW);
 }
 
 /**
@@ -76,7 +76,8 @@ export function pluralize(word: string, count: number, suffix = 's'): string {
  * Create progress bar
  */
 export function createProgressBar(current: number, total: number, length = 10): string {
-    const filled = Math.round((current / total) * length);
+    const ratio = total === 0 ? 0 : Math.min(1, Math.max(0, current / total));
+    const filled = Math.round(ratio * length);
     const empty = length - filled;
     return '█'.repeat(filled) + '░'.repeat(empty);
 }
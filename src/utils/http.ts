@@ -0,0 +1,54 @@
+/**
+ * HTTP helpers: fetch with a per-attempt timeout and exponential-backoff retries
+ */
+
+export class HttpError extends Error {
+    constructor(readonly status: number) {
+        super(`HTTP error! status: ${status}`);
+        this.name = 'HttpError';
+    }
+}
+
+export interface RetryOptions {
+    timeoutMs: number;
+    // Extra attempts after the first one
+    retries: number;
+    // Delay before the first retry, doubled for each one after
+    baseDelayMs: number;
+}
+
+/**
+ * Worth retrying: timeouts, network errors, rate limits and 5xx responses
+ */
+export function isRetryable(error: unknown): boolean {
+    if (error instanceof HttpError) return error.status >= 500 || error.status === 429;
+    if (error instanceof Error) {
+        // AbortSignal.timeout() rejects with TimeoutError; fetch network failures are TypeErrors
+        return error.name === 'TimeoutError' || error.name === 'AbortError' || error instanceof TypeError;
+    }
+    return false;
+}
+
+function sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * fetch() that gives up on each attempt after `timeoutMs` and retries retryable failures.
+ * Resolves with the first OK response, throws the last error otherwise.
+ */
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions, wait: (ms: number) => Promise<void> = sleep): Promise<Response> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            const response = await fetch(url, { ...init, signal: AbortSignal.timeout(options.timeoutMs) });
+            if (!response.ok) throw new HttpError(response.status);
+            return response;
+        } catch (error) {
+            if (attempt >= options.retries || !isRetryable(error)) throw error;
+
+            const delay = options.baseDelayMs * 2 ** attempt;
+            console.warn(`Request to ${new URL(url).host} failed (${(error as Error).message}), retrying in ${delay}ms`);
+            await wait(delay);
+        }
+    }
+}
@@ -0,0 +1,123 @@
+/**
+ * Profile link parsing: classifies a URL by type and normalizes it to a canonical form
+ */
+
+export type LinkType = 'github' | 'x' | 'linkedin' | 'storefront' | 'website';
+
+export const LINK_TYPES: LinkType[] = ['github', 'x', 'linkedin', 'storefront', 'website'];
+
+export const LINK_LABELS: Record<LinkType, string> = {
+    github: 'GitHub',
+    x: 'X',
+    linkedin: 'LinkedIn',
+    storefront: 'Storefront',
+    website: 'Website',
+};
+
+export interface ParsedLink {
+    type: LinkType;
+    url: string;
+}
+
+const DOMAIN_PATTERN = /^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+const GITHUB_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,38})$/i;
+const X_HANDLE_PATTERN = /^\w{1,15}$/;
+// Paths that are X pages rather than profiles
+const X_RESERVED_PATHS = ['home', 'i', 'intent', 'search', 'share', 'explore', 'settings'];
+
+function matchesHost(host: string, domain: string): boolean {
+    return host === domain || host.endsWith(`.${domain}`);
+}
+
+function pathSegments(url: URL): string[] {
+    return url.pathname.split('/').filter(Boolean);
+}
+
+/**
+ * The type a host belongs to, or null for any other site
+ */
+function detectType(host: string): Exclude<LinkType, 'website'> | null {
+    if (matchesHost(host, 'github.com')) return 'github';
+    if (matchesHost(host, 'x.com') || matchesHost(host, 'twitter.com')) return 'x';
+    if (matchesHost(host, 'linkedin.com')) return 'linkedin';
+    if (matchesHost(host, 'dodopayments.com')) return 'storefront';
+    return null;
+}
+
+function normalizeByType(type: LinkType, url: URL): string | null {
+    const segments = pathSegments(url);
+
+    switch (type) {
+        case 'github': {
+            // Profile or repository
+            if (segments.length === 0 || segments.length > 2 || !GITHUB_NAME_PATTERN.test(segments[0])) return null;
+            return `https://github.com/${segments.join('/')}`;
+        }
+        case 'x': {
+            const handle = segments[0];
+            if (segments.length !== 1 || !X_HANDLE_PATTERN.test(handle) || X_RESERVED_PATHS.includes(handle.toLowerCase())) return null;
+            return `https://x.com/${handle}`;
+        }
+        case 'linkedin': {
+            if (segments.length !== 2 || !['in', 'company'].includes(segments[0].toLowerCase())) return null;
+            return `https://www.linkedin.com/${segments[0].toLowerCase()}/${segments[1]}`;
+        }
+        case 'storefront':
+        case 'website': {
+            const path = url.pathname === '/' ? '' : url.pathname.replace(/\/$/, '');
+            return `${url.protocol}//${url.host}${path}${url.search}`;
+        }
+    }
+}
+
+/**
+ * Parse a single link. Links without a scheme get https://. Returns null when the text
+ * is not a web URL, or points at a known site but not at a profile (e.g. github.com alone).
+ */
+export function normalizeLink(raw: string): ParsedLink | null {
+    const text = raw.trim().replace(/^<(.*)>$/, '$1');
+    if (!text) return null;
+
+    let url: URL;
+    try {
+        url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(text) ? text : `https://${text}`);
+    } catch {
+        return null;
+    }
+
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+    if (url.username || url.password) return null;
+
+    url.hash = '';
+    const host = url.hostname.toLowerCase();
+    if (!DOMAIN_PATTERN.test(host)) return null;
+
+    const type = detectType(host) ?? 'website';
+    if (type !== 'website') {
+        // Profile URLs never need tracking parameters
+        url.search = '';
+    }
+
+    const normalized = normalizeByType(type, url);
+    return normalized ? { type, url: normalized } : null;
+}
+
+/**
+ * Parse a links field: one link per line (spaces and commas also separate links).
+ * Links of types the field does not accept are reported as invalid.
+ */
+export function parseLinks(text: string, allowed: LinkType[] = LINK_TYPES): { links: ParsedLink[]; invalid: string[] } {
+    const links: ParsedLink[] = [];
+    const invalid: string[] = [];
+
+    for (const raw of text.split(/[\s,]+/).filter(Boolean)) {
+        const link = normalizeLink(raw);
+        if (link && allowed.includes(link.type)) {
+            if (!links.some(existing => existing.url === link.url)) links.push(link);
+        } else {
+            invalid.push(raw);
+        }
+    }
+
+    return { links, invalid };
+}
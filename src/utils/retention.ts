@@ -0,0 +1,49 @@
+/**
+ * Retention: deletes stored records once they are older than their time to live
+ */
+
+import cron from 'node-cron';
+import { Collection } from '../storage/types.js';
+import { DAY_MS, DURATION } from './constants.js';
+
+/**
+ * Delete records whose timestamp is more than `ttlDays` old. Records without a timestamp are kept.
+ * Returns how many were removed.
+ */
+export async function pruneExpired<T>(
+    collection: Collection<T>,
+    ttlDays: number,
+    timestampOf: (record: T) => number | undefined,
+    now: number = Date.now()
+): Promise<number> {
+    const cutoff = now - ttlDays * DAY_MS;
+    let removed = 0;
+
+    for (const [key, record] of await collection.entries()) {
+        const timestamp = timestampOf(record);
+        if (timestamp === undefined || timestamp >= cutoff) continue;
+        await collection.delete(key);
+        removed++;
+    }
+
+    return removed;
+}
+
+/**
+ * Run `prune` now, to catch up on anything that expired while the bot was offline, then daily
+ */
+export function scheduleRetention(label: string, prune: () => Promise<number>): cron.ScheduledTask {
+    const run = async () => {
+        try {
+            const removed = await prune();
+            if (removed > 0) {
+                console.log(`Pruned ${removed} ${label} past their retention`);
+            }
+        } catch (error) {
+            console.error(`Failed to prune ${label}:`, error);
+        }
+    };
+
+    void run();
+    return cron.schedule(DURATION.RETENTION_CHECK_INTERVAL, run);
+}
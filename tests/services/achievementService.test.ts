@@ -0,0 +1,90 @@
+import { achievementService, evaluateEvent, validateAchievementsConfig, HelpfulReaction, MemberAchievements } from '../../src/services/achievementService';
+import { DEFAULT_ACHIEVEMENTS_CONFIG } from '../../src/config/achievements';
+import { storageService } from '../../src/services/storageService';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { DAY_MS, DURATION } from '../../src/utils/constants';
+import { describe, test, expect } from '@jest/globals';
+
+const { achievements } = DEFAULT_ACHIEVEMENTS_CONFIG;
+
+function record(): MemberAchievements {
+    return { guildId: 'g', userId: 'u', progress: {}, unlocked: {}, createdAt: 0, updatedAt: 0 };
+}
+
+describe('AchievementService', () => {
+    test('should accept the default config', () => {
+        expect(() => validateAchievementsConfig(DEFAULT_ACHIEVEMENTS_CONFIG)).not.toThrow();
+    });
+
+    test('should reject unknown events', () => {
+        const config = { ...DEFAULT_ACHIEVEMENTS_CONFIG, achievements: [{ ...achievements[0], event: 'nope' as never }] };
+        expect(() => validateAchievementsConfig(config)).toThrow('unknown event "nope"');
+    });
+
+    test('should reject helpful emojis that are not a list', () => {
+        const config = { ...DEFAULT_ACHIEVEMENTS_CONFIG, helpfulEmojis: '👍' as never };
+        expect(() => validateAchievementsConfig(config)).toThrow('helpfulEmojis');
+    });
+
+    test('should only count events matching the filter', () => {
+        const member = record();
+        expect(evaluateEvent(member, { type: 'form_submitted', guildId: 'g', userId: 'u', data: { formId: 'working' } }, achievements)).toEqual([]);
+        const unlocked = evaluateEvent(member, { type: 'form_submitted', guildId: 'g', userId: 'u', data: { formId: 'intro' } }, achievements, 42);
+        expect(unlocked.map(a => a.id)).toEqual(['first_intro']);
+        expect(member.unlocked.first_intro).toBe(42);
+    });
+
+    test('should count occurrences until the threshold', () => {
+        const member = record();
+        const event = { type: 'helpful_reaction' as const, guildId: 'g', userId: 'u' };
+        for (let i = 0; i < 9; i++) {
+            expect(evaluateEvent(member, event, achievements)).toEqual([]);
+        }
+        expect(evaluateEvent(member, event, achievements).map(a => a.id)).toEqual(['helpful_10']);
+        expect(evaluateEvent(member, event, achievements)).toEqual([]);
+    });
+
+    test('should unlock every valued achievement the value reaches', () => {
+        const member = record();
+        const unlocked = evaluateEvent(member, { type: 'points', guildId: 'g', userId: 'u', value: 250 }, achievements);
+        expect(unlocked.map(a => a.id)).toEqual(['level_silver', 'level_gold']);
+        expect(member.progress.level_diamond).toBe(250);
+    });
+
+    test('should count one helpful reaction per member and message', async () => {
+        await storageService.initialize(new MemoryStorageAdapter());
+        const message: any = { partial: false, id: 'm1', guildId: 'g', author: { id: 'author', bot: false }, client: {}, createdTimestamp: Date.now() };
+        const reactor: any = { id: 'reactor', bot: false };
+        const react = (emoji: string) => achievementService.handleReaction({ emoji: { name: emoji }, message } as any, reactor);
+
+        // Remove and re-add, then stack another helpful emoji
+        await react('👍');
+        await react('👍');
+        await react('🔥');
+        await achievementService.handleReaction({ emoji: { name: '👍' }, message } as any, { id: 'other', bot: false } as any);
+
+        const helpful = achievements.find(a => a.event === 'helpful_reaction');
+        const record = await achievementService.getRecord('g', 'author');
+        expect(helpful && record?.progress[helpful.id]).toBe(2);
+    });
+
+    test('should ignore helpful reactions to messages past the retention', async () => {
+        await storageService.initialize(new MemoryStorageAdapter());
+        const createdTimestamp = Date.now() - (DURATION.HELPFUL_REACTION_TTL + 1) * DAY_MS;
+        const message: any = { partial: false, id: 'm1', guildId: 'g', author: { id: 'author', bot: false }, client: {}, createdTimestamp };
+        await achievementService.handleReaction({ emoji: { name: '👍' }, message } as any, { id: 'reactor', bot: false } as any);
+
+        expect(await achievementService.getRecord('g', 'author')).toBeNull();
+    });
+
+    test('should prune helpful reactions past the retention', async () => {
+        await storageService.initialize(new MemoryStorageAdapter());
+        const reactions = storageService.collection<HelpfulReaction>('helpful_reactions');
+        const reaction = (daysAgo: number): HelpfulReaction => ({ guildId: 'g', messageId: 'm', reactorId: 'r', authorId: 'a', createdAt: Date.now() - daysAgo * DAY_MS });
+        await reactions.set('old', reaction(DURATION.HELPFUL_REACTION_TTL + 1));
+        await reactions.set('recent', reaction(1));
+
+        expect(await achievementService.pruneHelpfulReactions()).toBe(1);
+        expect(await reactions.get('recent')).not.toBeNull();
+    });
+});
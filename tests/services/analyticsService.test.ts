@@ -0,0 +1,57 @@
+import { analyticsService, computeFunnel, OnboardingEvent } from '../../src/services/analyticsService';
+import { storageService } from '../../src/services/storageService';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { DURATION } from '../../src/utils/constants';
+import { describe, test, expect } from '@jest/globals';
+
+const HOUR = 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 0, 31);
+const FORMS = [
+    { id: 'intro', label: 'Intro submitted' },
+    { id: 'working', label: 'Working submitted' },
+];
+
+function event(userId: string, type: OnboardingEvent['type'], hoursAgo: number, formId?: string): OnboardingEvent {
+    return { guildId: 'guild1', userId, type, timestamp: NOW - hoursAgo * HOUR, formId };
+}
+
+describe('computeFunnel', () => {
+    test('should count each step relative to the join cohort', () => {
+        const events = [
+            event('a', 'member_joined', 48),
+            event('a', 'welcome_dm_sent', 48),
+            event('a', 'form_submitted', 47, 'intro'),
+            event('a', 'form_submitted', 46, 'working'),
+            event('a', 'builder_awarded', 46),
+            event('b', 'member_joined', 24),
+            event('b', 'welcome_dm_failed', 24),
+            // Joined before the window, so not part of the cohort
+            event('c', 'member_joined', 24 * 30),
+            event('c', 'form_submitted', 2, 'intro'),
+        ];
+
+        const stats = computeFunnel(events, FORMS, 7, NOW);
+
+        expect(stats.joined).toBe(2);
+        expect(stats.steps.map(s => s.count)).toEqual([2, 1, 1, 1, 1]);
+        expect(stats.dmFailures).toBe(1);
+        expect(stats.medianTimeToCompleteMs).toBe(2 * HOUR);
+    });
+
+    test('should report no median when nobody completed', () => {
+        const stats = computeFunnel([event('a', 'member_joined', 1)], FORMS, 7, NOW);
+        expect(stats.medianTimeToCompleteMs).toBeNull();
+    });
+});
+
+describe('pruneEvents', () => {
+    test('should delete events older than the retention period', async () => {
+        await storageService.initialize(new MemoryStorageAdapter());
+        const events = storageService.collection<OnboardingEvent>('onboarding_events');
+        await events.set('old', event('a', 'member_joined', (DURATION.ANALYTICS_TTL + 1) * 24));
+        await events.set('recent', event('b', 'member_joined', 24));
+
+        expect(await analyticsService.pruneEvents(NOW)).toBe(1);
+        expect((await events.all()).map(e => e.userId)).toEqual(['b']);
+    });
+});
@@ -0,0 +1,52 @@
+import { OpenAiAnswerProvider, resolveProviderName, StaticAnswerProvider, validateAnswerProvidersConfig } from '../../src/services/answerService';
+import { AnswerProvidersConfig, DEFAULT_ANSWER_PROVIDERS_CONFIG, StaticProviderConfig } from '../../src/config/answerProviders';
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+
+const config: AnswerProvidersConfig = {
+    providers: {
+        n8n: { type: 'n8n', url: 'https://n8n.example.com/webhook' },
+        local: { type: 'static', answers: [{ keywords: ['refund', 'days'], answer: 'Refunds take 5-7 days.' }], fallback: 'The team will get back to you soon!' },
+    },
+    defaultProvider: 'n8n',
+    channels: { 'test-channel': 'local' },
+};
+
+describe('AnswerService', () => {
+    const originalFetch = global.fetch;
+
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    test('should accept the default config', () => {
+        expect(() => validateAnswerProvidersConfig(DEFAULT_ANSWER_PROVIDERS_CONFIG)).not.toThrow();
+    });
+
+    test('should reject channels pointing at unknown providers', () => {
+        expect(() => validateAnswerProvidersConfig({ ...config, channels: { c: 'nope' } })).toThrow('unknown answer provider "nope"');
+    });
+
+    test('should pick the channel, then the parent channel, then the default provider', () => {
+        expect(resolveProviderName(config, 'test-channel')).toBe('local');
+        expect(resolveProviderName(config, 'thread-id', 'test-channel')).toBe('local');
+        expect(resolveProviderName(config, 'other', 'other-parent')).toBe('n8n');
+    });
+
+    test('should answer from static entries when every keyword matches', async () => {
+        const provider = new StaticAnswerProvider('local', config.providers.local as StaticProviderConfig);
+        await expect(provider.answer('How many DAYS does a refund take?')).resolves.toBe('Refunds take 5-7 days.');
+        await expect(provider.answer('Where is my refund?')).resolves.toBe('The team will get back to you soon!');
+    });
+
+    test('should time out and retry OpenAI-compatible requests', async () => {
+        const fetchMock = jest.fn<typeof fetch>()
+            .mockRejectedValueOnce(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))
+            .mockResolvedValueOnce(new Response(JSON.stringify({ choices: [{ message: { content: ' Hi! ' } }] })));
+        global.fetch = fetchMock;
+
+        const provider = new OpenAiAnswerProvider('openai', { type: 'openai', baseUrl: 'https://api.example.com/v1/', model: 'm' }, { timeoutMs: 1000, retries: 1, baseDelayMs: 0 });
+        await expect(provider.answer('Hello')).resolves.toBe('Hi!');
+        expect(fetchMock).toHaveBeenCalledTimes(2);
+        expect(fetchMock.mock.calls[0][1]?.signal).toBeInstanceOf(AbortSignal);
+    });
+});
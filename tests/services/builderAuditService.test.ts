@@ -0,0 +1,44 @@
+import { extractPostAuthorId, identifyPostForm } from '../../src/services/builderAuditService';
+import { DEFAULT_FORMS_CONFIG } from '../../src/config/forms';
+import { describe, test, expect } from '@jest/globals';
+
+describe('extractPostAuthorId', () => {
+    test('should read the mention ending the heading line of the embed description', () => {
+        const message = {
+            content: '',
+            embeds: [{ description: '**Hey there, Ana!** <@123456789>\n\nShe works with <@987654321>' }],
+        };
+        expect(extractPostAuthorId(message)).toBe('123456789');
+    });
+
+    test('should ignore mentions typed into the heading by the member', () => {
+        const message = {
+            content: '',
+            embeds: [{ description: '**Welcome to the community, <@555>!** <@123456789>\n\nAbout me' }],
+        };
+        expect(extractPostAuthorId(message)).toBe('123456789');
+    });
+
+    test('should fall back to the message content for old posts', () => {
+        expect(extractPostAuthorId({ content: 'Welcome <@!42>!', embeds: [] })).toBe('42');
+    });
+
+    test('should return null when nobody is mentioned', () => {
+        expect(extractPostAuthorId({ content: 'Weekly update', embeds: [{ description: null }] })).toBeNull();
+    });
+});
+
+describe('identifyPostForm', () => {
+    const [intro, project] = DEFAULT_FORMS_CONFIG.forms;
+
+    test('should tell forms sharing a channel apart by embed title', () => {
+        expect(identifyPostForm({ embeds: [{ title: project.embed.title }] }, [intro, project])).toBe(project);
+        expect(identifyPostForm({ embeds: [{ title: intro.embed.title }] }, [intro, project])).toBe(intro);
+    });
+
+    test('should only guess the form when the channel has one', () => {
+        expect(identifyPostForm({ embeds: [] }, [intro])).toBe(intro);
+        expect(identifyPostForm({ embeds: [] }, [intro, project])).toBeNull();
+        expect(identifyPostForm({ embeds: [{ title: 'Weekly digest' }] }, [intro, project])).toBeNull();
+    });
+});
@@ -0,0 +1,35 @@
+import { matchesCohort, describeCohort, CohortCandidate } from '../../src/services/cohortService';
+import { describe, test, expect } from '@jest/globals';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 5, 15);
+
+function candidate(overrides: Partial<CohortCandidate> = {}): CohortCandidate {
+    return { bot: false, joinedTimestamp: NOW - 5 * DAY_MS, roleIds: [], completedIntro: false, ...overrides };
+}
+
+describe('CohortService', () => {
+    test('should match members who joined recently without a role', () => {
+        const filter = { joinedAfter: NOW - 14 * DAY_MS, lacksRoleId: 'builder', noIntro: false };
+        expect(matchesCohort(candidate(), filter)).toBe(true);
+        expect(matchesCohort(candidate({ roleIds: ['builder'] }), filter)).toBe(false);
+        expect(matchesCohort(candidate({ joinedTimestamp: NOW - 20 * DAY_MS }), filter)).toBe(false);
+    });
+
+    test('should apply the role and intro filters', () => {
+        const filter = { hasRoleId: 'beta', noIntro: true };
+        expect(matchesCohort(candidate({ roleIds: ['beta'] }), filter)).toBe(true);
+        expect(matchesCohort(candidate({ roleIds: ['beta'], completedIntro: true }), filter)).toBe(false);
+        expect(matchesCohort(candidate(), filter)).toBe(false);
+    });
+
+    test('should never include bots', () => {
+        expect(matchesCohort(candidate({ bot: true }), { noIntro: false })).toBe(false);
+    });
+
+    test('should describe the filters', () => {
+        const filter = { joinedAfter: NOW - 14 * DAY_MS, joinedBefore: NOW - 2 * DAY_MS, lacksRoleId: 'builder', noIntro: true };
+        expect(describeCohort(filter, NOW)).toBe('joined 2-14 days ago · without <@&builder> · never completed the intro');
+        expect(describeCohort({ noIntro: false }, NOW)).toBe('');
+    });
+});
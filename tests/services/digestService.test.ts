@@ -0,0 +1,48 @@
+import { buildDigestEmbed, summarizeWeek, ResolvedThread } from '../../src/services/digestService';
+import type { PostRecord } from '../../src/services/postService';
+import type { ProjectRecord } from '../../src/services/projectService';
+import { describe, test, expect } from '@jest/globals';
+
+const SINCE = 1_000_000;
+
+function post(userId: string, formId: string, createdAt: number): PostRecord {
+    return { guildId: 'g', userId, formId, channelId: 'c', messageId: `m-${userId}`, values: {}, variation: 0, createdAt, updatedAt: createdAt };
+}
+
+function project(threadId: string, formId: string, createdAt: number): ProjectRecord {
+    return {
+        guildId: 'g', ownerId: 'u', name: threadId, description: '', threadId, formId,
+        channelId: 'c', messageId: 'm', status: 'building', updates: 0, createdAt, updatedAt: createdAt,
+    };
+}
+
+function resolved(threadId: string, resolvedAt: number): ResolvedThread {
+    return { guildId: 'g', threadId, name: `Help ${threadId}`, resolvedBy: 'u', resolvedAt };
+}
+
+describe('DigestService', () => {
+    test('should only include what happened since the start of the week', () => {
+        const summary = summarizeWeek({
+            posts: [post('old', 'intro', SINCE - 1), post('new', 'intro', SINCE + 5), post('builder', 'working', SINCE + 1)],
+            projects: [project('t1', 'working', SINCE - 1), project('t2', 'working', SINCE + 2), project('t3', 'showcase', SINCE + 3)],
+            resolved: [resolved('h1', SINCE - 1), resolved('h2', SINCE + 1)],
+        }, SINCE);
+
+        expect(summary.intros.map(p => p.userId)).toEqual(['new']);
+        expect(summary.projects.map(p => p.threadId)).toEqual(['t2']);
+        expect(summary.showcases.map(p => p.threadId)).toEqual(['t3']);
+        expect(summary.resolved.map(t => t.threadId)).toEqual(['h2']);
+    });
+
+    test('should link every entry and cap long lists', () => {
+        const intros = Array.from({ length: 12 }, (_, i) => post(`u${i}`, 'intro', SINCE + i));
+        const embed = buildDigestEmbed('g', { intros, projects: [], showcases: [], resolved: [] }, [{ project: project('t1', 'working', SINCE), replies: 1 }], SINCE).toJSON();
+        const [introField, projectField, , busiestField] = embed.fields ?? [];
+
+        expect(introField.name).toContain('(12)');
+        expect(introField.value).toContain('https://discord.com/channels/g/c/m-u0');
+        expect(introField.value).toContain('…and 2 more');
+        expect(projectField.value).toBe('No new projects this week.');
+        expect(busiestField.value).toContain('[t1](https://discord.com/channels/g/t1) by <@u> · 1 reply');
+    });
+});
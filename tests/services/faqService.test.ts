@@ -0,0 +1,39 @@
+import { FaqEntry, parseLines, rankEntries } from '../../src/services/faqService';
+import { tokenize } from '../../src/utils/bm25';
+import { describe, test, expect } from '@jest/globals';
+
+function entry(id: string, questions: string[]): FaqEntry {
+    return { id, questions, answer: `Answer ${id}`, links: [], updatedBy: 'mod', createdAt: 0, updatedAt: 0 };
+}
+
+const entries = [
+    entry('refund', ['How do I refund a payment?', 'Can I issue a partial refund?']),
+    entry('webhook', ['Why are my webhooks not arriving?', 'How do I verify webhook signatures?']),
+    entry('payout', ['When do payouts happen?']),
+];
+
+describe('FaqService', () => {
+    test('should tokenize without stopwords and fold simple plurals', () => {
+        expect(tokenize('How do I verify the Webhooks?')).toEqual(['verify', 'webhook']);
+    });
+
+    test('should split multi-line fields into trimmed values', () => {
+        expect(parseLines(' first \n\nsecond\r\n')).toEqual(['first', 'second']);
+    });
+
+    test('should rank the matching entry first with high confidence for a paraphrase', () => {
+        const [best] = rankEntries(entries, 'how can I refund a payment');
+        expect(best.entry.id).toBe('refund');
+        expect(best.confidence).toBeGreaterThanOrEqual(0.7);
+    });
+
+    test('should keep confidence low when a long message shares only a word', () => {
+        const matches = rankEntries(entries, 'my checkout page crashes on mobile and the webhook logs show a timeout after deploy');
+        expect(matches[0].entry.id).toBe('webhook');
+        expect(matches[0].confidence).toBeLessThan(0.7);
+    });
+
+    test('should return nothing when no terms match', () => {
+        expect(rankEntries(entries, 'dark mode please')).toEqual([]);
+    });
+});
@@ -0,0 +1,85 @@
+import { formService, validateFormsConfig } from '../../src/services/formService';
+import { DEFAULT_FORMS_CONFIG, FormsConfig } from '../../src/config/forms';
+import { describe, test, expect } from '@jest/globals';
+
+function cloneDefaults(): FormsConfig {
+    return JSON.parse(JSON.stringify(DEFAULT_FORMS_CONFIG));
+}
+
+describe('validateFormsConfig', () => {
+    test('should accept the built-in forms', () => {
+        expect(() => validateFormsConfig(DEFAULT_FORMS_CONFIG)).not.toThrow();
+    });
+
+    test('should reject more than five fields', () => {
+        const config = cloneDefaults();
+        const field = config.forms[0].fields[0];
+        config.forms[0].fields = [1, 2, 3, 4, 5, 6].map(i => ({ ...field, id: `field_${i}` }));
+        expect(() => validateFormsConfig(config)).toThrow('between 1 and 5 fields');
+    });
+
+    test('should reject ids that would break custom ids', () => {
+        const config = cloneDefaults();
+        config.forms[0].id = 'intro|evil';
+        expect(() => validateFormsConfig(config)).toThrow('must only contain');
+    });
+
+    test('should reject requirements pointing at unknown forms', () => {
+        const config = cloneDefaults();
+        config.builderRequirements.push({ label: 'hiring', forms: ['hiring'] });
+        expect(() => validateFormsConfig(config)).toThrow('unknown forms: hiring');
+    });
+
+    test('should reject project mappings to unknown fields', () => {
+        const config = cloneDefaults();
+        const working = config.forms.find(form => form.id === 'working')!;
+        working.project = { nameField: 'title', descriptionField: 'product_about', status: 'building' };
+        expect(() => validateFormsConfig(config)).toThrow('unknown field "title"');
+    });
+
+    test('should reject launching into a form without a project mapping', () => {
+        const config = cloneDefaults();
+        const working = config.forms.find(form => form.id === 'working')!;
+        working.project!.launchFormId = 'intro';
+        expect(() => validateFormsConfig(config)).toThrow('launches into "intro"');
+    });
+});
+
+describe('FormService', () => {
+    test('should require the intro and one project form', () => {
+        expect(formService.isBuilderComplete(['intro'])).toBe(false);
+        expect(formService.isBuilderComplete(['working'])).toBe(false);
+        expect(formService.isBuilderComplete(['intro', 'showcase'])).toBe(true);
+        expect(formService.getMissingRequirements(['working']).map(r => r.label)).toEqual(['intro']);
+    });
+
+    test('should fill field placeholders in the embed', () => {
+        const form = formService.getForm('working')!;
+        const embed = formService.buildEmbed(form, 'user1', { product_name: 'Dodo', product_about: 'Payments' }).toJSON();
+        expect(embed.title).toBe('New Project');
+        expect(embed.description).toContain('Dodo <@user1>');
+        expect(embed.description).toContain('> Payments');
+    });
+
+    test('should normalize links fields and render them as link buttons', () => {
+        const form = formService.getForm('intro')!;
+        const { values, invalid } = formService.normalizeLinks(form, { name_input: 'Ana', about_input: 'Hi', links_input: 'github.com/ana\nana.dev' });
+        expect(invalid).toEqual([]);
+        expect(values.links_input).toBe('https://github.com/ana\nhttps://ana.dev');
+
+        const [row] = formService.buildLinkButtons(form, values).map(r => r.toJSON());
+        expect(row.components.map(button => ('label' in button ? button.label : undefined))).toEqual(['GitHub', 'ana.dev']);
+    });
+
+    test('should only create threads for project forms', () => {
+        expect(formService.buildThreadName(formService.getForm('intro')!, { name_input: 'Ana' })).toBeNull();
+        expect(formService.buildThreadName(formService.getForm('showcase')!, { product_name: 'x'.repeat(150) })).toHaveLength(100);
+    });
+
+    test('should disable the buttons of completed forms', () => {
+        const [row] = formService.buildFormButtons('g', 'u', undefined, 'en', ['intro']);
+        const [intro, working] = row.components.map(button => button.toJSON());
+        expect(intro).toMatchObject({ disabled: true, emoji: { name: '✅' } });
+        expect(working.disabled).toBeFalsy();
+    });
+});
@@ -0,0 +1,47 @@
+import { i18nService, resolveLocale } from '../../src/services/i18nService';
+import { formService } from '../../src/services/formService';
+import { describe, test, expect } from '@jest/globals';
+
+describe('resolveLocale', () => {
+    test('should map Discord locales to supported bundles', () => {
+        expect(resolveLocale('pt-BR')).toBe('pt-BR');
+        expect(resolveLocale('es-419')).toBe('es');
+        expect(resolveLocale('es-ES')).toBe('es');
+        expect(resolveLocale('en-GB')).toBe('en');
+        expect(resolveLocale('hi')).toBe('hi');
+    });
+
+    test('should return null for unsupported locales', () => {
+        expect(resolveLocale('ja')).toBeNull();
+        expect(resolveLocale(undefined)).toBeNull();
+    });
+});
+
+describe('I18nService', () => {
+    test('should fill placeholders in the requested language', () => {
+        expect(i18nService.t('es', 'submission.updated', { url: 'https://x' })).toBe('¡Gracias! Tu publicación ha sido actualizada ✅ https://x');
+    });
+
+    test('should fall back to English, then to the given fallback', () => {
+        expect(i18nService.t('hi', 'no.such.key', {}, 'Fallback')).toBe('Fallback');
+        expect(i18nService.t('es', 'welcome.title')).not.toBe(i18nService.t('en', 'welcome.title'));
+    });
+
+    test('should follow the locale of the latest interaction', async () => {
+        await i18nService.detectLocale('user-1', 'es-ES');
+        expect(await i18nService.getLocale('user-1')).toBe('es');
+
+        await i18nService.detectLocale('user-1', 'pt-BR');
+        expect(await i18nService.getLocale('user-1')).toBe('pt-BR');
+    });
+
+    test('should localize form labels and leave untranslated forms as configured', () => {
+        const intro = formService.getForm('intro')!;
+        const localized = formService.localize(intro, 'pt-BR');
+
+        expect(localized.modalTitle).toBe('Apresente-se');
+        expect(localized.fields[0].label).toBe('Nome');
+        expect(formService.localize(intro, 'en')).toBe(intro);
+        expect(formService.localize({ ...intro, id: 'custom' }, 'es').modalTitle).toBe(intro.modalTitle);
+    });
+});
@@ -0,0 +1,31 @@
+import { moderationService } from '../../src/services/moderationService';
+import { describe, test, expect } from '@jest/globals';
+
+describe('ModerationService', () => {
+    describe('matchBannedSentence', () => {
+        test('should match banned sentences with gaps between the parts', () => {
+            const text = 'Hey! Please go here and share it on Google docs';
+            expect(moderationService.matchBannedSentence(text)).toBe('...go...here...share...google...');
+        });
+
+        test('should return null for normal text', () => {
+            expect(moderationService.matchBannedSentence("I'm building a SaaS for invoicing")).toBeNull();
+        });
+    });
+
+    describe('checkLinks', () => {
+        test('should flag invite and shortened links', () => {
+            const reasons = moderationService.checkLinks('Join discord.gg/abc or https://bit.ly/xyz');
+            expect(reasons).toEqual(['Invite link: discord.gg/abc', 'Shortened link: https://bit.ly/xyz']);
+        });
+
+        test('should flag too many links', () => {
+            const text = 'https://a.com https://b.com https://c.com https://d.com';
+            expect(moderationService.checkLinks(text)).toEqual(['4 links (more than 3)']);
+        });
+
+        test('should allow a normal product link', () => {
+            expect(moderationService.checkLinks('Check it out at https://myproduct.dev')).toEqual([]);
+        });
+    });
+});
@@ -0,0 +1,37 @@
+import { applyMessageActivity, MemberPoints } from '../../src/services/pointsService';
+import { GAMIFICATION, getLevelFromPoints, getNextLevel } from '../../src/utils/constants';
+import { describe, test, expect } from '@jest/globals';
+
+const DAY_ONE = Date.UTC(2025, 0, 1, 9);
+const DAY_TWO = Date.UTC(2025, 0, 2, 9);
+
+function record(): MemberPoints {
+    return { guildId: 'g', userId: 'u', points: 0, awarded: [], repliesToday: 0, createdAt: 0, updatedAt: 0 };
+}
+
+describe('PointsService', () => {
+    test('should give the daily activity bonus once per UTC day', () => {
+        const member = record();
+        expect(applyMessageActivity(member, false, DAY_ONE)).toBe(GAMIFICATION.POINTS.DAILY_ACTIVE);
+        expect(applyMessageActivity(member, false, DAY_ONE + 1000)).toBe(0);
+        expect(applyMessageActivity(member, false, DAY_TWO)).toBe(GAMIFICATION.POINTS.DAILY_ACTIVE);
+    });
+
+    test('should cap thread reply points per day', () => {
+        const member = record();
+        let total = 0;
+        for (let i = 0; i < GAMIFICATION.MAX_THREAD_REPLIES_PER_DAY + 5; i++) {
+            total += applyMessageActivity(member, true, DAY_ONE + i);
+        }
+        expect(total).toBe(GAMIFICATION.POINTS.DAILY_ACTIVE + GAMIFICATION.MAX_THREAD_REPLIES_PER_DAY * GAMIFICATION.POINTS.THREAD_REPLY);
+
+        // The counter resets the next day
+        expect(applyMessageActivity(member, true, DAY_TWO)).toBe(GAMIFICATION.POINTS.DAILY_ACTIVE + GAMIFICATION.POINTS.THREAD_REPLY);
+    });
+
+    test('should find the current and next level', () => {
+        expect(getLevelFromPoints(60)).toBe(GAMIFICATION.LEVELS.SILVER);
+        expect(getNextLevel(60)).toBe(GAMIFICATION.LEVELS.GOLD);
+        expect(getNextLevel(500)).toBeNull();
+    });
+});
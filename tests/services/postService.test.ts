@@ -0,0 +1,62 @@
+import { postService } from '../../src/services/postService';
+import { formService } from '../../src/services/formService';
+import { storageService } from '../../src/services/storageService';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+
+describe('PostService', () => {
+    let sent: any[];
+    let client: any;
+
+    beforeEach(async () => {
+        await storageService.initialize(new MemoryStorageAdapter());
+        sent = [];
+
+        const channel: any = {
+            id: 'showcase-channel',
+            send: jest.fn(async () => {
+                const message: any = {
+                    id: `message-${sent.length + 1}`,
+                    edit: jest.fn(async () => message),
+                    startThread: jest.fn(async ({ name }: any) => ({
+                        id: `thread-${message.id}`,
+                        name,
+                        members: { add: jest.fn(async () => undefined) },
+                        send: jest.fn(async () => ({ id: 'launch-button' })),
+                    })),
+                };
+                sent.push(message);
+                return message;
+            }),
+            messages: { fetch: jest.fn(async (id: string) => sent.find(message => message.id === id)) },
+        };
+        client = { channels: { fetch: jest.fn(async () => channel) } };
+    });
+
+    test('should give every launched project its own showcase post', async () => {
+        const showcase = formService.getForm('showcase');
+        if (!showcase) throw new Error('showcase form missing');
+
+        const first = await postService.publish(client, showcase, 'guild', 'owner', 'showcase-channel', { product_name: 'Alpha', product_about: 'First' }, 'project-a');
+        const second = await postService.publish(client, showcase, 'guild', 'owner', 'showcase-channel', { product_name: 'Beta', product_about: 'Second' }, 'project-b');
+
+        expect(first?.updated).toBe(false);
+        expect(second?.updated).toBe(false);
+        expect(second?.post.messageId).not.toBe(first?.post.messageId);
+        expect(sent[0].edit).not.toHaveBeenCalled();
+
+        const posts = await postService.getPostsForUser('guild', 'owner');
+        expect(posts.map(post => [post.launchedFrom, post.values.product_name])).toEqual([['project-a', 'Alpha'], ['project-b', 'Beta']]);
+    });
+
+    test('should edit the showcase of the same project in place', async () => {
+        const showcase = formService.getForm('showcase');
+        if (!showcase) throw new Error('showcase form missing');
+
+        await postService.publish(client, showcase, 'guild', 'owner', 'showcase-channel', { product_name: 'Alpha', product_about: 'First' }, 'project-a');
+        const edited = await postService.publish(client, showcase, 'guild', 'owner', 'showcase-channel', { product_name: 'Alpha', product_about: 'Now live' }, 'project-a');
+
+        expect(edited?.updated).toBe(true);
+        expect(sent).toHaveLength(1);
+    });
+});
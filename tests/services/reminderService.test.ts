@@ -1,5 +1,8 @@
 import { reminderService } from '../../src/services/reminderService';
-import { jest, describe, beforeEach, test, expect } from '@jest/globals';
+import { storageService } from '../../src/services/storageService';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { completionService } from '../../src/services/completionService';
+import { jest, describe, beforeEach, afterEach, test, expect } from '@jest/globals';
 
 // Mock discord.js
 jest.mock('discord.js', () => {
@@ -35,29 +38,39 @@ jest.mock('node-cron', () => ({
 describe('ReminderService', () => {
     let mockClient: any;
     let mockUser: any;
+    let mockMembers: any;
 
-    beforeEach(() => {
-        // Reset mocks and internal state if possible
-        // Since reminderService is a singleton exported instance, we might need to clear its array manually if we could
-        // But for now we'll just test the public methods and access private ones via any
+    beforeEach(async () => {
+        // Fresh in-memory storage for every test so the singleton starts empty
+        await storageService.initialize(new MemoryStorageAdapter());
 
         mockUser = {
             id: 'user123',
             send: jest.fn().mockImplementation(() => Promise.resolve(true))
         };
 
+        mockMembers = {
+            fetch: jest.fn().mockImplementation(() => Promise.resolve({ id: 'user123' }))
+        };
+
         // Create a manual mock client object
         mockClient = {
             users: {
                 fetch: jest.fn().mockImplementation(() => Promise.resolve(mockUser))
+            },
+            guilds: {
+                fetch: jest.fn().mockImplementation(() => Promise.resolve({ members: mockMembers }))
             }
         };
 
         // Reset the service state (hacky but needed for singleton)
-        (reminderService as any).reminders = [];
         (reminderService as any).client = null;
     });
 
+    afterEach(() => {
+        reminderService.stop();
+    });
+
     test('should initialize correctly', () => {
         reminderService.initialize(mockClient);
         expect((reminderService as any).client).toBe(mockClient);
@@ -65,38 +78,44 @@ describe('ReminderService', () => {
 
     test('should schedule a reminder', async () => {
         await reminderService.scheduleReminder('guild1', 'user1');
-        const reminders = (reminderService as any).reminders;
+        const reminders = await (reminderService as any).reminders.all();
         expect(reminders.length).toBe(1);
         expect(reminders[0].userId).toBe('user1');
-        expect(reminders[0].sent).toBe(false);
+        expect(reminders[0].nextStage).toBe(0);
+        expect(reminders[0].done).toBe(false);
     });
 
     test('should not duplicate reminder for same user', async () => {
         await reminderService.scheduleReminder('guild1', 'user1');
         await reminderService.scheduleReminder('guild1', 'user1');
-        const reminders = (reminderService as any).reminders;
+        const reminders = await (reminderService as any).reminders.all();
         expect(reminders.length).toBe(1);
     });
 
     test('should cancel a reminder', async () => {
         await reminderService.scheduleReminder('guild1', 'user1');
         await reminderService.cancelReminder('guild1', 'user1');
-        const reminders = (reminderService as any).reminders;
-        expect(reminders.length).toBe(0);
+        const reminders = await (reminderService as any).reminders.all();
+        expect(reminders[0].done).toBe(true);
+        expect(reminders[0].stopReason).toBe('completed');
     });
 
+    async function addDueReminder(nextStage = 0, startedHoursAgo = 25) {
+        await (reminderService as any).reminders.set('guild1:user123', {
+            guildId: 'guild1',
+            userId: 'user123',
+            startedAt: Date.now() - startedHoursAgo * 60 * 60 * 1000,
+            nextStage,
+            scheduledFor: Date.now() - 10000,
+            done: false
+        });
+    }
+
     test('should process pending reminders', async () => {
         reminderService.initialize(mockClient);
 
         // Manually add a reminder that is due
-        const pastDate = new Date(Date.now() - 10000);
-        (reminderService as any).reminders.push({
-            guildId: 'guild1',
-            userId: 'user123',
-            reminderType: '24h_intro_incomplete',
-            scheduledFor: pastDate,
-            sent: false
-        });
+        await addDueReminder();
 
         // Call private method
         await (reminderService as any).processPendingReminders();
@@ -104,7 +123,61 @@ describe('ReminderService', () => {
         expect(mockClient.users.fetch).toHaveBeenCalledWith('user123');
         expect(mockUser.send).toHaveBeenCalled();
 
-        const reminders = (reminderService as any).reminders;
-        expect(reminders[0].sent).toBe(true);
+        const reminders = await (reminderService as any).reminders.all();
+        expect(reminders[0].nextStage).toBe(1);
+        expect(reminders[0].done).toBe(false);
+    });
+
+    test('should finish the sequence after the last stage', async () => {
+        reminderService.initialize(mockClient);
+        const stages = (reminderService as any).stages;
+        await addDueReminder(stages.length - 1, 8 * 24);
+
+        await (reminderService as any).processPendingReminders();
+
+        expect(mockUser.send).toHaveBeenCalled();
+        const reminders = await (reminderService as any).reminders.all();
+        expect(reminders[0].done).toBe(true);
+        expect(reminders[0].stopReason).toBe('finished');
+    });
+
+    test('should send only the latest stage when several are overdue', async () => {
+        reminderService.initialize(mockClient);
+        // 24h and 3d are both overdue, 7d is not
+        await addDueReminder(0, 4 * 24);
+
+        await (reminderService as any).processPendingReminders();
+        await (reminderService as any).processPendingReminders();
+
+        expect(mockUser.send).toHaveBeenCalledTimes(1);
+        const reminders = await (reminderService as any).reminders.all();
+        expect(reminders[0].nextStage).toBe(2);
+        expect(reminders[0].scheduledFor).toBeGreaterThan(Date.now());
+    });
+
+    test('should stop without sending once onboarding is complete', async () => {
+        reminderService.initialize(mockClient);
+        await completionService.addCompletion('guild1', 'user123', 'intro');
+        await completionService.addCompletion('guild1', 'user123', 'showcase');
+        await addDueReminder();
+
+        await (reminderService as any).processPendingReminders();
+
+        expect(mockUser.send).not.toHaveBeenCalled();
+        const reminders = await (reminderService as any).reminders.all();
+        expect(reminders[0].stopReason).toBe('completed');
+    });
+
+    test('should only offer the forms that are still missing', async () => {
+        reminderService.initialize(mockClient);
+        await completionService.addCompletion('guild1', 'user123', 'intro');
+        await addDueReminder();
+
+        await (reminderService as any).processPendingReminders();
+
+        const payload = mockUser.send.mock.calls[0][0];
+        const customIds = payload.components.flatMap((row: any) => row.toJSON().components.map((c: any) => c.custom_id));
+        expect(customIds.some((id: string) => id.startsWith('open_modal|intro|'))).toBe(false);
+        expect(customIds.some((id: string) => id.startsWith('open_modal|showcase|'))).toBe(true);
     });
 });
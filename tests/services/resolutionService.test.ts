@@ -0,0 +1,31 @@
+import { findTag, resolvedName, resolvedTags } from '../../src/services/resolutionService';
+import { describe, test, expect } from '@jest/globals';
+
+const tags = [
+    { id: '1', name: 'Open' },
+    { id: '2', name: 'Resolved' },
+    { id: '3', name: 'Payments' },
+];
+
+describe('ResolutionService', () => {
+    test('should find forum tags by id or by name in any case', () => {
+        expect(findTag(tags, '3')?.name).toBe('Payments');
+        expect(findTag(tags, 'resolved')?.id).toBe('2');
+        expect(findTag(tags, 'Closed')).toBeUndefined();
+    });
+
+    test('should swap the open tag for the resolved tag and keep the others', () => {
+        expect(resolvedTags(['1', '3'], '1', '2')).toEqual(['2', '3']);
+        expect(resolvedTags(['3'], undefined, undefined)).toEqual(['3']);
+    });
+
+    test('should keep the resolved tag within the forum tag limit', () => {
+        expect(resolvedTags(['a', 'b', 'c', 'd', 'e'], '1', '2')).toEqual(['2', 'a', 'b', 'c', 'd']);
+    });
+
+    test('should prefix the thread name once and stay within the title limit', () => {
+        expect(resolvedName('Webhook not firing')).toBe('✅ Webhook not firing');
+        expect(resolvedName('✅ Webhook not firing')).toBe('✅ Webhook not firing');
+        expect(resolvedName('x'.repeat(100))).toHaveLength(100);
+    });
+});
@@ -0,0 +1,35 @@
+import { applyActivity, currentStreak, localDay, localHour, StreakRecord } from '../../src/services/streakService';
+import { describe, test, expect } from '@jest/globals';
+
+function record(): StreakRecord {
+    return { guildId: 'g', userId: 'u', current: 0, longest: 0, lastActiveDay: '', updatedAt: 0 };
+}
+
+describe('StreakService', () => {
+    test('should cut days in the configured timezone', () => {
+        const lateUtc = Date.UTC(2025, 2, 10, 20, 0);
+        expect(localDay(lateUtc, 'UTC')).toBe('2025-03-10');
+        expect(localDay(lateUtc, 'Asia/Kolkata')).toBe('2025-03-11');
+        expect(localHour(lateUtc, 'Asia/Kolkata')).toBe(1);
+    });
+
+    test('should grow on consecutive days and restart after a gap', () => {
+        const streak = record();
+        expect(applyActivity(streak, '2025-03-10')).toBe(true);
+        expect(applyActivity(streak, '2025-03-10')).toBe(false);
+        applyActivity(streak, '2025-03-11');
+        applyActivity(streak, '2025-03-12');
+        expect(streak.current).toBe(3);
+
+        applyActivity(streak, '2025-03-15');
+        expect(streak.current).toBe(1);
+        expect(streak.longest).toBe(3);
+    });
+
+    test('should keep the streak until a whole day is missed', () => {
+        const streak = { ...record(), current: 5, longest: 5, lastActiveDay: '2025-03-10' };
+        expect(currentStreak(streak, '2025-03-11')).toBe(5);
+        expect(currentStreak(streak, '2025-03-12')).toBe(0);
+        expect(currentStreak(null, '2025-03-12')).toBe(0);
+    });
+});
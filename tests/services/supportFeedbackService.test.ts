@@ -0,0 +1,53 @@
+import { buildFeedbackReport, supportFeedbackService, SupportAnswer, SupportVote } from '../../src/services/supportFeedbackService';
+import { storageService } from '../../src/services/storageService';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { DURATION } from '../../src/utils/constants';
+import { describe, test, expect } from '@jest/globals';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY;
+
+function answer(id: string, daysAgo: number, votes: Record<string, SupportVote>): SupportAnswer {
+    return { id, guildId: 'g', channelId: 'c', messageId: id, query: `Question ${id}`, answer: `Answer ${id}`, createdAt: NOW - daysAgo * DAY, votes };
+}
+
+const up = (votedAt = NOW): SupportVote => ({ helpful: true, votedAt });
+const down = (comment?: string, votedAt = NOW): SupportVote => ({ helpful: false, comment, votedAt });
+
+describe('SupportFeedbackService', () => {
+    test('should rank answers by net downvotes and skip ones nobody disliked', () => {
+        const report = buildFeedbackReport([
+            answer('mixed', 1, { a: down(), b: down(), c: up() }),
+            answer('bad', 2, { a: down(), b: down() }),
+            answer('good', 3, { a: up() }),
+            answer('unrated', 1, {}),
+        ], 7, 10, NOW);
+
+        expect(report.worst.map(entry => entry.answer.id)).toEqual(['bad', 'mixed']);
+        expect(report.rated).toBe(3);
+        expect(report.helpful).toBe(2);
+        expect(report.notHelpful).toBe(4);
+    });
+
+    test('should only count answers given within the window', () => {
+        const report = buildFeedbackReport([answer('old', 30, { a: down() }), answer('recent', 1, { a: down() })], 7, 10, NOW);
+        expect(report.worst.map(entry => entry.answer.id)).toEqual(['recent']);
+    });
+
+    test('should list comments from downvotes, newest first', () => {
+        const report = buildFeedbackReport([
+            answer('docs', 1, { a: down('Outdated link', NOW - DAY), b: down('Wrong API version', NOW), c: down() }),
+        ], 7, 10, NOW);
+        expect(report.worst[0].comments).toEqual(['Wrong API version', 'Outdated link']);
+    });
+
+    test('should prune answers older than the retention period', async () => {
+        await storageService.initialize(new MemoryStorageAdapter());
+        const answers = storageService.collection<SupportAnswer>('support_answers');
+        await answers.set('old', answer('old', DURATION.SUPPORT_ANSWER_TTL + 1, { a: down() }));
+        await answers.set('recent', answer('recent', 1, {}));
+
+        expect(await supportFeedbackService.pruneAnswers(NOW)).toBe(1);
+        expect((await answers.all()).map(entry => entry.id)).toEqual(['recent']);
+    });
+});
@@ -0,0 +1,39 @@
+import { templateService, parseVariations, findUnknownPlaceholders } from '../../src/services/templateService';
+import { formService } from '../../src/services/formService';
+import { describe, test, expect, afterEach } from '@jest/globals';
+
+describe('TemplateService', () => {
+    afterEach(async () => {
+        await templateService.reset('moderation.hacked');
+        await templateService.reset('form.working.heading');
+    });
+
+    test('should split variations on --- lines', () => {
+        expect(parseVariations('Hello {user}\n---\n\nHi {user}!\r\n ---\n')).toEqual(['Hello {user}', 'Hi {user}!']);
+    });
+
+    test('should report placeholders the template does not support', () => {
+        expect(findUnknownPlaceholders('Hey {user}, see {url} and {user}', { user: '@member' })).toEqual(['url']);
+    });
+
+    test('should render the default copy with placeholders filled', () => {
+        expect(templateService.render('moderation.hacked', { user: '<@1>' })).toMatch(/^Hey <@1>, seems like your account has been hacked/);
+    });
+
+    test('should prefer a saved override and fall back to the default after a reset', async () => {
+        await templateService.setVariations('moderation.hacked', ['Timed out {user}'], 'mod1');
+        expect(templateService.isCustomized('moderation.hacked')).toBe(true);
+        expect(templateService.render('moderation.hacked', { user: '<@1>' })).toBe('Timed out <@1>');
+
+        await templateService.reset('moderation.hacked');
+        expect(templateService.isCustomized('moderation.hacked')).toBe(false);
+        expect(templateService.render('moderation.hacked', { user: '<@1>' })).toContain('has been hacked');
+    });
+
+    test('should use edited form wording in post embeds', async () => {
+        await templateService.setVariations('form.working.heading', ['Now building: {product_name}'], 'mod1');
+        const form = formService.getForm('working')!;
+        const embed = formService.buildEmbed(form, 'user1', { product_name: 'Dodo', product_about: 'Payments' }, 3).toJSON();
+        expect(embed.description).toContain('Now building: Dodo <@user1>');
+    });
+});
@@ -0,0 +1,61 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileStorageAdapter } from '../../src/storage/fileAdapter';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { describe, beforeEach, afterEach, test, expect } from '@jest/globals';
+
+describe('MemoryStorageAdapter', () => {
+    test('should return copies so callers cannot mutate stored state', async () => {
+        const adapter = new MemoryStorageAdapter();
+        const collection = adapter.collection<{ items: string[] }>('things');
+
+        await collection.set('a', { items: ['x'] });
+        const first = await collection.get('a');
+        first!.items.push('y');
+
+        expect(await collection.get('a')).toEqual({ items: ['x'] });
+    });
+
+    test('should delete and list documents', async () => {
+        const adapter = new MemoryStorageAdapter();
+        const collection = adapter.collection<number>('numbers');
+
+        await collection.set('one', 1);
+        await collection.set('two', 2);
+        expect(await collection.delete('one')).toBe(true);
+        expect(await collection.delete('missing')).toBe(false);
+        expect(await collection.entries()).toEqual([['two', 2]]);
+    });
+});
+
+describe('FileStorageAdapter', () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'dodo-storage-'));
+        filePath = path.join(dir, 'nested', 'data.json');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should start empty when the file does not exist', async () => {
+        const adapter = new FileStorageAdapter(filePath);
+        await adapter.connect();
+        expect(await adapter.collection('completions').all()).toEqual([]);
+    });
+
+    test('should persist data across instances', async () => {
+        const first = new FileStorageAdapter(filePath);
+        await first.connect();
+        await first.collection('completions').set('guild1:user1', { completions: ['intro'] });
+        await first.disconnect();
+
+        const second = new FileStorageAdapter(filePath);
+        await second.connect();
+        expect(await second.collection('completions').get('guild1:user1')).toEqual({ completions: ['intro'] });
+    });
+});
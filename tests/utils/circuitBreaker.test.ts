@@ -0,0 +1,39 @@
+import { CircuitBreaker } from '../../src/utils/circuitBreaker';
+import { describe, test, expect } from '@jest/globals';
+
+const options = { failureThreshold: 3, cooldownMs: 1000 };
+
+describe('CircuitBreaker', () => {
+    test('should open after consecutive failures and alert once', () => {
+        const changes: string[] = [];
+        const breaker = new CircuitBreaker(options, state => changes.push(state));
+
+        breaker.recordFailure(0);
+        breaker.recordFailure(0);
+        breaker.recordSuccess();
+        breaker.recordFailure(0);
+        breaker.recordFailure(0);
+        expect(breaker.canRequest(0)).toBe(true);
+
+        breaker.recordFailure(0);
+        expect(breaker.canRequest(500)).toBe(false);
+        expect(changes).toEqual(['open']);
+    });
+
+    test('should allow a single trial after the cooldown', () => {
+        const changes: string[] = [];
+        const breaker = new CircuitBreaker(options, state => changes.push(state));
+        for (let i = 0; i < 3; i++) breaker.recordFailure(0);
+
+        expect(breaker.canRequest(1000)).toBe(true);
+        expect(breaker.canRequest(1000)).toBe(false);
+
+        // A failed trial reopens quietly; a successful one closes with a recovery notice
+        breaker.recordFailure(1000);
+        expect(breaker.canRequest(1500)).toBe(false);
+        expect(breaker.canRequest(2000)).toBe(true);
+        breaker.recordSuccess();
+        expect(breaker.getState()).toBe('closed');
+        expect(changes).toEqual(['open', 'closed']);
+    });
+});
@@ -0,0 +1,31 @@
+import { signCustomId, verifyCustomId } from '../../src/utils/customIds';
+import { describe, test, expect } from '@jest/globals';
+
+const NOW = Date.UTC(2025, 2, 10);
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('customIds', () => {
+    test('should round-trip signed fields', () => {
+        const customId = signCustomId('open_modal', ['intro', '123', '456'], HOUR_MS, NOW);
+        expect(customId.startsWith('open_modal|intro|123|456|')).toBe(true);
+        expect(verifyCustomId(customId, NOW)).toEqual({ status: 'valid', prefix: 'open_modal', fields: ['intro', '123', '456'] });
+    });
+
+    test('should reject tampered and unsigned ids', () => {
+        const customId = signCustomId('open_modal', ['intro', '123', '456'], HOUR_MS, NOW);
+        expect(verifyCustomId(customId.replace('|456|', '|999|'), NOW).status).toBe('invalid');
+        expect(verifyCustomId('open_modal|intro|123|456|789', NOW).status).toBe('invalid');
+        expect(verifyCustomId('mark_resolved', NOW).status).toBe('invalid');
+    });
+
+    test('should expire after the ttl', () => {
+        const customId = signCustomId('submit_modal', ['intro', '123', '456'], HOUR_MS, NOW);
+        expect(verifyCustomId(customId, NOW + HOUR_MS - 1000).status).toBe('valid');
+        expect(verifyCustomId(customId, NOW + HOUR_MS + 1000).status).toBe('expired');
+    });
+
+    test('should refuse parts that would break the format', () => {
+        expect(() => signCustomId('open_modal', ['a|b'], HOUR_MS, NOW)).toThrow('must not contain');
+        expect(() => signCustomId('open_modal', ['x'.repeat(100)], HOUR_MS, NOW)).toThrow('max 100');
+    });
+});
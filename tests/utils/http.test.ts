@@ -0,0 +1,47 @@
+import { fetchWithRetry, HttpError, isRetryable } from '../../src/utils/http';
+import { describe, test, expect, jest, afterEach } from '@jest/globals';
+
+const options = { timeoutMs: 1000, retries: 2, baseDelayMs: 100 };
+const originalFetch = global.fetch;
+
+function mockFetch(...results: Array<number | Error>) {
+    const fetchMock = jest.fn<typeof fetch>();
+    for (const result of results) {
+        if (result instanceof Error) fetchMock.mockRejectedValueOnce(result);
+        else fetchMock.mockResolvedValueOnce(new Response('[]', { status: result }));
+    }
+    global.fetch = fetchMock;
+    return fetchMock;
+}
+
+describe('fetchWithRetry', () => {
+    afterEach(() => {
+        global.fetch = originalFetch;
+    });
+
+    test('should only retry timeouts, network errors and 5xx responses', () => {
+        expect(isRetryable(new HttpError(503))).toBe(true);
+        expect(isRetryable(new HttpError(404))).toBe(false);
+        expect(isRetryable(new TypeError('fetch failed'))).toBe(true);
+        expect(isRetryable(Object.assign(new Error('timed out'), { name: 'TimeoutError' }))).toBe(true);
+    });
+
+    test('should back off exponentially until a request succeeds', async () => {
+        const fetchMock = mockFetch(502, new TypeError('fetch failed'), 200);
+        const delays: number[] = [];
+
+        const response = await fetchWithRetry('https://n8n.example.com/hook', {}, options, async ms => { delays.push(ms); });
+        expect(response.status).toBe(200);
+        expect(fetchMock).toHaveBeenCalledTimes(3);
+        expect(delays).toEqual([100, 200]);
+    });
+
+    test('should give up after the last retry or on a client error', async () => {
+        mockFetch(500, 500, 500);
+        await expect(fetchWithRetry('https://n8n.example.com/hook', {}, options, async () => {})).rejects.toThrow('status: 500');
+
+        const fetchMock = mockFetch(400);
+        await expect(fetchWithRetry('https://n8n.example.com/hook', {}, options, async () => {})).rejects.toThrow('status: 400');
+        expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+});
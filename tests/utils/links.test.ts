@@ -0,0 +1,33 @@
+import { normalizeLink, parseLinks } from '../../src/utils/links';
+import { describe, test, expect } from '@jest/globals';
+
+describe('normalizeLink', () => {
+    test('should normalize profile links by type', () => {
+        expect(normalizeLink('github.com/dodopayments/')).toEqual({ type: 'github', url: 'https://github.com/dodopayments' });
+        expect(normalizeLink('https://twitter.com/dodopayments?s=20')).toEqual({ type: 'x', url: 'https://x.com/dodopayments' });
+        expect(normalizeLink('https://in.linkedin.com/in/ana-dev/')).toEqual({ type: 'linkedin', url: 'https://www.linkedin.com/in/ana-dev' });
+        expect(normalizeLink('https://checkout.dodopayments.com/buy/pdt_123')).toEqual({ type: 'storefront', url: 'https://checkout.dodopayments.com/buy/pdt_123' });
+        expect(normalizeLink('MyProduct.dev/')).toEqual({ type: 'website', url: 'https://myproduct.dev' });
+    });
+
+    test('should reject links that are not profiles or web URLs', () => {
+        expect(normalizeLink('https://github.com')).toBeNull();
+        expect(normalizeLink('https://x.com/home')).toBeNull();
+        expect(normalizeLink('https://linkedin.com/feed')).toBeNull();
+        expect(normalizeLink('javascript:alert(1)')).toBeNull();
+        expect(normalizeLink('not a link')).toBeNull();
+        expect(normalizeLink('localhost:3000')).toBeNull();
+    });
+});
+
+describe('parseLinks', () => {
+    test('should split on lines and commas and drop duplicates', () => {
+        const { links, invalid } = parseLinks('https://x.com/ana, twitter.com/ana\nana.dev\nnope');
+        expect(links.map(link => link.url)).toEqual(['https://x.com/ana', 'https://ana.dev']);
+        expect(invalid).toEqual(['nope']);
+    });
+
+    test('should reject types the field does not accept', () => {
+        expect(parseLinks('https://ana.dev', ['github']).invalid).toEqual(['https://ana.dev']);
+    });
+});
@@ -0,0 +1,22 @@
+import { pruneExpired } from '../../src/utils/retention';
+import { MemoryStorageAdapter } from '../../src/storage/memoryAdapter';
+import { DAY_MS } from '../../src/utils/constants';
+import { describe, test, expect } from '@jest/globals';
+
+const NOW = 100 * DAY_MS;
+
+interface StoredRecord {
+    createdAt?: number;
+}
+
+describe('pruneExpired', () => {
+    test('should delete records older than the time to live and keep the rest', async () => {
+        const records = new MemoryStorageAdapter().collection<StoredRecord>('records');
+        await records.set('old', { createdAt: NOW - 31 * DAY_MS });
+        await records.set('recent', { createdAt: NOW - 29 * DAY_MS });
+        await records.set('undated', {});
+
+        expect(await pruneExpired(records, 30, record => record.createdAt, NOW)).toBe(1);
+        expect((await records.entries()).map(([key]) => key).sort()).toEqual(['recent', 'undated']);
+    });
+});